@@ -0,0 +1,217 @@
+import * as http from 'http';
+import * as https from 'https';
+import { AlfrescoClient, AlfrescoClientConfig } from './index';
+import { CircuitBreaker } from './common/callPolicy';
+
+export type AlfrescoClientDefaults = Omit<AlfrescoClientConfig, 'url' | 'username' | 'password' | 'ticket'>;
+
+export interface AlfrescoClientFactoryOptions extends AlfrescoClientDefaults {
+  /**
+   * Keep connections open between requests (default true)
+   */
+  keepAlive?: boolean;
+  /**
+   * Maximum concurrent sockets per Alfresco host, shared by every client (default unlimited)
+   */
+  maxSockets?: number;
+  /**
+   * Number of user sessions kept; the least recently used one without a lease is closed beyond that (default 100)
+   */
+  maxClients?: number;
+}
+
+/**
+ * A cached client handed out by getClient. The factory does not close it while a lease is held;
+ * call release() when done so it can be closed once it is evicted.
+ */
+export interface AlfrescoClientLease {
+  client: AlfrescoClient;
+  release(): void;
+}
+
+interface CachedClient {
+  client: AlfrescoClient;
+  password: string;
+  leases: number;
+  evicted: boolean;
+}
+
+/**
+ * Hands out AlfrescoClient instances for many repositories and users from one process.
+ * Clients share keep-alive agents, parsed WSDLs and one circuit breaker per repository; sessions are
+ * kept per URL and user so each user logs in once.
+ */
+export class AlfrescoClientFactory {
+  private options: AlfrescoClientFactoryOptions;
+  private httpAgent: http.Agent;
+  private httpsAgent: https.Agent;
+  private clients = new Map<string, CachedClient>();
+  // Evicted clients that are closed when their last lease is released
+  private leased = new Set<CachedClient>();
+  private closing = new Set<Promise<void>>();
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(options: AlfrescoClientFactoryOptions = {}) {
+    this.options = options;
+    const agentOptions = {
+      keepAlive: options.keepAlive ?? true,
+      maxSockets: options.maxSockets ?? Infinity,
+    };
+    this.httpAgent = options.httpAgent || new http.Agent(agentOptions);
+    this.httpsAgent = options.httpsAgent || new https.Agent(agentOptions);
+  }
+
+  /**
+   * Number of cached user sessions
+   */
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Lease the client for this repository and user, creating it on first use.
+   * A different password for a known user replaces the cached session; the old one is closed once
+   * its leases are released.
+   */
+  getClient(url: string, username: string, password: string): AlfrescoClientLease {
+    const key = clientKey(url, username);
+    let cached = this.clients.get(key);
+    if (cached && cached.password === password) {
+      // Re-insert to mark as most recently used
+      this.clients.delete(key);
+      this.clients.set(key, cached);
+    } else {
+      if (cached) this.evict(key);
+      cached = { client: this.create({ url, username, password }), password, leases: 0, evicted: false };
+      this.clients.set(key, cached);
+    }
+    cached.leases++;
+    this.trim();
+    return { client: cached.client, release: once(() => this.releaseLease(cached!)) };
+  }
+
+  /**
+   * Client acting as `username` with a ticket that user already holds, e.g. one passed along with an
+   * incoming request. It is not cached and its session is not ended on close(), since the ticket
+   * belongs to the caller.
+   */
+  withTicket(url: string, username: string, ticket: string): AlfrescoClient {
+    return this.create({ url, username, ticket });
+  }
+
+  /**
+   * Close the cached session of one user, or once its leases are released if it is still leased
+   */
+  async release(url: string, username: string): Promise<void> {
+    const key = clientKey(url, username);
+    const cached = this.clients.get(key);
+    if (!cached) return;
+    this.clients.delete(key);
+    if (cached.leases > 0) {
+      cached.evicted = true;
+      this.leased.add(cached);
+    } else {
+      await cached.client.close();
+    }
+  }
+
+  /**
+   * End every session, leased or not, and free the pooled sockets
+   */
+  async closeAll(): Promise<void> {
+    const clients = [...this.clients.values(), ...this.leased];
+    this.clients.clear();
+    this.leased.clear();
+    clients.forEach(cached => this.close(cached));
+    await Promise.all(this.closing);
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+  }
+
+  private create(config: Pick<AlfrescoClientConfig, 'url' | 'username' | 'password' | 'ticket'>): AlfrescoClient {
+    const { keepAlive, maxSockets, maxClients, ...defaults } = this.options;
+    return new AlfrescoClient({
+      ...defaults,
+      ...config,
+      httpAgent: this.httpAgent,
+      httpsAgent: this.httpsAgent,
+      circuitBreaker: this.breakerFor(config.url),
+    });
+  }
+
+  private breakerFor(url: string): CircuitBreaker | undefined {
+    const { circuitBreaker, hooks, logger } = this.options;
+    if (!circuitBreaker) return undefined;
+    if (circuitBreaker instanceof CircuitBreaker) return circuitBreaker;
+    const key = normalizeUrl(url);
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(circuitBreaker === true ? {} : circuitBreaker, state => {
+        logger?.warn(`Circuit breaker ${state}`, { url: key, circuitState: state });
+        hooks?.onCircuitStateChange?.(state);
+      });
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  // Leased clients stay cached, so the cache may exceed maxClients until they are released
+  private trim() {
+    const maxClients = this.options.maxClients ?? 100;
+    let excess = this.clients.size - maxClients;
+    for (const [key, cached] of this.clients) {
+      if (excess <= 0) break;
+      if (cached.leases === 0) {
+        this.evict(key);
+        excess--;
+      }
+    }
+  }
+
+  private evict(key: string) {
+    const cached = this.clients.get(key);
+    if (!cached) return;
+    this.clients.delete(key);
+    cached.evicted = true;
+    if (cached.leases > 0) {
+      this.leased.add(cached);
+    } else {
+      this.close(cached);
+    }
+  }
+
+  private releaseLease(cached: CachedClient) {
+    cached.leases--;
+    if (cached.leases > 0) return;
+    if (cached.evicted) {
+      this.leased.delete(cached);
+      this.close(cached);
+    } else {
+      this.trim();
+    }
+  }
+
+  private close(cached: CachedClient) {
+    const closing = cached.client.close()
+      .catch(() => undefined)
+      .finally(() => this.closing.delete(closing));
+    this.closing.add(closing);
+  }
+}
+
+function once(fn: () => void): () => void {
+  let called = false;
+  return () => {
+    if (called) return;
+    called = true;
+    fn();
+  };
+}
+
+function normalizeUrl(url: string): string {
+  return url.replace(/\/+$/, '').toLowerCase();
+}
+
+function clientKey(url: string, username: string): string {
+  return `${normalizeUrl(url)}|${username}`;
+}
@@ -0,0 +1,159 @@
+import type { AuthenticationService } from '../services/AuthenticationService';
+import type { SoapService } from './SoapService';
+import { InvalidTicketError } from './errors';
+
+export interface SessionOptions {
+  /**
+   * How long a ticket is reused before a new session is started, in milliseconds.
+   * Keep this below the server's ticket expiry (Alfresco defaults to one hour).
+   */
+  ticketTtl?: number;
+  /**
+   * Use an existing ticket (e.g. one issued to the end user) instead of logging in.
+   * Without a password such a session cannot be renewed and is not ended on close().
+   */
+  ticket?: string;
+}
+
+const DEFAULT_TICKET_TTL = 50 * 60 * 1000;
+
+/**
+ * Owns the Alfresco ticket for one user: starts a session on first use, reuses it until the TTL
+ * runs out, renews it when the server rejects it and ends it on close. A replaced ticket is ended
+ * once the calls still using it have finished.
+ */
+export class SessionManager {
+  private authService: AuthenticationService;
+  private username: string;
+  private password: string | null;
+  private ticketTtl: number;
+  private services: SoapService[] = [];
+  private currentTicket: string | null = null;
+  private issuedAt = 0;
+  private pendingLogin: Promise<string> | null = null;
+  // Calls in flight per ticket, and replaced tickets waiting for theirs to finish
+  private leases = new Map<string, number>();
+  private retired = new Set<string>();
+  private releases = new Set<Promise<void>>();
+
+  constructor(authService: AuthenticationService, username: string, password: string | null, options: SessionOptions = {}) {
+    this.authService = authService;
+    this.username = username;
+    this.password = password;
+    this.ticketTtl = options.ticketTtl ?? DEFAULT_TICKET_TTL;
+    if (options.ticket) {
+      this.currentTicket = options.ticket;
+      this.issuedAt = Date.now();
+    }
+  }
+
+  get ticket(): string | null {
+    return this.currentTicket;
+  }
+
+  /**
+   * Attach a service so it receives the ticket header and can ask for renewal
+   */
+  register(service: SoapService) {
+    this.services.push(service);
+    service.setSession(this);
+    if (this.currentTicket) {
+      service.setTicket(this.currentTicket, this.username);
+    }
+  }
+
+  /**
+   * Return the cached ticket, starting a new session when there is none or it has expired
+   */
+  async getTicket(): Promise<string> {
+    // A borrowed ticket is used until the server rejects it
+    if (this.currentTicket && (this.password === null || Date.now() - this.issuedAt < this.ticketTtl)) {
+      return this.currentTicket;
+    }
+    if (this.currentTicket) {
+      // Expired by TTL: end it on the server instead of leaving it to time out
+      this.retire(this.currentTicket);
+      this.currentTicket = null;
+    }
+    return this.login();
+  }
+
+  /**
+   * Run a call with the current ticket, keeping the ticket alive on the server until the call has finished
+   */
+  async withTicket<T>(call: (ticket: string) => Promise<T>): Promise<T> {
+    const ticket = await this.getTicket();
+    this.leases.set(ticket, (this.leases.get(ticket) ?? 0) + 1);
+    try {
+      return await call(ticket);
+    } finally {
+      const remaining = this.leases.get(ticket)! - 1;
+      if (remaining > 0) {
+        this.leases.set(ticket, remaining);
+      } else {
+        this.leases.delete(ticket);
+        if (this.retired.delete(ticket)) this.release(ticket);
+      }
+    }
+  }
+
+  /**
+   * Replace a ticket the server rejected with a new session. Concurrent callers that saw the same
+   * ticket rejected share one login; a caller whose ticket was already replaced gets the new one.
+   */
+  async renew(rejectedTicket: string): Promise<string> {
+    if (this.pendingLogin) return this.pendingLogin;
+    if (this.currentTicket && this.currentTicket !== rejectedTicket) return this.currentTicket;
+    if (this.currentTicket) this.retire(this.currentTicket);
+    this.currentTicket = null;
+    return this.login();
+  }
+
+  /**
+   * End the current session on the server
+   */
+  async close(): Promise<void> {
+    const ticket = this.currentTicket;
+    this.currentTicket = null;
+    if (ticket && this.password !== null) {
+      await this.authService.logout(ticket);
+    }
+    await Promise.all(this.releases);
+  }
+
+  private login(): Promise<string> {
+    const password = this.password;
+    if (password === null) {
+      return Promise.reject(new InvalidTicketError(`Ticket for ${this.username} is no longer valid and no password is available to renew it`, { service: 'AuthenticationService' }));
+    }
+    // Concurrent callers share one startSession request
+    if (!this.pendingLogin) {
+      this.pendingLogin = this.authService.login(this.username, password)
+        .then(ticket => {
+          this.currentTicket = ticket;
+          this.issuedAt = Date.now();
+          this.services.forEach(service => service.setTicket(ticket, this.username));
+          return ticket;
+        })
+        .finally(() => {
+          this.pendingLogin = null;
+        });
+    }
+    return this.pendingLogin;
+  }
+
+  // A borrowed ticket belongs to someone else and is never ended here
+  private retire(ticket: string) {
+    if (this.password === null) return;
+    if (this.leases.has(ticket)) this.retired.add(ticket);
+    else this.release(ticket);
+  }
+
+  private release(ticket: string) {
+    const release = this.authService.logout(ticket)
+      .catch(() => undefined)
+      .finally(() => this.releases.delete(release));
+    this.releases.add(release);
+  }
+}
+
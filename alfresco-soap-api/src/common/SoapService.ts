@@ -1,11 +1,32 @@
+import type * as http from 'http';
+import type * as https from 'https';
+import * as path from 'path';
 import * as soap from 'soap';
 import { Client } from 'soap';
+import { SessionManager } from './SessionManager';
+import { AlfrescoError, AuthenticationError, CircuitOpenError, InvalidTicketError, TransportError, toAlfrescoError } from './errors';
+import { Logger, redact, silentLogger } from './logger';
+import { createSoapClient } from './wsdlCache';
+import { CallPolicy, CircuitBreaker, DEFAULT_TIMEOUT, backoffDelay, resolveRetry } from './callPolicy';
+
+export interface HttpAgents {
+  httpAgent?: http.Agent;
+  httpsAgent?: https.Agent;
+}
 
 export class SoapService {
   protected wsdlUrl: string;
   public client: Client | null = null;
   private ticket: string | null = null;
   private username: string | null = null;
+  private soapHeaders: Record<string, string> = {};
+  private session: SessionManager | null = null;
+  protected logger: Logger = silentLogger;
+  private traceEnvelopes = false;
+  private callPolicy: CallPolicy = {};
+  private breaker: CircuitBreaker | null = null;
+  private wsdlDir: string | null = null;
+  private agents: HttpAgents = {};
 
   constructor(wsdlUrl: string) {
     this.wsdlUrl = wsdlUrl;
@@ -13,10 +34,23 @@ export class SoapService {
 
   async init(): Promise<void> {
     if (!this.client) {
-      this.client = await soap.createClientAsync(this.wsdlUrl);
+      try {
+        const timeout = this.callPolicy.timeout ?? DEFAULT_TIMEOUT;
+        const source = this.wsdlDir ? path.join(this.wsdlDir, `${this.serviceName}.wsdl`) : this.wsdlUrl;
+        this.client = await createSoapClient(source, this.endpoint, { wsdl_options: this.requestOptions(timeout) });
+      } catch (error) {
+        throw toAlfrescoError(error, { service: this.serviceName });
+      }
       if (this.ticket && this.username) {
         this.addTicketHeader(this.username, this.ticket);
       }
+      this.applySoapHeaders();
+      this.client.on('request', (xml: string, eid: string) => {
+        if (this.traceEnvelopes) this.logger.debug('SOAP request', { service: this.serviceName, exchangeId: eid, envelope: redact(xml) });
+      });
+      this.client.on('response', (body: string | null, _response: unknown, eid: string) => {
+        if (this.traceEnvelopes) this.logger.debug('SOAP response', { service: this.serviceName, exchangeId: eid, envelope: body ? redact(body) : body });
+      });
     }
   }
 
@@ -28,21 +62,166 @@ export class SoapService {
     }
   }
 
+  /**
+   * Let this service obtain tickets from (and request renewal through) a session manager
+   */
+  setSession(session: SessionManager) {
+    this.session = session;
+  }
+
+  /**
+   * Route this service's log output; with traceEnvelopes every SOAP envelope is logged at debug level (secrets masked)
+   */
+  setLogger(logger: Logger, options: { traceEnvelopes?: boolean } = {}) {
+    this.logger = logger;
+    this.traceEnvelopes = !!options.traceEnvelopes;
+  }
+
+  /**
+   * Set timeout, retry and metrics hooks for this service's calls, optionally sharing a circuit breaker
+   */
+  setCallPolicy(policy: CallPolicy, breaker: CircuitBreaker | null = null) {
+    this.callPolicy = policy;
+    this.breaker = breaker;
+  }
+
+  /**
+   * Load the WSDL from `<dir>/<ServiceName>.wsdl` instead of fetching it from the server
+   */
+  setWsdlDir(dir: string | null) {
+    this.wsdlDir = dir;
+  }
+
+  /**
+   * Send requests through the given agents, e.g. keep-alive agents shared by several clients
+   */
+  setAgents(agents: HttpAgents) {
+    this.agents = agents;
+  }
+
+  // Per-request options handed through node-soap to the HTTP client
+  private requestOptions(timeout: number): Record<string, unknown> {
+    return { ...(timeout > 0 ? { timeout } : {}), ...this.agents };
+  }
+
+  /**
+   * Ticket for plain HTTP requests to the content servlets, starting a session when needed
+   */
+  protected async getTicket(): Promise<string> {
+    if (this.session) return this.session.getTicket();
+    if (!this.ticket) {
+      throw new AuthenticationError('No ticket available. Log in before using the content servlets.', { service: this.serviceName });
+    }
+    return this.ticket;
+  }
+
+  /**
+   * Agent and timeout to use for plain HTTP requests, matching the SOAP calls
+   */
+  protected httpOptions(url: string): { agent?: http.Agent; timeout: number } {
+    const agent = url.startsWith('https:') ? this.agents.httpsAgent : this.agents.httpAgent;
+    return { agent, timeout: this.callPolicy.timeout ?? DEFAULT_TIMEOUT };
+  }
+
   private addTicketHeader(username: string, ticket: string) {
     // Alfresco expects WS-Security UsernameToken: username=alfresco user, password=ticket
     const wsSecurity = new (soap as any).WSSecurity(username, ticket, { passwordType: 'PasswordText', hasTimeStamp: true });
     this.client?.setSecurity(wsSecurity);
   }
 
+  /**
+   * Set (or remove, when xml is null) a raw SOAP header sent with every call of this service
+   */
+  protected setSoapHeader(key: string, xml: string | null) {
+    if (xml === null) {
+      delete this.soapHeaders[key];
+    } else {
+      this.soapHeaders[key] = xml;
+    }
+    this.applySoapHeaders();
+  }
+
+  private applySoapHeaders() {
+    if (!this.client) return;
+    this.client.clearSoapHeaders();
+    Object.values(this.soapHeaders).forEach(xml => this.client?.addSoapHeader(xml));
+  }
+
+  /**
+   * Service name taken from the WSDL URL, e.g. `RepositoryService`
+   */
+  protected get serviceName(): string {
+    const match = /\/api\/(\w+)\?wsdl/i.exec(this.wsdlUrl);
+    return match ? match[1] : this.wsdlUrl;
+  }
+
+  /**
+   * Service URL the requests are sent to, i.e. the WSDL URL without `?wsdl`
+   */
+  protected get endpoint(): string {
+    return this.wsdlUrl.replace(/\?wsdl$/i, '');
+  }
+
   async call<T = any>(method: string, args: any): Promise<T> {
+    const context = { service: this.serviceName, operation: method };
     if (!this.client) {
-      throw new Error('SOAP client not initialized. Call init() first.');
+      throw new AlfrescoError('SOAP client not initialized. Call init() first.', context);
     }
     const fn = (this.client as any)[`${method}Async`];
     if (!fn) {
-      throw new Error(`Method ${method} not found on SOAP client.`);
+      throw new AlfrescoError(`Method ${method} not found on SOAP client.`, context);
     }
-    const [result] = await fn(args);
-    return result;
+    const timeout = this.callPolicy.timeout ?? DEFAULT_TIMEOUT;
+    const retry = resolveRetry(this.callPolicy.retry);
+    // Only idempotent reads are repeated; a write may have reached the server before the connection failed
+    const maxAttempts = retry.operations.includes(method) ? retry.attempts : 1;
+    const hooks = this.callPolicy.hooks || {};
+    const invoke = async (): Promise<T> => {
+      const started = Date.now();
+      for (let attempt = 1; ; attempt++) {
+        try {
+          this.breaker?.check(context);
+          const [result] = await fn(args, this.requestOptions(timeout));
+          this.breaker?.recordSuccess();
+          const durationMs = Date.now() - started;
+          this.logger.debug(`${context.service}.${method} succeeded`, { ...context, durationMs, attempts: attempt });
+          hooks.onCallComplete?.({ ...context, attempts: attempt, durationMs });
+          return result;
+        } catch (error) {
+          const mapped = toAlfrescoError(error, context);
+          if (!(mapped instanceof CircuitOpenError)) {
+            // A SOAP fault still proves the server is answering
+            if (mapped instanceof TransportError) this.breaker?.recordFailure();
+            else this.breaker?.recordSuccess();
+          }
+          if (attempt < maxAttempts && mapped instanceof TransportError && !(mapped instanceof CircuitOpenError)) {
+            const delayMs = backoffDelay(retry, attempt);
+            this.logger.info(`Retrying ${context.service}.${method} in ${delayMs}ms: ${mapped.message}`, { ...context, attempt, delayMs });
+            hooks.onRetry?.({ ...context, attempt, delayMs, error: mapped });
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+            continue;
+          }
+          const durationMs = Date.now() - started;
+          this.logger.warn(`${context.service}.${method} failed: ${mapped.message}`, { ...context, durationMs, attempts: attempt, error: mapped });
+          hooks.onCallComplete?.({ ...context, attempts: attempt, durationMs, error: mapped });
+          throw mapped;
+        }
+      }
+    };
+    if (!this.session) {
+      return invoke();
+    }
+    const session = this.session;
+    return session.withTicket(async ticket => {
+      try {
+        return await invoke();
+      } catch (error) {
+        if (!(error instanceof InvalidTicketError)) throw error;
+        // The server dropped our session: start a new one (unless another call already has) and retry once
+        this.logger.info('Ticket rejected, starting a new session', context);
+        await session.renew(ticket);
+        return session.withTicket(() => invoke());
+      }
+    });
   }
-} 
\ No newline at end of file
+}
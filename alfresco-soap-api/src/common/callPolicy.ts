@@ -0,0 +1,145 @@
+import { CircuitOpenError } from './errors';
+
+export interface RetryOptions {
+  /**
+   * Total attempts for a retryable operation, including the first one (default 3)
+   */
+  attempts?: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled on every further retry (default 200)
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound for a single delay in milliseconds (default 5000)
+   */
+  maxDelay?: number;
+  /**
+   * Operations that are safe to repeat. Defaults to the read-only repository and content calls.
+   */
+  operations?: string[];
+}
+
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive transport failures that open the circuit (default 5)
+   */
+  failureThreshold?: number;
+  /**
+   * How long the circuit stays open before a trial call is let through, in milliseconds (default 30000)
+   */
+  resetTimeout?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CallInfo {
+  service: string;
+  operation: string;
+}
+
+export interface CallHooks {
+  /**
+   * Called before a retry is scheduled
+   */
+  onRetry?(info: CallInfo & { attempt: number; delayMs: number; error: Error }): void;
+  /**
+   * Called once per call with the total time spent and the attempts made
+   */
+  onCallComplete?(info: CallInfo & { attempts: number; durationMs: number; error?: Error }): void;
+  onCircuitStateChange?(state: CircuitState): void;
+}
+
+export interface CallPolicy {
+  /**
+   * Per-request timeout in milliseconds. 0 disables it.
+   */
+  timeout?: number;
+  /**
+   * Retry settings for idempotent reads, or false to never retry
+   */
+  retry?: RetryOptions | false;
+  hooks?: CallHooks;
+}
+
+/**
+ * Read-only operations retried by default. Writes are never retried unless listed explicitly.
+ */
+export const DEFAULT_RETRYABLE_OPERATIONS = ['getStores', 'get', 'query', 'queryChildren', 'queryParents', 'queryAssociated', 'fetchMore', 'read'];
+
+export const DEFAULT_TIMEOUT = 60 * 1000;
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  attempts: 3,
+  baseDelay: 200,
+  maxDelay: 5000,
+  operations: DEFAULT_RETRYABLE_OPERATIONS,
+};
+
+/**
+ * Fill in retry defaults; attempts is 1 when retries are disabled
+ */
+export function resolveRetry(retry: RetryOptions | false | undefined): Required<RetryOptions> {
+  if (retry === false) return { ...DEFAULT_RETRY, attempts: 1 };
+  return { ...DEFAULT_RETRY, ...retry };
+}
+
+/**
+ * Exponential backoff with jitter for the given retry number (1-based)
+ */
+export function backoffDelay(retry: Required<RetryOptions>, attempt: number): number {
+  const delay = Math.min(retry.maxDelay, retry.baseDelay * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Fails calls fast once the server has produced repeated transport failures.
+ * One breaker is shared by every service of a client since they all talk to the same server.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeout: number;
+  private onStateChange?: (state: CircuitState) => void;
+  private failures = 0;
+  private openedAt = 0;
+  private currentState: CircuitState = 'closed';
+
+  constructor(options: CircuitBreakerOptions = {}, onStateChange?: (state: CircuitState) => void) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30 * 1000;
+    this.onStateChange = onStateChange;
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * Throw CircuitOpenError while the circuit is open; after resetTimeout let one trial call through
+   */
+  check(info: CallInfo) {
+    if (this.currentState === 'closed') return;
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.resetTimeout) {
+      this.transition('half-open');
+      return;
+    }
+    throw new CircuitOpenError(`Circuit open: ${info.service}.${info.operation} not sent after ${this.failures} consecutive transport failures`, info);
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    if (this.currentState !== 'closed') this.transition('closed');
+  }
+
+  recordFailure() {
+    this.failures++;
+    if (this.currentState === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.currentState !== 'open') this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState) {
+    this.currentState = state;
+    this.onStateChange?.(state);
+  }
+}
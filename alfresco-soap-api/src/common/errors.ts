@@ -0,0 +1,180 @@
+export interface AlfrescoErrorDetails {
+  /**
+   * SOAP faultcode, e.g. `soapenv:Server.generalException`
+   */
+  faultCode?: string;
+  /**
+   * SOAP faultstring as sent by the server
+   */
+  faultString?: string;
+  /**
+   * errorCode of the Alfresco *Fault detail element (RepositoryFault, ContentFault, ...)
+   */
+  errorCode?: number;
+  /**
+   * Name of the fault detail element, e.g. `RepositoryFault`
+   */
+  faultType?: string;
+  service?: string;
+  operation?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error thrown by this library
+ */
+export class AlfrescoError extends Error {
+  readonly faultCode?: string;
+  readonly faultString?: string;
+  readonly errorCode?: number;
+  readonly faultType?: string;
+  readonly service?: string;
+  readonly operation?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: AlfrescoErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    // Keep instanceof working when compiled to ES5-style classes
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.faultCode = details.faultCode;
+    this.faultString = details.faultString;
+    this.errorCode = details.errorCode;
+    this.faultType = details.faultType;
+    this.service = details.service;
+    this.operation = details.operation;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * The request arguments were rejected before anything was sent (e.g. a malformed nodeRef)
+ */
+export class ValidationError extends AlfrescoError {}
+
+/**
+ * The node or store does not exist (InvalidNodeRefException, InvalidStoreRefException)
+ */
+export class NodeNotFoundError extends AlfrescoError {}
+
+/**
+ * The authenticated user lacks the permission needed for the operation
+ */
+export class AccessDeniedError extends AlfrescoError {}
+
+/**
+ * Login failed or the session could not be established
+ */
+export class AuthenticationError extends AlfrescoError {}
+
+/**
+ * The ticket sent with the request has expired or is unknown to the server
+ */
+export class InvalidTicketError extends AuthenticationError {}
+
+/**
+ * The change would violate the content model (mandatory properties, duplicate child names, ...)
+ */
+export class IntegrityError extends AlfrescoError {}
+
+/**
+ * The server could not be reached or answered without a SOAP fault (connection errors, timeouts, HTTP errors)
+ */
+export class TransportError extends AlfrescoError {
+  readonly statusCode?: number;
+
+  constructor(message: string, details: AlfrescoErrorDetails & { statusCode?: number } = {}) {
+    super(message, details);
+    this.statusCode = details.statusCode;
+  }
+}
+
+/**
+ * The call was not sent because the circuit breaker is open after repeated transport failures
+ */
+export class CircuitOpenError extends TransportError {}
+
+/**
+ * Any other SOAP fault returned by an Alfresco service
+ */
+export class ServiceFaultError extends AlfrescoError {}
+
+const TRANSPORT_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ECONNABORTED', 'EHOSTUNREACH'];
+
+/**
+ * Convert anything thrown by the soap client into the matching AlfrescoError subclass
+ */
+export function toAlfrescoError(error: any, context: { service?: string; operation?: string } = {}): AlfrescoError {
+  if (error instanceof AlfrescoError) return error;
+
+  const fault = error?.root?.Envelope?.Body?.Fault;
+  if (fault) {
+    const { faultType, errorCode, message: detailMessage } = readFaultDetail(fault.detail);
+    const faultString = typeof fault.faultstring === 'string' ? fault.faultstring : undefined;
+    const message = detailMessage || faultString || error.message || 'SOAP fault';
+    const details: AlfrescoErrorDetails = {
+      ...context,
+      faultCode: typeof fault.faultcode === 'string' ? fault.faultcode : undefined,
+      faultString,
+      errorCode,
+      faultType,
+      cause: error,
+    };
+    const text = `${faultType || ''} ${faultString || ''} ${detailMessage || ''}`;
+    const ErrorClass = classifyFault(text, faultType);
+    return new ErrorClass(message, details);
+  }
+
+  const statusCode: number | undefined = error?.response?.status;
+  if (statusCode || TRANSPORT_CODES.includes(error?.code)) {
+    const reason = statusCode ? `HTTP ${statusCode}` : error.code;
+    return new TransportError(`${reason} calling ${context.service || 'Alfresco'}${context.operation ? '.' + context.operation : ''}: ${error.message}`, {
+      ...context,
+      statusCode,
+      cause: error,
+    });
+  }
+
+  return new AlfrescoError(error?.message || String(error), { ...context, cause: error });
+}
+
+/**
+ * Error for a failed plain HTTP request to one of Alfresco's content servlets
+ */
+export function httpStatusError(statusCode: number, message: string, context: { service?: string; operation?: string } = {}): AlfrescoError {
+  const details = { ...context, statusCode };
+  if (statusCode === 401) return new InvalidTicketError(message, details);
+  if (statusCode === 403) return new AccessDeniedError(message, details);
+  if (statusCode === 404) return new NodeNotFoundError(message, details);
+  return new TransportError(message, details);
+}
+
+function classifyFault(text: string, faultType?: string): new (message: string, details?: AlfrescoErrorDetails) => AlfrescoError {
+  if (/ticket (was )?(not found|expired|invalid)|invalid ticket|TicketExpired|security token could not be authenticated/i.test(text)) {
+    return InvalidTicketError;
+  }
+  if (/InvalidNodeRefException|InvalidStoreRefException|Node does not exist|Store does not exist|node not found/i.test(text)) {
+    return NodeNotFoundError;
+  }
+  if (/AccessDenied|Access Denied|permission denied/i.test(text)) {
+    return AccessDeniedError;
+  }
+  if (faultType === 'AuthenticationFault' || /AuthenticationException|bad credentials|failed to authenticate/i.test(text)) {
+    return AuthenticationError;
+  }
+  if (/IntegrityException|Integrity failure|DuplicateChildNodeName|Duplicate child name|AssociationExistsException/i.test(text)) {
+    return IntegrityError;
+  }
+  return ServiceFaultError;
+}
+
+// Alfresco puts an <XxxFault><errorCode/><message/></XxxFault> element in the fault detail
+function readFaultDetail(detail: any): { faultType?: string; errorCode?: number; message?: string } {
+  if (!detail || typeof detail !== 'object') return {};
+  const key = Object.keys(detail).find(k => /Fault$/.test(k));
+  if (!key) return {};
+  const body = detail[key] || {};
+  const faultType = key.includes(':') ? key.substring(key.indexOf(':') + 1) : key;
+  const errorCode = body.errorCode !== undefined ? Number(body.errorCode) : undefined;
+  return { faultType, errorCode, message: typeof body.message === 'string' ? body.message : undefined };
+}
\ No newline at end of file
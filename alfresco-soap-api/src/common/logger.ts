@@ -0,0 +1,75 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log entry
+ */
+export interface LogFields {
+  service?: string;
+  operation?: string;
+  nodeRef?: string;
+  durationMs?: number;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Minimal logger contract. Winston loggers fit as-is; for pino (fields first) pass
+ * `pinoLogger(pino)` or adapt the arguments yourself.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const noop = () => undefined;
+
+/**
+ * Default logger: discards everything
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Logger writing to the console at or above the given level, prefixed with `[alfresco-soap-api]`
+ */
+export function consoleLogger(level: LogLevel = 'info'): Logger {
+  const enabled = (l: LogLevel) => LEVELS.indexOf(l) >= LEVELS.indexOf(level);
+  const write = (l: LogLevel) => (message: string, fields?: LogFields) => {
+    if (!enabled(l)) return;
+    const args: unknown[] = [`[alfresco-soap-api] ${message}`];
+    if (fields && Object.keys(fields).length) args.push(fields);
+    console[l](...args);
+  };
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+/**
+ * Adapt a pino-style logger, whose methods take the fields object first
+ */
+export function pinoLogger(pino: Record<LogLevel, (fields: object, message: string) => void>): Logger {
+  return {
+    debug: (message, fields) => pino.debug(fields || {}, message),
+    info: (message, fields) => pino.info(fields || {}, message),
+    warn: (message, fields) => pino.warn(fields || {}, message),
+    error: (message, fields) => pino.error(fields || {}, message),
+  };
+}
+
+// Element names whose text content must never reach the logs
+const SECRET_ELEMENTS = /(<(?:[\w-]+:)?(?:Password|password|oldPassword|newPassword|ticket)\b[^>]*>)[^<]*(<\/)/g;
+const TICKET_PARAM = /([?&](?:alf_)?ticket=)[^&"'<\s]*/gi;
+
+/**
+ * Mask passwords and tickets in a SOAP envelope or URL before it is logged
+ */
+export function redact(text: string): string {
+  return text.replace(SECRET_ELEMENTS, '$1***$2').replace(TICKET_PARAM, '$1***');
+}
@@ -0,0 +1,182 @@
+import { asArray } from './soapUtils';
+import { NodeRef } from '../models/NodeRef';
+import { StoreRef } from '../models/StoreRef';
+import { NamespaceURI, toPrefixedName } from '../models/QName';
+import type { AlfrescoNode, NodeProperties, NodePropertyValue, QueryResult } from '../models/Node';
+
+/**
+ * Data type of each property, keyed by full property QName, e.g. `d:datetime` or its full QName
+ */
+export type PropertyTypes = Record<string, string>;
+
+const SYSTEM = `{${NamespaceURI.sys}}`;
+const NAME = `{${NamespaceURI.cm}}name`;
+
+// Unqualified columns Alfresco adds to queryChildren, queryParents and queryAssociated rows; they describe
+// the association, not the node
+const ASSOCIATION_COLUMNS = ['associationType', 'associationName', 'isPrimary', 'nthSibling'];
+
+/**
+ * Association details carried by a result row
+ */
+export interface RowAssociation {
+  type?: string;
+  name?: string;
+  isPrimary?: boolean;
+}
+
+/**
+ * Rows of a query, queryChildren, queryParents or fetchMore response
+ */
+export function resultRows(response: any): any[] {
+  return asArray(resultSetOf(response)?.rows).filter(row => row);
+}
+
+/**
+ * Every property name that occurs in the rows, for looking up their data types
+ */
+export function columnNames(rows: any[]): string[] {
+  const names = new Set<string>();
+  rows.forEach(row => asArray(row.columns).forEach((column: any) => column?.name && names.add(column.name)));
+  return Array.from(names);
+}
+
+/**
+ * Data types reported by the result set itself (only present when the query asked for metadata)
+ */
+export function metaDataTypes(response: any): PropertyTypes {
+  const types: PropertyTypes = {};
+  asArray(resultSetOf(response)?.metaData?.valueDefs).forEach((def: any) => {
+    if (def?.name && def.dataType) types[def.name] = def.dataType;
+  });
+  return types;
+}
+
+/**
+ * Convert a query, queryChildren, queryParents or fetchMore response into a QueryResult.
+ * `store` is used for rows that only carry a node id.
+ */
+export function toQueryResult(response: any, types: PropertyTypes = {}, store?: StoreRef): QueryResult {
+  const resultSet = resultSetOf(response);
+  const nodes = resultRows(response)
+    .map(row => toAlfrescoNode(row, types, store))
+    .filter((node): node is AlfrescoNode => node !== null);
+  const totalRowCount = Number(resultSet?.totalRowCount);
+  return {
+    nodes,
+    totalRowCount: Number.isFinite(totalRowCount) ? totalRowCount : nodes.length,
+    querySession: response?.queryReturn?.querySession || undefined,
+  };
+}
+
+/**
+ * Convert one ResultSetRow into a node with every column as a typed property.
+ * Returns null for rows that do not identify a node.
+ */
+export function toAlfrescoNode(row: any, types: PropertyTypes = {}, store?: StoreRef): AlfrescoNode | null {
+  const properties = toNodeProperties(asArray(row.columns).filter((column: any) => !ASSOCIATION_COLUMNS.includes(column?.name)), types);
+  const nodeRef = nodeRefOf(properties, row, store);
+  if (!nodeRef) return null;
+  const name = properties[NAME];
+  return {
+    nodeRef,
+    name: typeof name === 'string' && name ? name : nodeRef.substring(nodeRef.lastIndexOf('/') + 1),
+    type: row.node?.type ? toPrefixedName(row.node.type) : 'unknown',
+    properties,
+  };
+}
+
+/**
+ * Convert NamedValues (result columns or the properties of a fetched node) into typed values keyed by full QName
+ */
+export function toNodeProperties(namedValues: any[], types: PropertyTypes = {}): NodeProperties {
+  const properties: NodeProperties = {};
+  namedValues.forEach(value => {
+    if (value?.name) properties[value.name] = columnValue(value, types[value.name]);
+  });
+  return properties;
+}
+
+/**
+ * Nodes of an association query response together with the association columns of their rows
+ */
+export function toAssociatedNodes(response: any, types: PropertyTypes = {}, store?: StoreRef): { node: AlfrescoNode; association: RowAssociation }[] {
+  return resultRows(response).flatMap(row => {
+    const node = toAlfrescoNode(row, types, store);
+    return node ? [{ node, association: rowAssociation(row) }] : [];
+  });
+}
+
+function rowAssociation(row: any): RowAssociation {
+  const column = (name: string) => asArray(row.columns).find((c: any) => c?.name === name)?.value;
+  const type = column('associationType');
+  const name = column('associationName');
+  const isPrimary = column('isPrimary');
+  return {
+    type: typeof type === 'string' && type ? type : undefined,
+    name: typeof name === 'string' && name ? name : undefined,
+    isPrimary: isPrimary === undefined ? undefined : toBoolean(isPrimary),
+  };
+}
+
+/**
+ * Convert a serialized property value into a JS value according to its dictionary data type:
+ * dates become Date, numeric types numbers and booleans booleans. Other types stay strings.
+ */
+export function toPropertyValue(value: unknown, dataType?: string): string | number | boolean | Date | null {
+  if (value === undefined || value === null || typeof value === 'object') {
+    // xsi:nil values are parsed into an attribute object
+    return null;
+  }
+  const text = String(value);
+  switch (dataType && localName(dataType)) {
+    case 'date':
+    case 'datetime': {
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? text : date;
+    }
+    case 'int':
+    case 'long':
+    case 'float':
+    case 'double': {
+      const number = Number(text);
+      return text.trim() === '' || isNaN(number) ? text : number;
+    }
+    case 'boolean':
+      return text === 'true';
+    default:
+      return text;
+  }
+}
+
+function columnValue(column: any, dataType?: string): NodePropertyValue {
+  if (toBoolean(column.isMultiValue)) {
+    return asArray(column.values).map(value => toPropertyValue(value, dataType));
+  }
+  return toPropertyValue(column.value, dataType);
+}
+
+function nodeRefOf(properties: NodeProperties, row: any, store?: StoreRef): string | undefined {
+  const protocol = properties[`${SYSTEM}store-protocol`];
+  const identifier = properties[`${SYSTEM}store-identifier`];
+  const uuid = properties[`${SYSTEM}node-uuid`];
+  if (typeof protocol === 'string' && typeof identifier === 'string' && typeof uuid === 'string') {
+    return new NodeRef(new StoreRef(protocol, identifier), uuid).toString();
+  }
+  if (row.node?.id && store) {
+    return new NodeRef(store, row.node.id).toString();
+  }
+  return undefined;
+}
+
+function resultSetOf(response: any): any {
+  return response?.queryReturn?.resultSet;
+}
+
+function localName(qname: string): string {
+  return qname.substring(Math.max(qname.lastIndexOf('}'), qname.lastIndexOf(':')) + 1);
+}
+
+function toBoolean(value: any): boolean {
+  return value === true || value === 'true';
+}
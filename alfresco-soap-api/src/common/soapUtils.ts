@@ -0,0 +1,7 @@
+/**
+ * Normalize a SOAP value that may be missing, a single element or an array into an array
+ */
+export function asArray<T = any>(value: T | T[] | null | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
\ No newline at end of file
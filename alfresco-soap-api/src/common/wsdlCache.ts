@@ -0,0 +1,27 @@
+import * as soap from 'soap';
+
+// Parsed WSDLs shared by every client in the process, keyed by WSDL URL or file path.
+// Storing the promise lets concurrent first calls share one fetch.
+const wsdlCache = new Map<string, Promise<soap.WSDL>>();
+
+/**
+ * Create a SOAP client for the given WSDL URL or file, parsing each WSDL only once per process.
+ * The endpoint replaces the address in the WSDL, so local WSDL files work against any server.
+ */
+export async function createSoapClient(source: string, endpoint: string, options: soap.IOptions = {}): Promise<soap.Client> {
+  let wsdl = wsdlCache.get(source);
+  if (!wsdl) {
+    wsdl = soap.createClientAsync(source, { ...options, disableCache: true }).then(client => client.wsdl);
+    wsdlCache.set(source, wsdl);
+    // Do not keep failures around: the next client should try again
+    wsdl.catch(() => wsdlCache.delete(source));
+  }
+  return new soap.Client(await wsdl, endpoint, options);
+}
+
+/**
+ * Forget every cached WSDL, e.g. after the server was upgraded
+ */
+export function clearWsdlCache() {
+  wsdlCache.clear();
+}
@@ -1,25 +1,118 @@
+import type * as http from 'http';
+import type * as https from 'https';
 import { AuthenticationService } from './services/AuthenticationService';
-import { RepositoryService } from './services/RepositoryService';
-import { ContentService } from './services/ContentService';
-import { NodeRef } from './models/NodeRef';
-import { StoreRef } from './models/StoreRef';
+import { AssociationQuery, RepositoryService, UpdateResult } from './services/RepositoryService';
+import { Readable } from 'stream';
+import { ContentService, ContentStream, DownloadOptions, UploadOptions } from './services/ContentService';
+import { AuthoringService, CheckinOptions, LockType } from './services/AuthoringService';
+import { AccessControlService, ACE, ACL } from './services/AccessControlService';
+import { DictionaryService, ClassQuery, PropertyDefinition } from './services/DictionaryService';
+import { AdministrationService, NewUserDetails, UserDetails } from './services/AdministrationService';
+import { ActionService, RuleFilter } from './services/ActionService';
+import { Action, ActionBuilder, Rule } from './models/Action';
+import { ClassificationService, CategoriesResult } from './services/ClassificationService';
+import { NamespaceURI, Namespaces, expandQName, toPrefixedName, toQNamePath, validateNamespaces } from './models/QName';
+import { SessionManager } from './common/SessionManager';
+import { AlfrescoError, IntegrityError, NodeNotFoundError, ValidationError } from './common/errors';
+import { Logger, silentLogger } from './common/logger';
+import { CallHooks, CircuitBreaker, CircuitBreakerOptions, RetryOptions } from './common/callPolicy';
+import { NodeRef, NodeRefLike } from './models/NodeRef';
+import { StoreRef, StoreRefLike } from './models/StoreRef';
+import { CML, CmlBuilder, CmlAssocOptions, CmlProperties, serializeProperties } from './models/Cml';
+import { AlfrescoNode, Association, ContentDescriptor, ContentFormat, NodeDescriptor, NodeProperties, QueryResult, StoreDescriptor } from './models/Node';
+import { Query, QueryBuilder } from './models/Query';
+import { ARCHIVED_ORIGINAL_PARENT_ASSOC, TrashItem, TrashListOptions, parseChildAssociation, toTrashItem } from './models/Trash';
 
 export interface AlfrescoClientConfig {
   url: string;
   username: string;
-  password: string;
+  /**
+   * Password used to start sessions. Optional when `ticket` is given.
+   */
+  password?: string;
+  /**
+   * Act with an existing ticket of `username` instead of logging in (per-request impersonation)
+   */
+  ticket?: string;
   scheme?: string;
   address?: string;
+  queryBatchSize?: number;
+  ticketTtl?: number;
+  /**
+   * Receives the library's log output. Silent when omitted.
+   */
+  logger?: Logger;
+  /**
+   * Log every SOAP request/response envelope at debug level, with passwords and tickets masked
+   */
+  traceEnvelopes?: boolean;
+  /**
+   * Per-request timeout in milliseconds (default 60000, 0 disables it)
+   */
+  timeout?: number;
+  /**
+   * Retries of idempotent reads after transport failures (default 3 attempts), or false to disable
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Fail fast after repeated transport failures. Disabled unless set; pass a CircuitBreaker instance to share one between clients.
+   */
+  circuitBreaker?: CircuitBreakerOptions | boolean | CircuitBreaker;
+  /**
+   * Metrics callbacks for retries, call durations and circuit state changes
+   */
+  hooks?: CallHooks;
+  /**
+   * Directory holding `<ServiceName>.wsdl` files (with the XSDs they import) to load instead of fetching `?wsdl`
+   */
+  wsdlDir?: string;
+  /**
+   * Agents for outgoing requests, e.g. keep-alive agents shared by several clients
+   */
+  httpAgent?: http.Agent;
+  httpsAgent?: https.Agent;
+  /**
+   * Prefixes of custom content models, e.g. `{ acme: 'http://www.acme.com/model/content/1.0' }`, for the
+   * property and aspect methods of this client. They add to the built-in NamespaceURI prefixes.
+   */
+  namespaces?: Namespaces;
+}
+
+// Company Home children whose association QName differs from their display name
+const SYSTEM_FOLDERS: Record<string, string> = {
+  'Data Dictionary': 'app:dictionary',
+  'Guest Home': 'app:guest_home',
+  'User Homes': 'app:user_homes',
+  'Shared': 'app:shared',
+  'Sites': 'st:sites',
+};
+
+// Guards getPath against parent cycles
+const MAX_PATH_DEPTH = 256;
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
 }
 
 export class AlfrescoClient {
   config: AlfrescoClientConfig;
-  ticket: string | null = null;
   authService: AuthenticationService;
   repoService: RepositoryService;
   contentService: ContentService;
+  authoringService: AuthoringService;
+  accessControlService: AccessControlService;
+  dictionaryService: DictionaryService;
+  adminService: AdministrationService;
+  actionService: ActionService;
+  classificationService: ClassificationService;
+  session: SessionManager;
+  private logger: Logger;
 
   constructor(config: AlfrescoClientConfig) {
+    if (config.password === undefined && !config.ticket) {
+      throw new ValidationError('Either password or ticket is required');
+    }
+    if (config.namespaces) validateNamespaces(config.namespaces);
     // Provide sensible defaults for optional parameters
     this.config = {
       ...config,
@@ -29,13 +122,76 @@ export class AlfrescoClient {
     this.authService = new AuthenticationService(config.url);
     this.repoService = new RepositoryService(config.url);
     this.contentService = new ContentService(config.url);
+    this.authoringService = new AuthoringService(config.url);
+    this.accessControlService = new AccessControlService(config.url);
+    this.dictionaryService = new DictionaryService(config.url);
+    this.adminService = new AdministrationService(config.url);
+    this.actionService = new ActionService(config.url);
+    this.classificationService = new ClassificationService(config.url);
+    this.logger = config.logger || silentLogger;
+    const breaker = config.circuitBreaker instanceof CircuitBreaker
+      ? config.circuitBreaker
+      : config.circuitBreaker
+      ? new CircuitBreaker(config.circuitBreaker === true ? {} : config.circuitBreaker, state => {
+        this.logger.warn(`Circuit breaker ${state}`, { circuitState: state });
+        config.hooks?.onCircuitStateChange?.(state);
+      })
+      : null;
+    const callPolicy = { timeout: config.timeout, retry: config.retry, hooks: config.hooks };
+    [
+      this.authService,
+      this.repoService,
+      this.contentService,
+      this.authoringService,
+      this.accessControlService,
+      this.dictionaryService,
+      this.adminService,
+      this.actionService,
+      this.classificationService,
+    ].forEach(service => {
+      service.setLogger(this.logger, { traceEnvelopes: config.traceEnvelopes });
+      service.setCallPolicy(callPolicy, breaker);
+      if (config.wsdlDir) service.setWsdlDir(config.wsdlDir);
+      service.setAgents({ httpAgent: config.httpAgent, httpsAgent: config.httpsAgent });
+    });
+    this.session = new SessionManager(this.authService, config.username, config.password ?? null, {
+      ticketTtl: config.ticketTtl,
+      ticket: config.ticket,
+    });
+    this.session.register(this.repoService);
+    this.session.register(this.contentService);
+    this.session.register(this.authoringService);
+    this.session.register(this.accessControlService);
+    this.session.register(this.dictionaryService);
+    this.session.register(this.adminService);
+    this.session.register(this.actionService);
+    this.session.register(this.classificationService);
+    if (config.queryBatchSize) {
+      this.repoService.setFetchSize(config.queryBatchSize);
+    }
+    this.repoService.setPropertyTypeResolver(names => this.propertyTypes(names));
   }
 
-  async authenticate() {
-    this.ticket = await this.authService.login(this.config.username, this.config.password);
-    this.repoService.setTicket(this.ticket, this.config.username);
-    this.contentService.setTicket(this.ticket, this.config.username);
-    return this.ticket;
+  /**
+   * Current session ticket, or null before the first call / after close()
+   */
+  get ticket(): string | null {
+    return this.session.ticket;
+  }
+
+  /**
+   * Return a valid ticket, reusing the cached session when possible.
+   * Service calls do this on their own, so calling it explicitly is only needed to read `ticket` up front.
+   */
+  async authenticate(): Promise<string> {
+    return this.session.getTicket();
+  }
+
+  /**
+   * End the session on the server. The client starts a new one if it is used again.
+   */
+  async close(): Promise<void> {
+    await this.session.close();
   }
 
   // ===== SERVICE PROXIES =====
@@ -57,11 +213,19 @@ export class AlfrescoClient {
   get repository() {
     return {
       getStores: () => this.repoService.getStores(),
-      query: (store: any, query: any, includeMetaData: boolean) => this.repoService.query(store, query, includeMetaData),
-      get: (nodeRef: string) => this.repoService.get(nodeRef),
-      queryChildren: (nodeRef: string) => this.repoService.queryChildren(nodeRef),
-      queryParents: (nodeRef: string) => this.repoService.queryParents(nodeRef),
-      getRootChildren: (store: string) => this.repoService.getRootChildren(store)
+      query: (store: StoreRefLike, query: Query, includeMetaData: boolean) => this.repoService.query(store, query, includeMetaData),
+      fetchMore: (querySession: string) => this.repoService.fetchMore(querySession),
+      setFetchSize: (fetchSize: number | null) => this.repoService.setFetchSize(fetchSize),
+      get: (nodeRef: NodeRefLike) => this.repoService.get(nodeRef),
+      getProperties: (nodeRef: NodeRefLike, namespaces?: Namespaces) => this.repoService.getProperties(nodeRef, namespaces),
+      queryChildren: (nodeRef: NodeRefLike) => this.repoService.queryChildren(nodeRef),
+      queryParents: (nodeRef: NodeRefLike) => this.repoService.queryParents(nodeRef),
+      queryAssociated: (nodeRef: NodeRefLike, options?: AssociationQuery) => this.repoService.queryAssociated(nodeRef, options),
+      queryChildAssociations: (nodeRef: NodeRefLike) => this.repoService.queryChildAssociations(nodeRef),
+      queryParentAssociations: (nodeRef: NodeRefLike) => this.repoService.queryParentAssociations(nodeRef),
+      update: (statements: CML) => this.repoService.update(statements),
+      getRootNode: (store: StoreRefLike) => this.repoService.getRootNode(store),
+      getRootChildren: (store: StoreRefLike) => this.repoService.getRootChildren(store)
     };
   }
 
@@ -70,11 +234,119 @@ export class AlfrescoClient {
    */
   get content() {
     return {
-      read: (nodeRef: string, property?: string) => this.contentService.read(nodeRef, property),
-      getDownloadUrl: (nodeRef: string) => this.contentService.getDownloadUrl(nodeRef),
-      write: (nodeRef: string, content: string | Buffer, property?: string, format?: any) => this.contentService.write(nodeRef, content, property, format),
-      clear: (nodeRef: string, property?: string) => this.contentService.clear(nodeRef, property),
-      transform: (sourceNodeRef: string, property: string, targetNodeRef: string, targetProperty: string, targetFormat: any) => this.contentService.transform(sourceNodeRef, property, targetNodeRef, targetProperty, targetFormat)
+      read: (nodeRef: NodeRefLike, property?: string) => this.contentService.read(nodeRef, property),
+      getDownloadUrl: (nodeRef: NodeRefLike) => this.contentService.getDownloadUrl(nodeRef),
+      write: (nodeRef: NodeRefLike, content: string | Buffer, property?: string, format?: ContentFormat) => this.contentService.write(nodeRef, content, property, format),
+      clear: (nodeRef: NodeRefLike, property?: string) => this.contentService.clear(nodeRef, property),
+      transform: (sourceNodeRef: NodeRefLike, property: string, targetNodeRef: NodeRefLike, targetProperty: string, targetFormat: ContentFormat) => this.contentService.transform(sourceNodeRef, property, targetNodeRef, targetProperty, targetFormat),
+      download: (nodeRef: NodeRefLike, options?: DownloadOptions) => this.contentService.downloadContent(nodeRef, options),
+      upload: (nodeRef: NodeRefLike, content: Readable | Buffer, mimetype: string, options?: UploadOptions) => this.contentService.uploadContent(nodeRef, content, mimetype, options)
+    };
+  }
+
+  /**
+   * Authoring service proxy - provides direct access to checkout, locking and versioning methods
+   */
+  get authoring() {
+    return {
+      checkout: (nodeRefs: NodeRefLike | NodeRefLike[], destination?: NodeRefLike) => this.authoringService.checkout(nodeRefs, destination),
+      checkin: (workingCopies: NodeRefLike | NodeRefLike[], options?: CheckinOptions) => this.authoringService.checkin(workingCopies, options),
+      checkinExternal: (nodeRef: NodeRefLike, content: string | Buffer, format: ContentFormat, options?: CheckinOptions) => this.authoringService.checkinExternal(nodeRef, content, format, options),
+      cancelCheckout: (workingCopies: NodeRefLike | NodeRefLike[]) => this.authoringService.cancelCheckout(workingCopies),
+      lock: (nodeRefs: NodeRefLike | NodeRefLike[], lockType?: LockType, deep?: boolean) => this.authoringService.lock(nodeRefs, lockType, deep),
+      unlock: (nodeRefs: NodeRefLike | NodeRefLike[], deep?: boolean) => this.authoringService.unlock(nodeRefs, deep),
+      getLockStatus: (nodeRefs: NodeRefLike | NodeRefLike[]) => this.authoringService.getLockStatus(nodeRefs),
+      createVersion: (nodeRefs: NodeRefLike | NodeRefLike[], options?: { comment?: string; major?: boolean; versionChildren?: boolean }) => this.authoringService.createVersion(nodeRefs, options),
+      getVersionHistory: (nodeRef: NodeRefLike) => this.authoringService.getVersionHistory(nodeRef),
+      revertVersion: (nodeRef: NodeRefLike, versionLabel: string) => this.authoringService.revertVersion(nodeRef, versionLabel),
+      deleteAllVersions: (nodeRef: NodeRefLike) => this.authoringService.deleteAllVersions(nodeRef)
+    };
+  }
+
+  /**
+   * Access control service proxy - provides direct access to permission and ACL methods
+   */
+  get accessControl() {
+    return {
+      getACLs: (nodeRefs: NodeRefLike | NodeRefLike[], authorityType?: string) => this.accessControlService.getACLs(nodeRefs, authorityType),
+      addACEs: (nodeRefs: NodeRefLike | NodeRefLike[], aces: ACE[]) => this.accessControlService.addACEs(nodeRefs, aces),
+      removeACEs: (nodeRefs: NodeRefLike | NodeRefLike[], aces?: ACE[]) => this.accessControlService.removeACEs(nodeRefs, aces),
+      getPermissions: (nodeRefs: NodeRefLike | NodeRefLike[]) => this.accessControlService.getPermissions(nodeRefs),
+      getClassPermissions: (classNames: string | string[]) => this.accessControlService.getClassPermissions(classNames),
+      hasPermissions: (nodeRefs: NodeRefLike | NodeRefLike[], permissions: string | string[]) => this.accessControlService.hasPermissions(nodeRefs, permissions),
+      setInheritPermission: (nodeRefs: NodeRefLike | NodeRefLike[], inheritPermission: boolean) => this.accessControlService.setInheritPermission(nodeRefs, inheritPermission),
+      getOwners: (nodeRefs: NodeRefLike | NodeRefLike[]) => this.accessControlService.getOwners(nodeRefs),
+      setOwners: (nodeRefs: NodeRefLike | NodeRefLike[], owner: string) => this.accessControlService.setOwners(nodeRefs, owner)
+    };
+  }
+
+  /**
+   * Dictionary service proxy - provides direct access to content model introspection (results are cached)
+   */
+  get dictionary() {
+    return {
+      getClasses: (types?: ClassQuery, aspects?: ClassQuery) => this.dictionaryService.getClasses(types, aspects),
+      getClass: (name: string) => this.dictionaryService.getClass(name),
+      getProperties: (propertyNames: string[]) => this.dictionaryService.getProperties(propertyNames),
+      getAssociations: (associationNames: string[]) => this.dictionaryService.getAssociations(associationNames),
+      isSubClass: (className: string, isSubClassOfName: string) => this.dictionaryService.isSubClass(className, isSubClassOfName),
+      clearCache: () => this.dictionaryService.clearCache()
+    };
+  }
+
+  /**
+   * Administration service proxy - provides direct access to user management methods
+   */
+  get admin() {
+    return {
+      queryUsers: (userNameFilter?: string) => this.adminService.queryUsers(userNameFilter),
+      fetchMoreUsers: (querySession: string) => this.adminService.fetchMoreUsers(querySession),
+      getUser: (userName: string) => this.adminService.getUser(userName),
+      createUsers: (newUsers: NewUserDetails[]) => this.adminService.createUsers(newUsers),
+      updateUsers: (users: Array<Omit<NewUserDetails, 'password'>>) => this.adminService.updateUsers(users),
+      changePassword: (userName: string, oldPassword: string, newPassword: string) => this.adminService.changePassword(userName, oldPassword, newPassword),
+      deleteUsers: (userNames: string | string[]) => this.adminService.deleteUsers(userNames)
+    };
+  }
+
+  /**
+   * Action service proxy - provides direct access to repository actions and folder rules
+   */
+  get actions() {
+    return {
+      getConditionDefinitions: () => this.actionService.getConditionDefinitions(),
+      getActionDefinitions: () => this.actionService.getActionDefinitions(),
+      executeActions: (nodeRefs: NodeRefLike | NodeRefLike[], actions: Array<Action | ActionBuilder>) => this.actionService.executeActions(nodeRefs, actions),
+      saveActions: (nodeRef: NodeRefLike, actions: Array<Action | ActionBuilder>) => this.actionService.saveActions(nodeRef, actions),
+      getActions: (nodeRef: NodeRefLike, filter?: { ids?: string[]; actionName?: string }) => this.actionService.getActions(nodeRef, filter),
+      removeActions: (nodeRef: NodeRefLike, actions?: Action[]) => this.actionService.removeActions(nodeRef, actions),
+      getRules: (nodeRef: NodeRefLike, filter?: RuleFilter) => this.actionService.getRules(nodeRef, filter),
+      saveRules: (nodeRef: NodeRefLike, rules: Rule[]) => this.actionService.saveRules(nodeRef, rules),
+      removeRules: (nodeRef: NodeRefLike, rules?: Rule[]) => this.actionService.removeRules(nodeRef, rules)
+    };
+  }
+
+  /**
+   * Classification service proxy - provides direct access to categories
+   */
+  get classification() {
+    return {
+      getClassifications: (store?: StoreRefLike) => this.classificationService.getClassifications(store || this.defaultStore()),
+      getChildCategories: (parentCategory: NodeRefLike) => this.classificationService.getChildCategories(parentCategory),
+      getCategories: (nodeRefs: NodeRefLike | NodeRefLike[]) => this.classificationService.getCategories(nodeRefs),
+      setCategories: (nodeRefs: NodeRefLike | NodeRefLike[], categories: Array<{ classification: string; categories: NodeRefLike[] }>) => this.classificationService.setCategories(nodeRefs, categories),
+      describeClassification: (classification: string) => this.classificationService.describeClassification(classification)
+    };
+  }
+
+  /**
+   * Recycle bin - nodes deleted from the client's store wait in its archive store until purged
+   */
+  get trash() {
+    return {
+      list: (options?: TrashListOptions) => this.listTrash(options),
+      restore: (nodeRef: NodeRefLike, targetParentNodeRef?: NodeRefLike) => this.restoreFromTrash(nodeRef, targetParentNodeRef),
+      purge: (nodeRefs: NodeRefLike | NodeRefLike[]) => this.purgeTrash(nodeRefs)
     };
   }
 
@@ -85,62 +357,24 @@ export class AlfrescoClient {
    * Get Company Home node reference and name
    */
   async getCompanyHome(): Promise<{ nodeRef: string; name: string }> {
-    await this.authenticate();
     const query = {
       language: 'lucene',
       statement: 'PATH:"/app:company_home"',
     };
-    const storeObj = { scheme: this.config.scheme, address: this.config.address };
-    const res = await this.repoService.query(storeObj, query, false);
-
-    // Helper to dig into the many shapes Alfresco SOAP can return
-    function firstRowFromResponse(r: any): any | undefined {
-      if (!r) return undefined;
-      // Common shape when includeMetaData=false
-      if (Array.isArray(r.queryReturn)) return r.queryReturn[0];
-      if (r.queryReturn?.resultSet?.rows) return Array.isArray(r.queryReturn.resultSet.rows)
-        ? r.queryReturn.resultSet.rows[0]
-        : r.queryReturn.resultSet.rows;
-      if (r.queryReturn) return r.queryReturn; // sometimes already the node object
-      if (r.nodes) return Array.isArray(r.nodes) ? r.nodes[0] : r.nodes;
-      if (r.getReturn) return Array.isArray(r.getReturn) ? r.getReturn[0] : r.getReturn;
-      return undefined;
-    }
-
-    const row = firstRowFromResponse(res);
-    if (!row) {
-      throw new Error('Company Home not found – empty response');
-    }
-
-    // Attempt to read nodeRef directly first
-    let nodeRef: string | undefined = row.nodeRef;
-    let name: string | undefined = row.name;
-
-    // If nodeRef is missing, try to reconstruct it from the columns array Alfresco returns
-    if (!nodeRef && Array.isArray(row.columns)) {
-      const getCol = (needle: string) => row.columns.find((c: any) => c.name && c.name.includes(needle))?.value;
-      const protocol = getCol('store-protocol');
-      const identifier = getCol('store-identifier');
-      const uuid = getCol('node-uuid');
-      if (protocol && identifier && uuid) {
-        nodeRef = `${protocol}://${identifier}/${uuid}`;
-      }
-      name = name || getCol('name');
-    }
+    const res = await this.repoService.query(this.defaultStore(), query, false);
 
-    if (!nodeRef) {
-      throw new Error('Company Home lookup succeeded but nodeRef could not be determined');
+    const node = res.nodes[0];
+    if (!node) {
+      throw new NodeNotFoundError('Company Home not found – empty response', { service: 'RepositoryService', operation: 'query' });
     }
 
-    return { nodeRef, name: name || 'Company Home' };
+    return { nodeRef: node.nodeRef, name: node.name || 'Company Home' };
   }
 
   /**
    * Get children of a node
    */
-  async getChildren(nodeRef: NodeRef): Promise<any[]> {
-    await this.authenticate();
-
+  async getChildren(nodeRef: NodeRefLike): Promise<AlfrescoNode[]> {
     // Always treat Company Home nodeRef as special
     const companyHome = await this.getCompanyHome();
     const companyHomeNodeRef = companyHome?.nodeRef;
@@ -157,71 +391,115 @@ export class AlfrescoClient {
         language: 'lucene',
         statement: `PATH:"${path}"`,
       };
-      const storeObj = { scheme: this.config.scheme, address: this.config.address };
-      const result = await this.repoService.query(storeObj, query, false);
-      
-      // Extract nodes from the SOAP response - could be in various shapes
-      const extractedNodes = this.extractNodesFromQueryResponse(result);
-      return extractedNodes;
+      const result = await this.repoService.query(this.defaultStore(), query, false);
+      return result.nodes;
     }
 
     // For all other nodes, use the proper Alfresco SOAP queryChildren method
-    try {
-      console.log(`[alfresco-soap-api] Using direct queryChildren SOAP method for nodeRef: ${nodeRef}`);
-      const children = await this.repoService.queryChildren(nodeRef);
-      return children; // This already returns properly formatted objects
-    } catch (queryChildrenError) {
-      console.error(`[alfresco-soap-api] queryChildren failed for ${nodeRef}:`, queryChildrenError);
-      throw new Error(`Failed to get children for nodeRef ${nodeRef}: ${(queryChildrenError as Error).message}`);
-    }
+    const started = Date.now();
+    const children = await this.repoService.queryChildren(nodeRef);
+    this.logger.debug('Loaded children', { operation: 'getChildren', nodeRef: String(nodeRef), count: children.length, durationMs: Date.now() - started });
+    return children;
   }
 
   /**
    * Get download URL for content
    */
-  async getDownloadUrl(nodeRef: NodeRef): Promise<string> {
-    await this.authenticate();
-    
-    try {
-      console.log(`[alfresco-soap-api] Getting download URL for nodeRef: ${nodeRef}`);
-      const downloadUrl = await this.contentService.getDownloadUrl(nodeRef);
-      console.log(`[alfresco-soap-api] Successfully got download URL for ${nodeRef}`);
-      return downloadUrl;
-    } catch (error) {
-      console.error(`[alfresco-soap-api] Failed to get download URL for ${nodeRef}:`, error);
-      throw new Error(`Failed to get download URL for nodeRef ${nodeRef}: ${(error as Error).message}`);
-    }
+  async getDownloadUrl(nodeRef: NodeRefLike): Promise<string> {
+    return this.contentService.getDownloadUrl(nodeRef);
   }
 
+
   /**
    * Get stores available in the repository
    */
-  async getStores(): Promise<any[]> {
-    await this.authenticate();
+  async getStores(): Promise<StoreDescriptor[]> {
     return this.repository.getStores();
   }
 
+  /**
+   * nodeRef of the root node of a store (the client's store by default)
+   */
+  async getRootNode(store?: StoreRefLike): Promise<string> {
+    return this.repository.getRootNode(store || this.defaultStore());
+  }
+
+  /**
+   * Children of the root node of a store (the client's store by default), e.g. archive://SpacesStore
+   */
+  async getRootChildren(store?: StoreRefLike): Promise<AlfrescoNode[]> {
+    return this.repository.getRootChildren(store || this.defaultStore());
+  }
+
   /**
    * Get node details by nodeRef
    */
-  async getNode(nodeRef: string): Promise<any> {
-    await this.authenticate();
+  async getNode(nodeRef: NodeRefLike): Promise<NodeDescriptor> {
     return this.repository.get(nodeRef);
   }
 
+  /**
+   * Properties of a node keyed by prefixed QName, with values typed as in query results
+   */
+  async getProperties(nodeRef: NodeRefLike): Promise<NodeProperties> {
+    return this.repository.getProperties(nodeRef, this.namespaces());
+  }
+
+  /**
+   * Update node properties from typed values, checked and serialized according to their dictionary
+   * definitions; null clears a property
+   */
+  async setProperties(nodeRef: NodeRefLike, properties: NodeProperties): Promise<void> {
+    await this.updateNodes(new CmlBuilder().update(nodeRef, await this.serializeProperties(properties)));
+  }
+
+  /**
+   * Apply an aspect to a node, optionally setting some of its properties
+   */
+  async addAspect(nodeRef: NodeRefLike, aspect: string, properties: NodeProperties = {}): Promise<void> {
+    const qname = expandQName(aspect, this.namespaces());
+    await this.updateNodes(new CmlBuilder().addAspect(nodeRef, qname, await this.serializeProperties(properties)));
+  }
+
+  /**
+   * Remove an aspect and its properties from a node
+   */
+  async removeAspect(nodeRef: NodeRefLike, aspect: string): Promise<void> {
+    await this.updateNodes(new CmlBuilder().removeAspect(nodeRef, expandQName(aspect, this.namespaces())));
+  }
+
   /**
    * Execute a query against the repository
    */
-  async query(query: { language: string; statement: string }, includeMetaData: boolean = false): Promise<any> {
-    await this.authenticate();
-    const storeObj = { scheme: this.config.scheme, address: this.config.address };
-    return this.repository.query(storeObj, query, includeMetaData);
+  async query(query: Query | QueryBuilder, includeMetaData: boolean = false): Promise<QueryResult> {
+    if (!(query instanceof QueryBuilder)) {
+      return this.repository.query(this.defaultStore(), query, includeMetaData);
+    }
+    const first = await this.repository.query(this.defaultStore(), query.build(), includeMetaData);
+    const limit = query.resultLimit;
+    if (!query.sortOrder.length && (limit === undefined || (first.nodes.length <= limit && !first.querySession))) {
+      return first;
+    }
+    // Sorting needs every match; a limit alone only needs enough batches to fill it
+    const nodes = [...first.nodes];
+    let querySession = first.querySession;
+    while (querySession && (query.sortOrder.length || limit === undefined || nodes.length < limit)) {
+      const batch = await this.repository.fetchMore(querySession);
+      if (!batch.nodes.length) break;
+      nodes.push(...batch.nodes);
+      querySession = batch.querySession;
+    }
+    const sorted = query.sort(nodes);
+    return {
+      nodes: limit === undefined ? sorted : sorted.slice(0, limit),
+      totalRowCount: first.totalRowCount,
+    };
   }
 
   /**
    * Search for nodes using Lucene query syntax
    */
-  async search(searchTerm: string, includeMetaData: boolean = false): Promise<any> {
+  async search(searchTerm: string, includeMetaData: boolean = false): Promise<QueryResult> {
     const query = {
       language: 'lucene',
       statement: searchTerm
@@ -229,119 +507,565 @@ export class AlfrescoClient {
     return this.query(query, includeMetaData);
   }
 
+  /**
+   * Fetch the next batch of a query session
+   */
+  async fetchMore(querySession: string): Promise<QueryResult> {
+    return this.repository.fetchMore(querySession);
+  }
+
+  /**
+   * Iterate over every node matching a query, fetching further batches until the query session is exhausted
+   */
+  async *searchAll(statement: string | QueryBuilder, language: string = 'lucene'): AsyncIterable<AlfrescoNode> {
+    if (statement instanceof QueryBuilder && statement.sortOrder.length) {
+      // Sorted results only exist once everything has been loaded
+      yield* (await this.query(statement)).nodes;
+      return;
+    }
+    const limit = statement instanceof QueryBuilder ? statement.resultLimit : undefined;
+    let result = await this.query(statement instanceof QueryBuilder ? statement.build() : { language, statement }, false);
+    let count = 0;
+    while (true) {
+      for (const node of result.nodes) {
+        if (limit !== undefined && count >= limit) return;
+        count++;
+        yield node;
+      }
+      // An empty batch also ends the loop, guarding against servers that keep echoing the session id
+      const querySession = result.querySession;
+      if (!querySession || result.nodes.length === 0) break;
+      result = await this.repository.fetchMore(querySession);
+    }
+  }
+
+
+  /**
+   * Iterate over every user matching the filter, following the user query session with fetchMoreUsers
+   */
+  async *listUsers(userNameFilter?: string): AsyncIterable<UserDetails> {
+    let result = await this.admin.queryUsers(userNameFilter);
+    while (true) {
+      for (const user of result.users) {
+        yield user;
+      }
+      if (!result.querySession || result.users.length === 0) break;
+      result = await this.admin.fetchMoreUsers(result.querySession);
+    }
+  }
+
   /**
    * Get parents of a node
    */
-  async getParents(nodeRef: string): Promise<any[]> {
-    await this.authenticate();
+  async getParents(nodeRef: NodeRefLike): Promise<AlfrescoNode[]> {
     return this.repository.queryParents(nodeRef);
   }
 
+  /**
+   * Peer associations of a node, e.g. `{ associationType: 'cm:references' }` for the documents it references
+   * or `{ direction: 'source' }` for the nodes pointing to it
+   */
+  async getAssociations(nodeRef: NodeRefLike, options?: AssociationQuery): Promise<Association[]> {
+    return this.repository.queryAssociated(nodeRef, options);
+  }
+
+  /**
+   * Child associations of a node, including their association type and child name
+   */
+  async getChildAssociations(nodeRef: NodeRefLike): Promise<Association[]> {
+    return this.repository.queryChildAssociations(nodeRef);
+  }
+
+  /**
+   * Parent associations of a node, the primary one and any secondary parents
+   */
+  async getParentAssociations(nodeRef: NodeRefLike): Promise<Association[]> {
+    return this.repository.queryParentAssociations(nodeRef);
+  }
+
+  /**
+   * Link two nodes with a peer association such as cm:references
+   */
+  async createAssociation(sourceNodeRef: NodeRefLike, targetNodeRef: NodeRefLike, associationType: string): Promise<void> {
+    await this.updateNodes(new CmlBuilder().createAssociation(sourceNodeRef, targetNodeRef, associationType));
+  }
+
+  /**
+   * Remove a peer association created with createAssociation
+   */
+  async removeAssociation(sourceNodeRef: NodeRefLike, targetNodeRef: NodeRefLike, associationType: string): Promise<void> {
+    await this.updateNodes(new CmlBuilder().removeAssociation(sourceNodeRef, targetNodeRef, associationType));
+  }
+
   /**
    * Read content from a node
    */
-  async readContent(nodeRef: string, property?: string): Promise<any> {
-    await this.authenticate();
+  async readContent(nodeRef: NodeRefLike, property?: string): Promise<ContentDescriptor> {
     return this.content.read(nodeRef, property);
   }
 
   /**
    * Write content to a node
    */
-  async writeContent(nodeRef: string, content: string | Buffer, property?: string, format?: any): Promise<any> {
-    await this.authenticate();
+  async writeContent(nodeRef: NodeRefLike, content: string | Buffer, property?: string, format?: ContentFormat): Promise<ContentDescriptor> {
     return this.content.write(nodeRef, content, property, format);
   }
 
+  /**
+   * Stream a node's content from the server, optionally a byte range
+   */
+  async downloadContent(nodeRef: NodeRefLike, options?: DownloadOptions): Promise<ContentStream> {
+    return this.contentService.downloadContent(nodeRef, options);
+  }
+
+  /**
+   * Stream content into a node through the upload servlet; use this instead of writeContent for large files
+   */
+  async uploadContent(nodeRef: NodeRefLike, content: Readable | Buffer, mimetype: string, options?: UploadOptions): Promise<ContentDescriptor> {
+    return this.contentService.uploadContent(nodeRef, content, mimetype, options);
+  }
+
   /**
    * Clear content from a node
    */
-  async clearContent(nodeRef: string, property?: string): Promise<any> {
-    await this.authenticate();
+  async clearContent(nodeRef: NodeRefLike, property?: string): Promise<ContentDescriptor> {
     return this.content.clear(nodeRef, property);
   }
 
+  /**
+   * Apply a CML block built with CmlBuilder (or a raw CML object)
+   */
+  async updateNodes(cml: CmlBuilder | CML): Promise<UpdateResult[]> {
+    const statements = cml instanceof CmlBuilder ? cml.build() : cml;
+    return this.repository.update(statements);
+  }
+
+  /**
+   * Create a folder under the given parent and return its nodeRef
+   */
+  async createFolder(parentNodeRef: NodeRefLike, name: string): Promise<string> {
+    const results = await this.updateNodes(
+      new CmlBuilder().create({ parent: parentNodeRef, type: 'cm:folder', properties: { 'cm:name': name } })
+    );
+    return this.destinationOf(results, 'create');
+  }
+
+  /**
+   * Create a document under the given parent, write its content and return its nodeRef. A node whose
+   * content could not be written is deleted again, bypassing the archive store.
+   */
+  async createDocument(parentNodeRef: NodeRefLike, name: string, content: string | Buffer, mimetype: string = 'application/octet-stream'): Promise<string> {
+    const results = await this.updateNodes(
+      new CmlBuilder().create({ parent: parentNodeRef, type: 'cm:content', properties: { 'cm:name': name } })
+    );
+    const nodeRef = this.destinationOf(results, 'create');
+    try {
+      await this.content.write(nodeRef, content, undefined, { mimetype, encoding: 'UTF-8' });
+    } catch (error) {
+      await this.updateNodes(new CmlBuilder().addAspect(nodeRef, 'sys:temporary').delete(nodeRef)).catch(() => undefined);
+      throw error;
+    }
+    return nodeRef;
+  }
+
+  /**
+   * Move a node under a new parent and return its nodeRef at the new location
+   */
+  async moveNode(nodeRef: NodeRefLike, targetParentNodeRef: NodeRefLike, options?: CmlAssocOptions): Promise<string> {
+    const results = await this.updateNodes(new CmlBuilder().move(nodeRef, targetParentNodeRef, options));
+    return this.destinationOf(results, 'move');
+  }
+
+  /**
+   * Copy a node (optionally with its children) under a new parent and return the nodeRef of the copy
+   */
+  async copyNode(nodeRef: NodeRefLike, targetParentNodeRef: NodeRefLike, includeChildren: boolean = false, options?: CmlAssocOptions): Promise<string> {
+    const results = await this.updateNodes(
+      new CmlBuilder().copy(nodeRef, targetParentNodeRef, { ...options, children: includeChildren })
+    );
+    return this.destinationOf(results, 'copy');
+  }
+
+  /**
+   * Delete one or more nodes and return the nodeRefs that were removed
+   */
+  async deleteNode(nodeRef: NodeRefLike | NodeRefLike[]): Promise<string[]> {
+    const results = await this.updateNodes(new CmlBuilder().delete(nodeRef));
+    return results
+      .filter(r => r.statement === 'delete' && r.source)
+      .map(r => r.source as string);
+  }
+
+  /**
+   * Whether a node type is cm:folder or one of its subtypes
+   */
+  async isFolderType(type: string): Promise<boolean> {
+    return this.dictionary.isSubClass(type, 'cm:folder');
+  }
+
+  /**
+   * Whether a node type is cm:content or one of its subtypes
+   */
+  async isContentType(type: string): Promise<boolean> {
+    return this.dictionary.isSubClass(type, 'cm:content');
+  }
+
+  /**
+   * Set the categories of a node from display paths such as '/Regions/EUROPE'.
+   * Replaces the node's existing categories for that classification.
+   */
+  async categorize(nodeRef: NodeRefLike, categoryPaths: string[], classification: string = 'cm:generalclassifiable'): Promise<CategoriesResult> {
+    const categories = await Promise.all(categoryPaths.map(async (path) => {
+      const result = await this.search(`PATH:"${this.categoryPath(path, classification)}"`);
+      if (!result.nodes[0]) {
+        throw new NodeNotFoundError('Category not found: ' + path, { service: 'RepositoryService', operation: 'query' });
+      }
+      return result.nodes[0].nodeRef;
+    }));
+    const [applied] = await this.classification.setCategories(nodeRef, [{ classification, categories }]);
+    return applied;
+  }
+
+  /**
+   * Find the nodes filed under a category display path, optionally including its subcategories
+   */
+  async findByCategory(categoryPath: string, includeSubCategories: boolean = false, classification: string = 'cm:generalclassifiable'): Promise<AlfrescoNode[]> {
+    const members = includeSubCategories ? '//member' : '/member';
+    const result = await this.search(`PATH:"${this.categoryPath(categoryPath, classification)}${members}"`);
+    return result.nodes;
+  }
+
+  /**
+   * Find a node by display path relative to Company Home, e.g. '/Sites/marketing/documentLibrary/Reports'
+   */
+  async resolvePath(displayPath: string): Promise<AlfrescoNode> {
+    const names = splitPath(displayPath);
+    const companyHome = await this.getCompanyHome();
+    if (!names.length) {
+      return { nodeRef: companyHome.nodeRef, name: companyHome.name, type: 'cm:folder', properties: {} };
+    }
+    // Names usually match the association QName, which makes a single PATH query enough. Renaming a
+    // node keeps its association QName, so the hit only counts if its display path, ancestors included,
+    // is still the one asked for.
+    const result = await this.search(`PATH:"/app:company_home${this.qnamePath(names)}"`);
+    const [hit] = result.nodes;
+    if (result.nodes.length === 1 && hit.name === names[names.length - 1] && await this.getPath(hit.nodeRef) === `/${names.join('/')}`) {
+      return hit;
+    }
+    // Renamed nodes, system folders and a lagging index need the walk by cm:name
+    const { node, depth } = await this.walkPath(companyHome.nodeRef, names);
+    if (depth < names.length) {
+      throw new NodeNotFoundError(`Path not found: /${names.slice(0, depth + 1).join('/')}`, { service: 'RepositoryService', operation: 'queryChildren' });
+    }
+    return node!;
+  }
+
+  /**
+   * Display path of a node relative to Company Home, built by following each node's first (primary) parent.
+   * Nodes outside Company Home get their path from the store root.
+   */
+  async getPath(nodeRef: NodeRefLike): Promise<string> {
+    const companyHome = await this.getCompanyHome();
+    const names: string[] = [];
+    let current = NodeRef.parse(nodeRef).toString();
+    while (current !== companyHome.nodeRef) {
+      const [parent] = await this.repository.queryParents(current);
+      // The store root has no parent and no name of its own
+      if (!parent) break;
+      names.unshift(await this.nodeName(current));
+      if (names.length > MAX_PATH_DEPTH) {
+        throw new AlfrescoError(`Path of ${nodeRef} is deeper than ${MAX_PATH_DEPTH} levels`, { service: 'RepositoryService', operation: 'queryParents' });
+      }
+      current = parent.nodeRef;
+    }
+    return '/' + names.join('/');
+  }
+
+  /**
+   * Resolve a display path relative to Company Home, creating missing folders, and return the last folder's nodeRef
+   */
+  async ensurePath(displayPath: string): Promise<string> {
+    const names = splitPath(displayPath);
+    const companyHome = await this.getCompanyHome();
+    const existingPath = await this.walkPath(companyHome.nodeRef, names);
+    let parentRef = existingPath.node ? existingPath.node.nodeRef : companyHome.nodeRef;
+    for (let depth = existingPath.depth; depth < names.length; depth++) {
+      try {
+        parentRef = await this.createFolder(parentRef, names[depth]);
+      } catch (error) {
+        // Someone else created it in the meantime
+        if (!(error instanceof IntegrityError)) throw error;
+        const existing = await this.childByName(parentRef, names[depth]);
+        if (!existing) throw error;
+        parentRef = existing.nodeRef;
+      }
+    }
+    return parentRef;
+  }
+
+  /**
+   * Give an authority (user or GROUP_...) a role such as Consumer, Collaborator or Coordinator on a node
+   */
+  async grant(nodeRef: NodeRefLike, authority: string, role: string): Promise<ACL> {
+    const [acl] = await this.accessControl.addACEs(nodeRef, [{ authority, permission: role, accessStatus: 'acepted' }]);
+    return acl;
+  }
+
+  /**
+   * Remove a role previously granted to an authority on a node
+   */
+  async revoke(nodeRef: NodeRefLike, authority: string, role: string): Promise<ACL> {
+    const [acl] = await this.accessControl.removeACEs(nodeRef, [{ authority, permission: role, accessStatus: 'acepted' }]);
+    return acl;
+  }
+
   // ===== PRIVATE HELPER METHODS =====
 
+  /**
+   * Deleted nodes matching the filters, most recently deleted first
+   */
+  private async listTrash(options: TrashListOptions = {}): Promise<TrashItem[]> {
+    const query = Query.aspect('sys:archived');
+    if (options.deletedBy) query.prop('sys:archivedBy').equals(options.deletedBy);
+    if (options.deletedAfter) query.prop('sys:archivedDate').from(options.deletedAfter);
+    if (options.deletedBefore) query.prop('sys:archivedDate').to(options.deletedBefore);
+    const items: TrashItem[] = [];
+    let result = await this.repository.query(this.archiveStore(), query.build(), false);
+    while (true) {
+      items.push(...result.nodes.map(toTrashItem));
+      if (!result.querySession || result.nodes.length === 0) break;
+      result = await this.repository.fetchMore(result.querySession);
+    }
+    return items.sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0));
+  }
+
+  /**
+   * Move a deleted node back to its original parent (or another one) under its original association,
+   * dropping the sys:archived aspect in the same transaction. Returns the restored nodeRef.
+   */
+  private async restoreFromTrash(nodeRef: NodeRefLike, targetParentNodeRef?: NodeRefLike): Promise<string> {
+    const ref = this.archivedNodeRef(nodeRef);
+    const node = await this.repository.get(ref);
+    const originalParentAssoc = node.properties.find(p => p.name === ARCHIVED_ORIGINAL_PARENT_ASSOC)?.value;
+    const original = originalParentAssoc ? parseChildAssociation(originalParentAssoc) : undefined;
+    const target = targetParentNodeRef ?? original?.parentRef;
+    if (!target) {
+      throw new ValidationError(`${ref} has no original parent; pass a target parent to restore it`);
+    }
+    const cml = new CmlBuilder()
+      .removeAspect(ref, 'sys:archived')
+      .move(ref, target, original ? { associationType: original.associationType, childName: original.childName } : {});
+    return this.destinationOf(await this.updateNodes(cml), 'move');
+  }
+
+  /**
+   * Permanently delete nodes from the archive store and return the purged nodeRefs
+   */
+  private async purgeTrash(nodeRefs: NodeRefLike | NodeRefLike[]): Promise<string[]> {
+    const refs = (Array.isArray(nodeRefs) ? nodeRefs : [nodeRefs]).map(ref => this.archivedNodeRef(ref));
+    return refs.length ? this.deleteNode(refs) : [];
+  }
+
+  /**
+   * Helper rejecting nodeRefs outside the archive store, where deleting would only move them to the trash
+   */
+  private archivedNodeRef(nodeRef: NodeRefLike): NodeRef {
+    const ref = NodeRef.parse(nodeRef);
+    if (!ref.storeRef.equals(this.archiveStore())) {
+      throw new ValidationError(`${ref} is not in the trash (${this.archiveStore()})`);
+    }
+    return ref;
+  }
+
+  /**
+   * Helper returning the store nodes deleted from the client's store are archived to
+   */
+  private archiveStore(): StoreRef {
+    return new StoreRef('archive', this.config.address!);
+  }
+
+  /**
+   * Helper to pick the resulting nodeRef of a single CML statement
+   */
+  private destinationOf(results: UpdateResult[], statement: string): string {
+    const match = results.find(r => r.statement === statement && r.destination);
+    if (!match || !match.destination) {
+      throw new AlfrescoError(`CML ${statement} did not return a destination nodeRef`, { service: 'RepositoryService', operation: 'update' });
+    }
+    return match.destination;
+  }
+
   /**
    * Helper to normalize nodeRefs for robust comparison
    */
-  private normalizeNodeRef(ref: string): string {
-    return (ref || '').trim().toLowerCase();
+  private normalizeNodeRef(ref: NodeRefLike): string {
+    return String(ref || '').trim().toLowerCase();
+  }
+
+  /**
+   * Helper turning '/Regions/EUROPE' into '/cm:generalclassifiable/cm:Regions/cm:EUROPE'
+   */
+  private categoryPath(path: string, classification: string): string {
+    return `/${classification}${toQNamePath(splitPath(path))}`;
   }
 
   /**
-   * Helper function to extract nodes from query response in any shape
+   * Helper mapping display names to a QName path; top-level system folders are not named after their QName
    */
-  private extractNodesFromQueryResponse(result: any): any[] {
-    if (!result) return [];
+  private qnamePath(names: string[]): string {
+    const [first, ...rest] = names;
+    const system = SYSTEM_FOLDERS[first];
+    return system ? `/${system}${toQNamePath(rest)}` : toQNamePath(names);
+  }
 
-    // Try different response shapes that Alfresco SOAP can return
-    let rawNodes: any[] = [];
-    
-    if (Array.isArray(result.queryReturn)) {
-      rawNodes = result.queryReturn;
-    } else if (result.queryReturn?.resultSet?.rows) {
-      rawNodes = Array.isArray(result.queryReturn.resultSet.rows) 
-        ? result.queryReturn.resultSet.rows 
-        : [result.queryReturn.resultSet.rows];
-    } else if (result.queryReturn) {
-      rawNodes = Array.isArray(result.queryReturn) ? result.queryReturn : [result.queryReturn];
-    } else if (result.nodes) {
-      rawNodes = Array.isArray(result.nodes) ? result.nodes : [result.nodes];
-    } else if (result.getReturn) {
-      rawNodes = Array.isArray(result.getReturn) ? result.getReturn : [result.getReturn];
+  /**
+   * Helper following display names down from a folder. Returns the deepest node found and how many names matched.
+   */
+  private async walkPath(rootRef: string, names: string[]): Promise<{ node: AlfrescoNode | null; depth: number }> {
+    let node: AlfrescoNode | null = null;
+    let parentRef = rootRef;
+    let depth = 0;
+    for (; depth < names.length; depth++) {
+      const child = await this.childByName(parentRef, names[depth]);
+      if (!child) break;
+      node = child;
+      parentRef = child.nodeRef;
     }
+    return { node, depth };
+  }
 
-    return rawNodes
-      .filter((node: any) => node && (node.nodeRef || node.columns)) // Keep nodes that have nodeRef or columns
-      .map((node: any) => {
-        // Try to extract nodeRef directly first
-        let nodeRef: string | undefined = node.nodeRef;
-        let name: string | undefined = node.name;
-        let type: string | undefined = node.type;
-        let properties: any = node.properties;
-
-        // If nodeRef is missing, try to reconstruct from columns (common in Lucene queries)
-        if (!nodeRef && Array.isArray(node.columns)) {
-          const getCol = (needle: string) => node.columns.find((c: any) => c.name && c.name.includes(needle))?.value;
-          const protocol = getCol('store-protocol');
-          const identifier = getCol('store-identifier');
-          const uuid = getCol('node-uuid');
-          if (protocol && identifier && uuid) {
-            nodeRef = `${protocol}://${identifier}/${uuid}`;
-          }
-          name = name || getCol('name') || getCol('cm:name');
-          type = type || getCol('type') || getCol('cm:type');
-          
-          // Build properties object from columns if not present
-          if (!properties && node.columns) {
-            properties = {};
-            node.columns.forEach((col: any) => {
-              if (col.name && col.value !== undefined) {
-                properties[col.name] = col.value;
-              }
-            });
-          }
-        }
-
-        // Fallback name extraction
-        if (!name) {
-          name = node.properties?.['cm:name'] || 
-                 node.properties?.name ||
-                 (nodeRef ? nodeRef.split('/').pop() : 'Unknown');
-        }
-
-        return {
-          nodeRef: nodeRef || 'unknown',
-          name: name || 'Unknown',
-          type: type || 'unknown',
-          properties: properties || {},
-        };
-      })
-      .filter((node: any) => node.nodeRef !== 'unknown'); // Filter out nodes we couldn't parse
+  /**
+   * Helper finding a child by exact cm:name
+   */
+  private async childByName(parentRef: string, name: string): Promise<AlfrescoNode | undefined> {
+    const children = await this.repository.queryChildren(parentRef);
+    return children.find(child => child.name === name);
+  }
+
+  /**
+   * Helper reading a node's cm:name
+   */
+  private async nodeName(nodeRef: string): Promise<string> {
+    const node = await this.getNode(nodeRef);
+    const name = node.properties.find(p => toPrefixedName(p.name) === 'cm:name');
+    return name && typeof name.value === 'string' ? name.value : NodeRef.parse(nodeRef).id;
+  }
+
+  /**
+   * Helper serializing typed property values against their dictionary definitions
+   */
+  private async serializeProperties(properties: NodeProperties): Promise<CmlProperties> {
+    const namespaces = this.namespaces();
+    const qualified: NodeProperties = {};
+    Object.keys(properties).forEach(name => {
+      qualified[expandQName(name, namespaces)] = properties[name];
+    });
+    return serializeProperties(qualified, await this.propertyDefinitions(Object.keys(qualified)));
+  }
+
+  /**
+   * Helper looking up property data types in the (cached) dictionary for the result normalizer
+   */
+  private async propertyTypes(propertyNames: string[]): Promise<Record<string, string>> {
+    const definitions = await this.propertyDefinitions(propertyNames);
+    return Object.fromEntries(Object.values(definitions).map(definition => [definition.name, definition.dataType]));
+  }
+
+  /**
+   * Helper looking up dictionary definitions keyed by full QName. Only known namespaces are asked for:
+   * the dictionary rejects the whole request if one name is a residual property without a definition.
+   */
+  private async propertyDefinitions(propertyNames: string[]): Promise<Record<string, PropertyDefinition>> {
+    const uris = Object.values(this.namespaces());
+    const known = propertyNames.filter(name => uris.some(uri => name.startsWith(`{${uri}}`)));
+    if (known.length === 0) return {};
+    const definitions = await this.dictionaryService.getProperties(known);
+    return Object.fromEntries(definitions.map(definition => [definition.name, definition]));
+  }
+
+  /**
+   * Helper returning the built-in namespaces plus the custom ones configured for this client
+   */
+  private namespaces(): Namespaces {
+    return { ...NamespaceURI, ...this.config.namespaces };
+  }
+
+  /**
+   * Helper returning the store configured for this client
+   */
+  private defaultStore(): StoreRef {
+    return new StoreRef(this.config.scheme!, this.config.address!);
   }
 }
 
+export { CmlBuilder, ActionBuilder, NodeRef, StoreRef };
+export { Query, QueryBuilder, PropertyCondition } from './models/Query';
+export type { QueryLanguage, QueryValue, QuerySort, SortDirection } from './models/Query';
+export { AlfrescoClientFactory } from './AlfrescoClientFactory';
+export { silentLogger, consoleLogger, pinoLogger } from './common/logger';
+export { DEFAULT_RETRYABLE_OPERATIONS, CircuitBreaker } from './common/callPolicy';
+export { clearWsdlCache } from './common/wsdlCache';
+export { toQName, toPrefixedName, NamespaceURI, encodeISO9075, decodeISO9075, toQNamePath } from './models/QName';
+export type { Namespaces } from './models/QName';
+export {
+  AlfrescoError,
+  ValidationError,
+  NodeNotFoundError,
+  AccessDeniedError,
+  AuthenticationError,
+  InvalidTicketError,
+  IntegrityError,
+  TransportError,
+  CircuitOpenError,
+  ServiceFaultError,
+} from './common/errors';
+
 // Export types
-export type { NodeRef, StoreRef }; 
\ No newline at end of file
+export type { NodeRefLike, StoreRefLike, CML, CmlAssocOptions, UpdateResult, AssociationQuery };
+export type {
+  AlfrescoNode,
+  Association,
+  AssociationDirection,
+  NodeProperties,
+  NodePropertyValue,
+  Store,
+  StoreDescriptor,
+  StoreKind,
+  QueryResult,
+  NodeDescriptor,
+  ContentDescriptor,
+  ContentFormat,
+} from './models/Node';
+export type { CheckoutResult, CheckinResult, CheckinOptions, LockType, LockStatus, Version, VersionResult } from './services/AuthoringService';
+export type { AccessStatus, ACE, ACL, NodePermissions, ClassPermissions, PermissionCheck, Ownership } from './services/AccessControlService';
+export type { ClassDefinition, ClassQuery, PropertyDefinition, AssociationDefinition } from './services/DictionaryService';
+export type { UserDetails, NewUserDetails, UserQueryResult } from './services/AdministrationService';
+export type { ParameterDefinition, ActionItemDefinition, ActionExecutionResult, RuleFilter } from './services/ActionService';
+export type { Action, ActionCondition, ActionParameters, ActionParameterValue, Rule, RuleType } from './models/Action';
+export type { Category, Classification, AppliedCategories, CategoriesResult } from './services/ClassificationService';
+export type {
+  CmlTarget,
+  CmlProperties,
+  CmlPropertyDefinition,
+  CmlCreateOptions,
+  NamedValue,
+  CmlWhere,
+  CmlParent,
+  CmlEnd,
+  CmlCreate,
+  CmlAddAspect,
+  CmlRemoveAspect,
+  CmlUpdate,
+  CmlDelete,
+  CmlMove,
+  CmlCopy,
+  CmlAddChild,
+  CmlRemoveChild,
+  CmlAssociation,
+} from './models/Cml';
+export type { TrashItem, TrashListOptions } from './models/Trash';
+export type { ContentStream, ContentProgress, DownloadOptions, UploadOptions } from './services/ContentService';
+export type { AlfrescoErrorDetails } from './common/errors';
+export type { Logger, LogLevel, LogFields } from './common/logger';
+export type { AlfrescoClientFactoryOptions, AlfrescoClientDefaults, AlfrescoClientLease } from './AlfrescoClientFactory';
+export type { RetryOptions, CircuitBreakerOptions, CircuitState, CallHooks, CallInfo } from './common/callPolicy'; 
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { NodeRef } from './NodeRef';
+import { toQName } from './QName';
+
+export type ActionParameters = Record<string, string | string[]>;
+
+export type ActionParameterValue = string | number | boolean | Date | NodeRef | Array<string | NodeRef>;
+
+export interface ActionCondition {
+  id?: string;
+  conditionName: string;
+  invertCondition?: boolean;
+  parameters?: ActionParameters;
+}
+
+export interface Action {
+  id?: string;
+  actionName: string;
+  title?: string;
+  description?: string;
+  executeAsynchronously?: boolean;
+  parameters?: ActionParameters;
+  conditions?: ActionCondition[];
+  /**
+   * Child actions of a composite-action
+   */
+  actions?: Action[];
+}
+
+export type RuleType = 'inbound' | 'update' | 'outbound';
+
+export interface Rule {
+  ruleReference?: string;
+  owningReference?: string;
+  ruleTypes: RuleType[];
+  title?: string;
+  description?: string;
+  executeAsynchronously?: boolean;
+  action: Action;
+}
+
+/**
+ * Fluent builder for repository actions. Parameter values are serialized to the string form
+ * the ActionService expects (dates as ISO 8601, nodeRefs as `scheme://address/id`).
+ */
+export class ActionBuilder {
+  private action: Action;
+
+  constructor(actionName: string) {
+    this.action = { actionName, parameters: {}, conditions: [] };
+  }
+
+  /**
+   * Add aspect to the actioned-upon node
+   */
+  static addAspect(aspect: string): ActionBuilder {
+    return new ActionBuilder('add-features').param('aspect-name', toQName(aspect));
+  }
+
+  static move(destinationFolder: string | NodeRef): ActionBuilder {
+    return new ActionBuilder('move').param('destination-folder', destinationFolder);
+  }
+
+  static copy(destinationFolder: string | NodeRef, deepCopy: boolean = false): ActionBuilder {
+    return new ActionBuilder('copy').param('destination-folder', destinationFolder).param('deep-copy', deepCopy);
+  }
+
+  /**
+   * Transform content into another mimetype, placing the result in destinationFolder
+   */
+  static transform(mimetype: string, destinationFolder: string | NodeRef): ActionBuilder {
+    return new ActionBuilder('transform')
+      .param('mime-type', mimetype)
+      .param('destination-folder', destinationFolder)
+      .param('assoc-type', toQName('cm:contains'))
+      .param('assoc-name', toQName('cm:copy'));
+  }
+
+  static mail(options: { to: string; subject: string; text: string; from?: string }): ActionBuilder {
+    const builder = new ActionBuilder('mail')
+      .param('to', options.to)
+      .param('subject', options.subject)
+      .param('text', options.text);
+    return options.from ? builder.param('from', options.from) : builder;
+  }
+
+  param(name: string, value: ActionParameterValue): this {
+    this.action.parameters![name] = serializeParameter(value);
+    return this;
+  }
+
+  title(title: string, description?: string): this {
+    this.action.title = title;
+    if (description !== undefined) this.action.description = description;
+    return this;
+  }
+
+  async(executeAsynchronously: boolean = true): this {
+    this.action.executeAsynchronously = executeAsynchronously;
+    return this;
+  }
+
+  /**
+   * Only run when the named condition evaluates to true (or false when invert is set)
+   */
+  when(conditionName: string, parameters: Record<string, ActionParameterValue> = {}, invert: boolean = false): this {
+    const serialized: ActionParameters = {};
+    Object.keys(parameters).forEach(key => {
+      serialized[key] = serializeParameter(parameters[key]);
+    });
+    this.action.conditions!.push({ conditionName, invertCondition: invert, parameters: serialized });
+    return this;
+  }
+
+  build(): Action {
+    return { ...this.action, parameters: { ...this.action.parameters }, conditions: [...this.action.conditions!] };
+  }
+}
+
+function serializeParameter(value: ActionParameterValue): string | string[] {
+  if (Array.isArray(value)) return value.map(v => String(v));
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
\ No newline at end of file
@@ -0,0 +1,378 @@
+import { ValidationError } from '../common/errors';
+import { encodeISO9075, toPrefixedName, toQName } from './QName';
+import { NodeRef, NodeRefLike } from './NodeRef';
+import type { NodeProperties } from './Node';
+
+/**
+ * SOAP shapes used by the RepositoryService `update` operation (Alfresco cml.xsd)
+ */
+export interface NamedValue {
+  name: string;
+  isMultiValue: boolean;
+  value?: string;
+  values?: string[];
+}
+
+export interface SoapReference {
+  store: { scheme: string; address: string };
+  uuid?: string;
+  path?: string;
+}
+
+export interface SoapParentReference extends SoapReference {
+  associationType: string;
+  childName: string;
+}
+
+export interface SoapPredicate {
+  nodes: SoapReference[];
+}
+
+/**
+ * Nodes a statement applies to: a Predicate, or the `id` of a node created earlier in the same block
+ */
+export interface CmlWhere {
+  where?: SoapPredicate;
+  where_id?: string;
+}
+
+/**
+ * Parent a statement files its node under, as a reference or by the `id` of a node created earlier
+ */
+export type CmlParent<F extends 'parent' | 'to'> = { [K in F]?: SoapParentReference } & { [K in `${F}_id`]?: string } & {
+  associationType?: string;
+  childName?: string;
+};
+
+/**
+ * One end of a peer association, as a Predicate or by the `id` of a node created earlier
+ */
+export type CmlEnd<F extends 'from' | 'to'> = { [K in F]?: SoapPredicate } & { [K in `${F}_id`]?: string };
+
+export type CmlCreate = CmlParent<'parent'> & {
+  id?: string;
+  type: string;
+  property: NamedValue[];
+};
+
+export interface CmlAddAspect extends CmlWhere {
+  aspect: string;
+  property: NamedValue[];
+}
+
+export interface CmlRemoveAspect extends CmlWhere {
+  aspect: string;
+}
+
+export interface CmlUpdate extends CmlWhere {
+  property: NamedValue[];
+}
+
+export interface CmlDelete {
+  where: SoapPredicate;
+}
+
+export type CmlMove = CmlParent<'to'> & CmlWhere;
+
+export type CmlCopy = CmlMove & {
+  children: boolean;
+};
+
+export type CmlAddChild = CmlParent<'to'> & CmlWhere;
+
+export interface CmlRemoveChild extends CmlWhere {
+  from?: SoapReference;
+  from_id?: string;
+}
+
+export type CmlAssociation = CmlEnd<'from'> & CmlEnd<'to'> & {
+  association: string;
+};
+
+export interface CML {
+  create?: CmlCreate[];
+  addAspect?: CmlAddAspect[];
+  removeAspect?: CmlRemoveAspect[];
+  update?: CmlUpdate[];
+  delete?: CmlDelete[];
+  move?: CmlMove[];
+  copy?: CmlCopy[];
+  addChild?: CmlAddChild[];
+  removeChild?: CmlRemoveChild[];
+  createAssociation?: CmlAssociation[];
+  removeAssociation?: CmlAssociation[];
+}
+
+/**
+ * Target of a CML statement: one or more nodeRefs, or the `id` of a node created earlier in the same CML block
+ */
+export type CmlTarget = NodeRefLike | NodeRefLike[] | { id: string };
+
+/**
+ * Serialized property values; null clears a property
+ */
+export type CmlProperties = Record<string, string | string[] | null>;
+
+/**
+ * The parts of a dictionary PropertyDefinition that serializeProperties checks values against
+ */
+export interface CmlPropertyDefinition {
+  dataType: string;
+  multiValued: boolean;
+  readOnly?: boolean;
+}
+
+export interface CmlCreateOptions {
+  parent: CmlTarget;
+  type: string;
+  properties?: CmlProperties;
+  id?: string;
+  associationType?: string;
+  childName?: string;
+}
+
+export interface CmlAssocOptions {
+  associationType?: string;
+  childName?: string;
+}
+
+const DEFAULT_ASSOC_TYPE = 'cm:contains';
+
+/**
+ * Fluent builder for Content Manipulation Language statements.
+ * Statements are grouped per kind and emitted in the order required by the schema.
+ */
+export class CmlBuilder {
+  private cml: CML = {};
+
+  create(options: CmlCreateOptions): this {
+    const name = options.properties?.['cm:name'];
+    const childName = options.childName || (typeof name === 'string' ? `cm:${encodeISO9075(name)}` : DEFAULT_ASSOC_TYPE);
+    this.push('create', {
+      id: options.id,
+      ...this.parentTarget('parent', options.parent, {
+        associationType: options.associationType,
+        childName,
+      }),
+      type: toQName(options.type),
+      property: toNamedValues(options.properties || {}),
+    });
+    return this;
+  }
+
+  addAspect(where: CmlTarget, aspect: string, properties?: CmlProperties): this {
+    this.push('addAspect', {
+      aspect: toQName(aspect),
+      property: toNamedValues(properties || {}),
+      ...this.whereTarget(where),
+    });
+    return this;
+  }
+
+  removeAspect(where: CmlTarget, aspect: string): this {
+    this.push('removeAspect', {
+      aspect: toQName(aspect),
+      ...this.whereTarget(where),
+    });
+    return this;
+  }
+
+  update(where: CmlTarget, properties: CmlProperties): this {
+    this.push('update', {
+      property: toNamedValues(properties),
+      ...this.whereTarget(where),
+    });
+    return this;
+  }
+
+  delete(where: NodeRefLike | NodeRefLike[]): this {
+    this.push('delete', { where: NodeRef.toPredicate(where) });
+    return this;
+  }
+
+  move(where: CmlTarget, to: CmlTarget, options: CmlAssocOptions = {}): this {
+    this.push('move', {
+      ...this.parentTarget('to', to, options),
+      ...this.whereTarget(where),
+    });
+    return this;
+  }
+
+  copy(where: CmlTarget, to: CmlTarget, options: CmlAssocOptions & { children?: boolean } = {}): this {
+    this.push('copy', {
+      ...this.parentTarget('to', to, options),
+      ...this.whereTarget(where),
+      children: options.children ?? false,
+    });
+    return this;
+  }
+
+  addChild(where: CmlTarget, to: CmlTarget, options: CmlAssocOptions = {}): this {
+    this.push('addChild', {
+      ...this.parentTarget('to', to, options),
+      ...this.whereTarget(where),
+    });
+    return this;
+  }
+
+  removeChild(where: CmlTarget, from: CmlTarget): this {
+    const fromTarget = isIdTarget(from)
+      ? { from_id: from.id }
+      : { from: NodeRef.parse(firstNodeRef(from)).toReference() };
+    this.push('removeChild', {
+      ...fromTarget,
+      ...this.whereTarget(where),
+    });
+    return this;
+  }
+
+  /**
+   * Link nodes with a peer association such as cm:references
+   */
+  createAssociation(from: CmlTarget, to: CmlTarget, associationType: string): this {
+    this.push('createAssociation', {
+      ...this.endTarget('from', from),
+      ...this.endTarget('to', to),
+      association: toQName(associationType),
+    });
+    return this;
+  }
+
+  removeAssociation(from: CmlTarget, to: CmlTarget, associationType: string): this {
+    this.push('removeAssociation', {
+      ...this.endTarget('from', from),
+      ...this.endTarget('to', to),
+      association: toQName(associationType),
+    });
+    return this;
+  }
+
+  isEmpty(): boolean {
+    return Object.keys(this.cml).length === 0;
+  }
+
+  build(): CML {
+    const ordered: Record<string, unknown> = {};
+    const order: (keyof CML)[] = [
+      'create', 'addAspect', 'removeAspect', 'update', 'delete', 'move', 'copy', 'addChild', 'removeChild', 'createAssociation', 'removeAssociation',
+    ];
+    for (const key of order) {
+      if (this.cml[key]) ordered[key] = this.cml[key];
+    }
+    return ordered as CML;
+  }
+
+  private push<K extends keyof CML>(kind: K, statement: NonNullable<CML[K]>[number]) {
+    // Drop unset optional fields so they are not serialized as empty elements
+    const fields = statement as Record<string, unknown>;
+    Object.keys(fields).forEach(k => fields[k] === undefined && delete fields[k]);
+    const statements = (this.cml[kind] = this.cml[kind] || []) as NonNullable<CML[K]>[number][];
+    statements.push(statement);
+  }
+
+  private whereTarget(where: CmlTarget): CmlWhere {
+    return isIdTarget(where) ? { where_id: where.id } : { where: NodeRef.toPredicate(where) };
+  }
+
+  private endTarget<F extends 'from' | 'to'>(field: F, target: CmlTarget): CmlEnd<F> {
+    return (isIdTarget(target) ? { [`${field}_id`]: target.id } : { [field]: NodeRef.toPredicate(target) }) as CmlEnd<F>;
+  }
+
+  private parentTarget<F extends 'parent' | 'to'>(field: F, target: CmlTarget, options: CmlAssocOptions): CmlParent<F> {
+    const associationType = toQName(options.associationType || DEFAULT_ASSOC_TYPE);
+    const childName = options.childName ? toQName(options.childName) : undefined;
+    if (isIdTarget(target)) {
+      return { [`${field}_id`]: target.id, associationType, childName } as CmlParent<F>;
+    }
+    const parent: SoapParentReference = {
+      ...NodeRef.parse(firstNodeRef(target)).toReference(),
+      associationType,
+      childName: childName || toQName(DEFAULT_ASSOC_TYPE),
+    };
+    return { [field]: parent } as CmlParent<F>;
+  }
+}
+
+/**
+ * Convert a plain property map keyed by prefixed or full QNames into SOAP NamedValues
+ */
+export function toNamedValues(properties: CmlProperties): NamedValue[] {
+  return Object.keys(properties).map(key => {
+    const value = properties[key];
+    if (Array.isArray(value)) return { name: toQName(key), isMultiValue: true, values: value };
+    return value === null ? { name: toQName(key), isMultiValue: false } : { name: toQName(key), isMultiValue: false, value };
+  });
+}
+
+/**
+ * Serialize typed values, as getProperties returns them, into CML properties: dates as ISO 8601,
+ * numbers and booleans as text, arrays as multi-valued properties and null to clear a property.
+ * Values of properties with a definition (keyed by full QName) are checked against its data type and
+ * cardinality; residual properties are serialized by their JS type.
+ */
+export function serializeProperties(properties: NodeProperties, definitions: Record<string, CmlPropertyDefinition> = {}): CmlProperties {
+  const serialized: CmlProperties = {};
+  Object.keys(properties).forEach(key => {
+    const name = toQName(key);
+    const label = toPrefixedName(name);
+    const value = properties[key];
+    const definition = definitions[name];
+    if (definition?.readOnly) {
+      throw new ValidationError(`${label} is read-only`);
+    }
+    if (Array.isArray(value)) {
+      if (definition && !definition.multiValued) {
+        throw new ValidationError(`${label} is not multi-valued`);
+      }
+      serialized[name] = value.map(item => {
+        if (item === null) throw new ValidationError(`${label} cannot hold null values`);
+        return serializeValue(label, item, definition?.dataType);
+      });
+    } else if (value === null) {
+      serialized[name] = null;
+    } else {
+      const text = serializeValue(label, value, definition?.dataType);
+      serialized[name] = definition?.multiValued ? [text] : text;
+    }
+  });
+  return serialized;
+}
+
+// Text and d:mltext values are sent as is; Alfresco stores mltext under the session locale and keeps other translations
+function serializeValue(key: string, value: string | number | boolean | Date, dataType?: string): string {
+  if (value instanceof Date && isNaN(value.getTime())) {
+    throw new ValidationError(`Invalid date for ${key}`);
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  const type = dataType ? toPrefixedName(toQName(dataType)) : undefined;
+  if (!matchesDataType(value, text, type)) {
+    throw new ValidationError(`Invalid ${type} value for ${key}: ${text}`);
+  }
+  return text;
+}
+
+function matchesDataType(value: string | number | boolean | Date, text: string, type?: string): boolean {
+  switch (type) {
+    case 'd:date':
+    case 'd:datetime':
+      return value instanceof Date || (typeof value === 'string' && !isNaN(Date.parse(value)));
+    case 'd:int':
+    case 'd:long':
+      return (typeof value === 'number' || typeof value === 'string') && /^-?\d+$/.test(text.trim());
+    case 'd:float':
+    case 'd:double':
+      return (typeof value === 'number' || typeof value === 'string') && text.trim() !== '' && Number.isFinite(Number(text));
+    case 'd:boolean':
+      return text === 'true' || text === 'false';
+    default:
+      return true;
+  }
+}
+
+function isIdTarget(target: CmlTarget): target is { id: string } {
+  return typeof target === 'object' && !Array.isArray(target) && !(target instanceof NodeRef);
+}
+
+function firstNodeRef(target: NodeRefLike | NodeRefLike[]): NodeRefLike {
+  return Array.isArray(target) ? target[0] : target;
+}
\ No newline at end of file
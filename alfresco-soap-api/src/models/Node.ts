@@ -0,0 +1,120 @@
+import { NamedValue, SoapReference } from './Cml';
+
+export type NodePropertyValue = string | number | boolean | Date | null | Array<string | number | boolean | Date | null>;
+
+/**
+ * Node properties keyed by the name Alfresco returned them under. Values are converted by their
+ * data type: dates to Date, numeric types to number, booleans to boolean.
+ */
+export type NodeProperties = Record<string, NodePropertyValue>;
+
+/**
+ * Normalized node returned by the query, children and parents methods; `type` is a prefixed name
+ * when the namespace is known
+ */
+export interface AlfrescoNode {
+  nodeRef: string;
+  name: string;
+  type: string;
+  properties: NodeProperties;
+}
+
+/**
+ * Which end of a peer association the queried node is on: `target` finds the nodes it points to,
+ * `source` the nodes pointing to it
+ */
+export type AssociationDirection = 'source' | 'target';
+
+/**
+ * Association between two nodes, returned by the association queries. `node` is the node at the
+ * other end from the one queried.
+ */
+export interface Association {
+  /**
+   * Association type as a prefixed name, e.g. cm:references or cm:contains
+   */
+  type: string;
+  /**
+   * Whether this is a parent-child association rather than a peer association
+   */
+  isChild: boolean;
+  /**
+   * Association QName of a child association (its child name), e.g. cm:Budget
+   */
+  childName?: string;
+  /**
+   * Whether a child association is the child's primary parent
+   */
+  isPrimary?: boolean;
+  sourceRef: string;
+  targetRef: string;
+  node: AlfrescoNode;
+}
+
+/**
+ * A repository store, e.g. workspace://SpacesStore
+ */
+export interface Store {
+  scheme: string;
+  address: string;
+}
+
+/**
+ * What a store holds: live content, deleted nodes, version history, users or system data.
+ * Stores this library does not recognize are `other`.
+ */
+export type StoreKind = 'workspace' | 'archive' | 'version' | 'user' | 'system' | 'other';
+
+/**
+ * Store returned by getStores
+ */
+export interface StoreDescriptor extends Store {
+  /**
+   * `scheme://address`, accepted wherever a StoreRefLike is
+   */
+  storeRef: string;
+  kind: StoreKind;
+}
+
+/**
+ * Query statement passed to the SOAP query operation
+ */
+export interface Query {
+  language: string;
+  statement: string;
+}
+
+/**
+ * One batch of query results together with its paging state
+ */
+export interface QueryResult {
+  nodes: AlfrescoNode[];
+  totalRowCount: number;
+  querySession?: string;
+}
+
+/**
+ * Raw node returned by the RepositoryService get operation
+ */
+export interface NodeDescriptor {
+  reference: SoapReference;
+  type: string;
+  aspects: string[];
+  properties: NamedValue[];
+}
+
+export interface ContentFormat {
+  mimetype: string;
+  encoding: string;
+}
+
+/**
+ * Content property metadata returned by the ContentService operations
+ */
+export interface ContentDescriptor {
+  nodeRef: string;
+  property: string;
+  length: number;
+  url?: string;
+  format?: ContentFormat;
+}
\ No newline at end of file
@@ -1,10 +1,100 @@
-export type NodeRef = string;
+import { StoreRef } from './StoreRef';
+import type { SoapPredicate, SoapReference } from './Cml';
+import { ValidationError } from '../common/errors';
 
-export function parseNodeRef(nodeRef: string): { store: string; id: string } {
-  const [store, id] = nodeRef.split('://');
-  return { store, id };
-}
+export type NodeRefLike = string | NodeRef;
 
-export function makeNodeRef(store: string, id: string): NodeRef {
-  return `${store}://${id}`;
-} 
\ No newline at end of file
+/**
+ * Reference to a node, e.g. `workspace://SpacesStore/0a1b2c3d-...`
+ */
+export class NodeRef {
+  readonly storeRef: StoreRef;
+  readonly id: string;
+
+  constructor(storeRef: StoreRef, id: string) {
+    if (!id || typeof id !== 'string' || id.includes('/')) {
+      throw new ValidationError(`Invalid node id: ${id}`);
+    }
+    this.storeRef = storeRef;
+    this.id = id;
+  }
+
+  /**
+   * Parse `scheme://address/id` or return an existing NodeRef unchanged
+   */
+  static parse(value: NodeRefLike): NodeRef {
+    if (value instanceof NodeRef) return value;
+    if (!value || typeof value !== 'string' || !value.includes('://')) {
+      throw new ValidationError(`Invalid nodeRef "${value}": expected scheme://address/id`);
+    }
+    const idx = value.lastIndexOf('/');
+    if (idx <= value.indexOf('://') + 2) {
+      throw new ValidationError(`Invalid nodeRef "${value}": missing node id`);
+    }
+    return new NodeRef(StoreRef.parse(value.substring(0, idx)), value.substring(idx + 1));
+  }
+
+  static isNodeRef(value: string): boolean {
+    try {
+      NodeRef.parse(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Build a NodeRef from a SOAP Reference returned by the server
+   */
+  static fromReference(ref: SoapReference): NodeRef {
+    if (!ref || !ref.store || !ref.uuid) {
+      throw new ValidationError('Invalid Reference: missing store or uuid');
+    }
+    return new NodeRef(StoreRef.parse(ref.store), ref.uuid);
+  }
+
+  /**
+   * Build a SOAP Predicate selecting one or more nodes
+   */
+  static toPredicate(nodeRefs: NodeRefLike | NodeRefLike[]): SoapPredicate {
+    const refs = Array.isArray(nodeRefs) ? nodeRefs : [nodeRefs];
+    return { nodes: refs.map(ref => NodeRef.parse(ref).toReference()) };
+  }
+
+  get scheme(): string {
+    return this.storeRef.scheme;
+  }
+
+  get address(): string {
+    return this.storeRef.address;
+  }
+
+  /**
+   * SOAP Reference shape used by most repository operations
+   */
+  toReference(): SoapReference {
+    return { store: this.storeRef.toStore(), uuid: this.id };
+  }
+
+  toPredicate(): SoapPredicate {
+    return { nodes: [this.toReference()] };
+  }
+
+  equals(other: NodeRefLike | null | undefined): boolean {
+    if (!other) return false;
+    try {
+      const ref = NodeRef.parse(other);
+      return ref.id === this.id && ref.storeRef.equals(this.storeRef);
+    } catch {
+      return false;
+    }
+  }
+
+  toString(): string {
+    return `${this.storeRef.toString()}/${this.id}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
\ No newline at end of file
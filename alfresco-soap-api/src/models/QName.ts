@@ -0,0 +1,101 @@
+import { ValidationError } from '../common/errors';
+
+/**
+ * Namespace URIs for the prefixes used by the out-of-the-box Alfresco content models
+ */
+export const NamespaceURI: Record<string, string> = {
+  sys: 'http://www.alfresco.org/model/system/1.0',
+  d: 'http://www.alfresco.org/model/dictionary/1.0',
+  cm: 'http://www.alfresco.org/model/content/1.0',
+  app: 'http://www.alfresco.org/model/application/1.0',
+  usr: 'http://www.alfresco.org/model/user/1.0',
+  ver: 'http://www.alfresco.org/model/versionstore/1.0',
+  st: 'http://www.alfresco.org/model/site/1.0',
+};
+
+/**
+ * Namespace URIs keyed by prefix
+ */
+export type Namespaces = Record<string, string>;
+
+/**
+ * Convert a prefixed name (`cm:name`) into the full `{uri}localName` QName the SOAP API expects.
+ * Names that are already in full form are returned unchanged.
+ */
+export function toQName(name: string): string {
+  return expandQName(name, NamespaceURI);
+}
+
+/**
+ * toQName against the given namespaces, e.g. the built-in ones plus a client's custom models
+ */
+export function expandQName(name: string, namespaces: Namespaces): string {
+  if (name.startsWith('{')) return name;
+  const idx = name.indexOf(':');
+  if (idx < 0) return name;
+  const prefix = name.substring(0, idx);
+  const uri = namespaces[prefix];
+  if (!uri) {
+    throw new ValidationError('Unknown namespace prefix: ' + prefix);
+  }
+  return `{${uri}}${name.substring(idx + 1)}`;
+}
+
+/**
+ * Convert a full `{uri}localName` QName back into its prefixed form when the namespace is known
+ */
+export function toPrefixedName(qname: string): string {
+  return prefixQName(qname, NamespaceURI);
+}
+
+/**
+ * toPrefixedName against the given namespaces
+ */
+export function prefixQName(qname: string, namespaces: Namespaces): string {
+  const match = /^\{([^}]*)\}(.*)$/.exec(qname);
+  if (!match) return qname;
+  const prefix = Object.keys(namespaces).find(p => namespaces[p] === match[1]);
+  return prefix ? `${prefix}:${match[2]}` : qname;
+}
+
+/**
+ * Check custom namespaces before they are used: prefixes must be XML names and URIs non-empty
+ */
+export function validateNamespaces(namespaces: Namespaces): Namespaces {
+  Object.keys(namespaces).forEach(prefix => {
+    if (!/^[A-Za-z_][\w.-]*$/.test(prefix)) {
+      throw new ValidationError(`Invalid namespace prefix: ${prefix}`);
+    }
+    const uri = namespaces[prefix];
+    if (typeof uri !== 'string' || !uri || /[{}]/.test(uri)) {
+      throw new ValidationError(`Invalid namespace URI for ${prefix}: ${uri}`);
+    }
+  });
+  return namespaces;
+}
+
+/**
+ * Encode a name for use as a QName local name in a PATH query (ISO 9075): characters that are not
+ * valid in an XML name are written as `_xHHHH_`
+ */
+export function encodeISO9075(name: string): string {
+  let out = '';
+  for (let i = 0; i < name.length; i++) {
+    const c = name[i];
+    const valid = i === 0 ? /[\p{L}_]/u.test(c) : /[\p{L}\p{N}._-]/u.test(c);
+    // A literal "_xHHHH_" in the name must have its underscore escaped to survive decoding
+    const looksEncoded = c === '_' && /^x[0-9A-Fa-f]{4}_/.test(name.substring(i + 1, i + 7));
+    out += valid && !looksEncoded ? c : `_x${c.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}_`;
+  }
+  return out;
+}
+
+export function decodeISO9075(name: string): string {
+  return name.replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+/**
+ * Build a PATH query fragment such as `/cm:Sites/cm:My_x0020_Folder` from display names
+ */
+export function toQNamePath(names: string[], prefix: string = 'cm'): string {
+  return names.map(name => `/${prefix}:${encodeISO9075(name)}`).join('');
+}
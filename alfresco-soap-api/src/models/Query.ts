@@ -0,0 +1,381 @@
+import { ValidationError } from '../common/errors';
+import type { AlfrescoNode, Query as QueryStatement } from './Node';
+import { NodeRef, NodeRefLike } from './NodeRef';
+import { toPrefixedName, toQName } from './QName';
+
+export type QueryLanguage = 'lucene' | 'fts-alfresco';
+
+export type QueryValue = string | number | boolean | Date;
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface QuerySort {
+  property: string;
+  direction: SortDirection;
+}
+
+type Clause =
+  | { kind: 'type' | 'aspect'; qname: string }
+  | { kind: 'path'; path: string }
+  | { kind: 'parent'; nodeRef: string }
+  | { kind: 'text'; text: string }
+  | { kind: 'equals'; property: string; value: string }
+  | { kind: 'like'; property: string; value: string; escaped?: boolean }
+  | { kind: 'range'; property: string; from?: string; to?: string };
+
+// A negated clause is rendered with - (lucene) or NOT (fts-alfresco)
+type QueryClause = Clause & { negate: boolean };
+
+const QNAME_PATTERN = /^(?:[\w-]+:[\w.-]+|\{[^{}\s"]+\}[\w.-]+)$/;
+
+// Characters with a meaning in either query language; escaped with a backslash in unquoted terms
+const SPECIAL_CHARS = /[+\-&|!(){}[\]^"~*?:\\/=<>\s]/g;
+
+/**
+ * Fluent builder for lucene and fts-alfresco statements. Every value is escaped for the chosen
+ * language, so user input can be passed in safely.
+ *
+ *   Query.type('cm:content').inPath('/app:company_home//*').prop('cm:name').like('report*').modifiedAfter(date)
+ */
+export class QueryBuilder {
+  private clauses: QueryClause[] = [];
+  private negateNext = false;
+  private queryLanguage: QueryLanguage = 'lucene';
+  private sorts: QuerySort[] = [];
+  private maxResults?: number;
+
+  language(language: QueryLanguage): QueryBuilder {
+    this.queryLanguage = language;
+    return this;
+  }
+
+  /**
+   * Negate the next condition
+   */
+  not(): QueryBuilder {
+    this.negateNext = true;
+    return this;
+  }
+
+  /**
+   * Nodes of this type or one of its subtypes
+   */
+  type(type: string): QueryBuilder {
+    return this.add({ kind: 'type', qname: checkQName(type) });
+  }
+
+  aspect(aspect: string): QueryBuilder {
+    return this.add({ kind: 'aspect', qname: checkQName(aspect) });
+  }
+
+  /**
+   * Nodes matching a QName path such as `/app:company_home/cm:Reports//*` (see toQNamePath)
+   */
+  inPath(path: string): QueryBuilder {
+    return this.add({ kind: 'path', path });
+  }
+
+  /**
+   * Direct children of a node
+   */
+  inFolder(nodeRef: NodeRefLike): QueryBuilder {
+    return this.add({ kind: 'parent', nodeRef: NodeRef.parse(nodeRef).toString() });
+  }
+
+  /**
+   * Full-text match on content and text properties
+   */
+  text(text: string): QueryBuilder {
+    return this.add({ kind: 'text', text });
+  }
+
+  /**
+   * Start a condition on a property, completed by equals/like/between/...
+   */
+  prop(property: string): PropertyCondition {
+    return new PropertyCondition(this, checkQName(property));
+  }
+
+  /**
+   * Nodes modified on or after the given date
+   */
+  modifiedAfter(date: Date): QueryBuilder {
+    return this.prop('cm:modified').from(date);
+  }
+
+  /**
+   * Nodes modified on or before the given date
+   */
+  modifiedBefore(date: Date): QueryBuilder {
+    return this.prop('cm:modified').to(date);
+  }
+
+  createdAfter(date: Date): QueryBuilder {
+    return this.prop('cm:created').from(date);
+  }
+
+  createdBefore(date: Date): QueryBuilder {
+    return this.prop('cm:created').to(date);
+  }
+
+  /**
+   * Sort the results by a property. The SOAP query has no sort order, so the client loads every
+   * matching node and sorts them itself; combine with limit() to keep the result small.
+   */
+  orderBy(property: string, direction: SortDirection = 'asc'): QueryBuilder {
+    this.sorts.push({ property: checkQName(property), direction });
+    return this;
+  }
+
+  /**
+   * Return at most this many nodes
+   */
+  limit(limit: number): QueryBuilder {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ValidationError(`Invalid limit: ${limit}`);
+    }
+    this.maxResults = limit;
+    return this;
+  }
+
+  get sortOrder(): QuerySort[] {
+    return [...this.sorts];
+  }
+
+  get resultLimit(): number | undefined {
+    return this.maxResults;
+  }
+
+  /**
+   * Statement and language for RepositoryService.query
+   */
+  build(): QueryStatement {
+    if (!this.clauses.length) {
+      throw new ValidationError('Query has no conditions');
+    }
+    const render = this.queryLanguage === 'lucene' ? renderLucene : renderFts;
+    const parts = this.clauses.map(render);
+    return { language: this.queryLanguage, statement: parts.join(this.queryLanguage === 'lucene' ? ' ' : ' AND ') };
+  }
+
+  toString(): string {
+    return this.build().statement;
+  }
+
+  /**
+   * Sort nodes in place according to orderBy()
+   */
+  sort(nodes: AlfrescoNode[]): AlfrescoNode[] {
+    if (!this.sorts.length) return nodes;
+    return nodes.sort((a, b) => {
+      for (const { property, direction } of this.sorts) {
+        const order = compareValues(propertyValue(a, property), propertyValue(b, property));
+        if (order !== 0) return direction === 'asc' ? order : -order;
+      }
+      return 0;
+    });
+  }
+
+  /** @internal used by PropertyCondition */
+  add(clause: Clause): QueryBuilder {
+    this.clauses.push({ ...clause, negate: this.negateNext } as QueryClause);
+    this.negateNext = false;
+    return this;
+  }
+}
+
+/**
+ * Condition on one property, returned by QueryBuilder.prop()
+ */
+export class PropertyCondition {
+  private builder: QueryBuilder;
+  private property: string;
+
+  constructor(builder: QueryBuilder, property: string) {
+    this.builder = builder;
+    this.property = property;
+  }
+
+  /**
+   * Exact value (a phrase match for tokenized text properties in lucene)
+   */
+  equals(value: QueryValue): QueryBuilder {
+    return this.builder.add({ kind: 'equals', property: this.property, value: formatValue(value) });
+  }
+
+  /**
+   * Wildcard match: `*` and `?` are wildcards, every other character is literal
+   */
+  like(pattern: string): QueryBuilder {
+    return this.builder.add({ kind: 'like', property: this.property, value: pattern });
+  }
+
+  startsWith(prefix: string): QueryBuilder {
+    return this.builder.add({ kind: 'like', property: this.property, value: escapeLiteral(prefix) + '*', escaped: true });
+  }
+
+  /**
+   * Inclusive range; leave one end undefined for an open range
+   */
+  between(from: QueryValue | undefined, to: QueryValue | undefined): QueryBuilder {
+    return this.builder.add({
+      kind: 'range',
+      property: this.property,
+      from: from === undefined ? undefined : formatValue(from),
+      to: to === undefined ? undefined : formatValue(to),
+    });
+  }
+
+  from(value: QueryValue): QueryBuilder {
+    return this.between(value, undefined);
+  }
+
+  to(value: QueryValue): QueryBuilder {
+    return this.between(undefined, value);
+  }
+}
+
+/**
+ * Entry points for QueryBuilder, e.g. `Query.type('cm:folder')`
+ */
+export const Query = {
+  type: (type: string) => new QueryBuilder().type(type),
+  aspect: (aspect: string) => new QueryBuilder().aspect(aspect),
+  inPath: (path: string) => new QueryBuilder().inPath(path),
+  inFolder: (nodeRef: NodeRefLike) => new QueryBuilder().inFolder(nodeRef),
+  text: (text: string) => new QueryBuilder().text(text),
+  prop: (property: string) => new QueryBuilder().prop(property),
+  not: () => new QueryBuilder().not(),
+  language: (language: QueryLanguage) => new QueryBuilder().language(language),
+};
+
+export type Query = QueryStatement;
+
+function renderLucene(clause: QueryClause): string {
+  const prefix = clause.negate ? '-' : '+';
+  switch (clause.kind) {
+    case 'type':
+      return `${prefix}TYPE:${quote(clause.qname)}`;
+    case 'aspect':
+      return `${prefix}ASPECT:${quote(clause.qname)}`;
+    case 'path':
+      return `${prefix}PATH:${quote(clause.path)}`;
+    case 'parent':
+      return `${prefix}PARENT:${quote(clause.nodeRef)}`;
+    case 'text':
+      return `${prefix}TEXT:${quote(clause.text)}`;
+    case 'equals':
+      return `${prefix}${luceneField(clause.property)}:${quote(clause.value)}`;
+    case 'like':
+      return `${prefix}${luceneField(clause.property)}:${likeTerm(clause)}`;
+    case 'range':
+      return `${prefix}${luceneField(clause.property)}:[${rangeEnd(clause.from, 'MIN')} TO ${rangeEnd(clause.to, 'MAX')}]`;
+  }
+}
+
+function renderFts(clause: QueryClause): string {
+  const prefix = clause.negate ? 'NOT ' : '';
+  switch (clause.kind) {
+    case 'type':
+      return `${prefix}TYPE:${quote(clause.qname)}`;
+    case 'aspect':
+      return `${prefix}ASPECT:${quote(clause.qname)}`;
+    case 'path':
+      return `${prefix}PATH:${quote(clause.path)}`;
+    case 'parent':
+      return `${prefix}PARENT:${quote(clause.nodeRef)}`;
+    case 'text':
+      return `${prefix}TEXT:${quote(clause.text)}`;
+    case 'equals':
+      // = asks for an exact match instead of a tokenized one
+      return `${prefix}=${ftsField(clause.property)}:${quote(clause.value)}`;
+    case 'like':
+      return `${prefix}${ftsField(clause.property)}:${likeTerm(clause)}`;
+    case 'range':
+      return `${prefix}${ftsField(clause.property)}:[${rangeEnd(clause.from, 'MIN')} TO ${rangeEnd(clause.to, 'MAX')}]`;
+  }
+}
+
+function checkQName(name: string): string {
+  if (typeof name !== 'string' || !QNAME_PATTERN.test(name)) {
+    throw new ValidationError(`Invalid QName in query: ${name}`);
+  }
+  return name;
+}
+
+// Lucene fields are written as @prefix\:local, with every reserved character escaped
+function luceneField(property: string): string {
+  return '@' + toPrefixedName(property).replace(SPECIAL_CHARS, c => '\\' + c);
+}
+
+function ftsField(property: string): string {
+  return toPrefixedName(property);
+}
+
+// Phrase in double quotes: only the quote and the backslash need escaping
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, c => '\\' + c)}"`;
+}
+
+// Unquoted term that keeps * and ? as wildcards
+function escapeTerm(value: string): string {
+  if (!value) {
+    throw new ValidationError('Empty query term');
+  }
+  return value.replace(SPECIAL_CHARS, c => (c === '*' || c === '?' ? c : '\\' + c));
+}
+
+// Unquoted term without wildcards
+function escapeLiteral(value: string): string {
+  if (!value) {
+    throw new ValidationError('Empty query term');
+  }
+  return value.replace(SPECIAL_CHARS, c => '\\' + c);
+}
+
+function likeTerm(clause: { value: string; escaped?: boolean }): string {
+  return clause.escaped ? clause.value : escapeTerm(clause.value);
+}
+
+function rangeEnd(value: string | undefined, open: 'MIN' | 'MAX'): string {
+  return value === undefined ? open : quote(value);
+}
+
+function formatValue(value: QueryValue): string {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) throw new ValidationError('Invalid date in query');
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+function propertyValue(node: AlfrescoNode, property: string): unknown {
+  const prefixed = toPrefixedName(property);
+  if (prefixed === 'cm:name') return node.name;
+  let qname = property;
+  try {
+    qname = toQName(property);
+  } catch {
+    // Unknown prefix: only the name as given can match
+  }
+  return node.properties[qname] ?? node.properties[prefixed];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  // Missing values sort last
+  if (a === undefined || a === null) return b === undefined || b === null ? 0 : 1;
+  if (b === undefined || b === null) return -1;
+  const left = comparable(a);
+  const right = comparable(b);
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return String(left).localeCompare(String(right));
+}
+
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const time = Date.parse(value);
+    if (!isNaN(time)) return time;
+  }
+  return value;
+}
@@ -1 +1,70 @@
-export type StoreRef = string; 
\ No newline at end of file
+import type { Store } from './Node';
+import { ValidationError } from '../common/errors';
+
+export type StoreRefLike = string | StoreRef | Store;
+
+/**
+ * Reference to a repository store, e.g. `workspace://SpacesStore`
+ */
+export class StoreRef {
+  readonly scheme: string;
+  readonly address: string;
+
+  constructor(scheme: string, address: string) {
+    if (!scheme || typeof scheme !== 'string' || scheme.includes('/') || scheme.includes(':')) {
+      throw new ValidationError(`Invalid store scheme: ${scheme}`);
+    }
+    if (!address || typeof address !== 'string' || address.includes('/')) {
+      throw new ValidationError(`Invalid store address: ${address}`);
+    }
+    this.scheme = scheme;
+    this.address = address;
+  }
+
+  /**
+   * Parse `scheme://address`, a SOAP Store object or an existing StoreRef
+   */
+  static parse(value: StoreRefLike): StoreRef {
+    if (value instanceof StoreRef) return value;
+    if (value && typeof value === 'object') return new StoreRef(value.scheme, value.address);
+    if (typeof value !== 'string' || !value.includes('://')) {
+      throw new ValidationError(`Invalid storeRef "${value}": expected scheme://address`);
+    }
+    const idx = value.indexOf('://');
+    return new StoreRef(value.substring(0, idx), value.substring(idx + 3));
+  }
+
+  static isStoreRef(value: string): boolean {
+    try {
+      StoreRef.parse(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * SOAP Store shape used in Reference, Predicate and query arguments
+   */
+  toStore(): Store {
+    return { scheme: this.scheme, address: this.address };
+  }
+
+  equals(other: StoreRefLike | null | undefined): boolean {
+    if (!other) return false;
+    try {
+      const ref = StoreRef.parse(other);
+      return ref.scheme === this.scheme && ref.address === this.address;
+    } catch {
+      return false;
+    }
+  }
+
+  toString(): string {
+    return `${this.scheme}://${this.address}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { AlfrescoNode } from './Node';
+import { toQName } from './QName';
+
+/**
+ * Filters for listing the trash; dates compare against the deletion time
+ */
+export interface TrashListOptions {
+  deletedBy?: string;
+  deletedAfter?: Date;
+  deletedBefore?: Date;
+}
+
+/**
+ * Deleted node waiting in the archive store, with the sys:archived metadata Alfresco recorded
+ */
+export interface TrashItem extends AlfrescoNode {
+  deletedBy?: string;
+  deletedAt?: Date;
+  /**
+   * Parent the node was deleted from; restore() puts it back there unless given another target
+   */
+  originalParentRef?: string;
+}
+
+/**
+ * Child association as serialized in a d:childassocref value
+ */
+export interface ChildAssociation {
+  parentRef: string;
+  childRef: string;
+  associationType: string;
+  childName: string;
+}
+
+export const ARCHIVED_BY = toQName('sys:archivedBy');
+export const ARCHIVED_DATE = toQName('sys:archivedDate');
+export const ARCHIVED_ORIGINAL_PARENT_ASSOC = toQName('sys:archivedOriginalParentAssoc');
+
+/**
+ * Parse `parentRef|childRef|assocType|childName|isPrimary|nthSibling`
+ */
+export function parseChildAssociation(value: string): ChildAssociation | undefined {
+  const [parentRef, childRef, associationType, childName] = value.split('|');
+  if (!parentRef || !childRef || !associationType || !childName) return undefined;
+  return { parentRef, childRef, associationType, childName };
+}
+
+export function toTrashItem(node: AlfrescoNode): TrashItem {
+  const deletedBy = node.properties[ARCHIVED_BY];
+  const deletedAt = node.properties[ARCHIVED_DATE];
+  const originalParentAssoc = node.properties[ARCHIVED_ORIGINAL_PARENT_ASSOC];
+  const original = typeof originalParentAssoc === 'string' ? parseChildAssociation(originalParentAssoc) : undefined;
+  return {
+    ...node,
+    deletedBy: typeof deletedBy === 'string' ? deletedBy : undefined,
+    // Without a dictionary lookup the date arrives untyped
+    deletedAt: deletedAt instanceof Date ? deletedAt : typeof deletedAt === 'string' ? new Date(deletedAt) : undefined,
+    originalParentRef: original?.parentRef,
+  };
+}
@@ -0,0 +1,161 @@
+import { SoapService } from '../common/SoapService';
+import { asArray } from '../common/soapUtils';
+import { NodeRef, NodeRefLike } from '../models/NodeRef';
+
+/**
+ * Alfresco's AccessStatus enumeration spells the allow value "acepted"
+ */
+export type AccessStatus = 'acepted' | 'declined';
+
+export interface ACE {
+  authority: string;
+  permission: string;
+  accessStatus: AccessStatus;
+}
+
+export interface ACL {
+  nodeRef: string;
+  inheritPermissions: boolean;
+  aces: ACE[];
+}
+
+export interface NodePermissions {
+  nodeRef: string;
+  permissions: string[];
+}
+
+export interface ClassPermissions {
+  className: string;
+  permissions: string[];
+}
+
+export interface PermissionCheck {
+  nodeRef: string;
+  permission: string;
+  accessStatus: AccessStatus;
+}
+
+export interface Ownership {
+  nodeRef: string;
+  owner: string;
+}
+
+export class AccessControlService extends SoapService {
+  constructor(baseUrl: string) {
+    super(`${baseUrl}/alfresco/api/AccessControlService?wsdl`);
+  }
+
+  /**
+   * Get the access control lists of the given nodes, optionally limited to one authority type (e.g. USER, GROUP)
+   */
+  async getACLs(nodeRefs: NodeRefLike | NodeRefLike[], authorityType?: string): Promise<ACL[]> {
+    await this.init();
+    const args: any = { predicate: NodeRef.toPredicate(nodeRefs) };
+    if (authorityType) {
+      args.filter = { authorityType };
+    }
+    const result = await this.call('getACLs', args);
+    return asArray(result?.getACLsReturn).map(toACL);
+  }
+
+  async addACEs(nodeRefs: NodeRefLike | NodeRefLike[], aces: ACE[]): Promise<ACL[]> {
+    await this.init();
+    const result = await this.call('addACEs', { predicate: NodeRef.toPredicate(nodeRefs), aces });
+    return asArray(result?.addACEsReturn).map(toACL);
+  }
+
+  /**
+   * Remove the given entries, or every entry set directly on the nodes when aces is omitted
+   */
+  async removeACEs(nodeRefs: NodeRefLike | NodeRefLike[], aces?: ACE[]): Promise<ACL[]> {
+    await this.init();
+    const result = await this.call('removeACEs', { predicate: NodeRef.toPredicate(nodeRefs), aces: aces || null });
+    return asArray(result?.removeACEsReturn).map(toACL);
+  }
+
+  /**
+   * Get the permissions that can be set on the given nodes
+   */
+  async getPermissions(nodeRefs: NodeRefLike | NodeRefLike[]): Promise<NodePermissions[]> {
+    await this.init();
+    const result = await this.call('getPermissions', { predicate: NodeRef.toPredicate(nodeRefs) });
+    return asArray(result?.getPermissionsReturn).map((r: any) => ({
+      nodeRef: NodeRef.fromReference(r.reference).toString(),
+      permissions: asArray(r.permissions),
+    }));
+  }
+
+  /**
+   * Get the permissions that can be set on instances of the given types or aspects
+   */
+  async getClassPermissions(classNames: string | string[]): Promise<ClassPermissions[]> {
+    await this.init();
+    const result = await this.call('getClassPermissions', { classNames: asArray(classNames) });
+    return asArray(result?.getClassPermissionsReturn).map((r: any) => ({
+      className: r.className,
+      permissions: asArray(r.permissions),
+    }));
+  }
+
+  /**
+   * Check whether the current user holds each permission on each node
+   */
+  async hasPermissions(nodeRefs: NodeRefLike | NodeRefLike[], permissions: string | string[]): Promise<PermissionCheck[]> {
+    await this.init();
+    const result = await this.call('hasPermissions', {
+      predicate: NodeRef.toPredicate(nodeRefs),
+      permissions: asArray(permissions),
+    });
+    return asArray(result?.hasPermissionsReturn).map((r: any) => ({
+      nodeRef: NodeRef.fromReference(r.reference).toString(),
+      permission: r.permission,
+      accessStatus: r.accessStatus,
+    }));
+  }
+
+  async setInheritPermission(nodeRefs: NodeRefLike | NodeRefLike[], inheritPermission: boolean): Promise<ACL[]> {
+    await this.init();
+    const result = await this.call('setInheritPermission', {
+      predicate: NodeRef.toPredicate(nodeRefs),
+      inheritPermission,
+    });
+    return asArray(result?.setInheritPermissionReturn).map(toACL);
+  }
+
+  async getOwners(nodeRefs: NodeRefLike | NodeRefLike[]): Promise<Ownership[]> {
+    await this.init();
+    const result = await this.call('getOwners', { predicate: NodeRef.toPredicate(nodeRefs) });
+    return asArray(result?.getOwnersReturn).map(toOwnership);
+  }
+
+  /**
+   * Give the nodes one owner, as Alfresco's setOwners(predicate, owner) does
+   */
+  async setOwners(nodeRefs: NodeRefLike | NodeRefLike[], owner: string): Promise<Ownership[]> {
+    await this.init();
+    const result = await this.call('setOwners', {
+      predicate: NodeRef.toPredicate(nodeRefs),
+      owner,
+    });
+    return asArray(result?.setOwnersReturn).map(toOwnership);
+  }
+}
+
+function toACL(acl: any): ACL {
+  return {
+    nodeRef: NodeRef.fromReference(acl.reference).toString(),
+    inheritPermissions: acl.inheritPermissions === true || acl.inheritPermissions === 'true',
+    aces: asArray(acl.aces).map((ace: any) => ({
+      authority: ace.authority,
+      permission: ace.permission,
+      accessStatus: ace.accessStatus,
+    })),
+  };
+}
+
+function toOwnership(r: any): Ownership {
+  return {
+    nodeRef: NodeRef.fromReference(r.reference).toString(),
+    owner: r.owner,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { SoapService } from '../common/SoapService';
+import { asArray } from '../common/soapUtils';
+import { NodeRef, NodeRefLike } from '../models/NodeRef';
+import { toNamedValues } from '../models/Cml';
+import { Action, ActionBuilder, ActionCondition, ActionParameters, Rule } from '../models/Action';
+
+export interface ParameterDefinition {
+  name: string;
+  type: string;
+  isMandatory: boolean;
+  displayLabel?: string;
+}
+
+export interface ActionItemDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  adHocPropertiesAllowed: boolean;
+  parameterDefinitions: ParameterDefinition[];
+}
+
+export interface ActionExecutionResult {
+  nodeRef: string;
+  actions: Action[];
+}
+
+export interface RuleFilter {
+  ids?: string[];
+  ruleTypeName?: string;
+  includeInherited?: boolean;
+}
+
+export class ActionService extends SoapService {
+  constructor(baseUrl: string) {
+    super(`${baseUrl}/alfresco/api/ActionService?wsdl`);
+  }
+
+  async getConditionDefinitions(): Promise<ActionItemDefinition[]> {
+    await this.init();
+    const result = await this.call('getConditionDefinitions', {});
+    return asArray(result?.getConditionDefinitionsReturn).map(toDefinition);
+  }
+
+  async getActionDefinitions(): Promise<ActionItemDefinition[]> {
+    await this.init();
+    const result = await this.call('getActionDefinitions', {});
+    return asArray(result?.getActionDefinitionsReturn).map(toDefinition);
+  }
+
+  /**
+   * Run actions against the given nodes right away
+   */
+  async executeActions(nodeRefs: NodeRefLike | NodeRefLike[], actions: Array<Action | ActionBuilder>): Promise<ActionExecutionResult[]> {
+    await this.init();
+    const result = await this.call('executeActions', {
+      predicate: NodeRef.toPredicate(nodeRefs),
+      actions: actions.map(toSoapAction),
+    });
+    return asArray(result?.executeActionsReturn).map((r: any) => ({
+      nodeRef: NodeRef.fromReference(r.reference).toString(),
+      actions: asArray(r.actions).map(fromSoapAction),
+    }));
+  }
+
+  /**
+   * Save actions on a node so they can be run later (e.g. by a scheduled job)
+   */
+  async saveActions(nodeRef: NodeRefLike, actions: Array<Action | ActionBuilder>): Promise<Action[]> {
+    await this.init();
+    const result = await this.call('saveActions', {
+      reference: NodeRef.parse(nodeRef).toReference(),
+      actions: actions.map(toSoapAction),
+    });
+    return asArray(result?.saveActionsReturn).map(fromSoapAction);
+  }
+
+  async getActions(nodeRef: NodeRefLike, filter?: { ids?: string[]; actionName?: string }): Promise<Action[]> {
+    await this.init();
+    const result = await this.call('getActions', {
+      reference: NodeRef.parse(nodeRef).toReference(),
+      filter: filter || null,
+    });
+    return asArray(result?.getActionsReturn).map(fromSoapAction);
+  }
+
+  /**
+   * Remove the given saved actions, or all of them when actions is omitted
+   */
+  async removeActions(nodeRef: NodeRefLike, actions?: Action[]): Promise<void> {
+    await this.init();
+    await this.call('removeActions', {
+      reference: NodeRef.parse(nodeRef).toReference(),
+      actions: actions ? actions.map(toSoapAction) : null,
+    });
+  }
+
+  async getRules(nodeRef: NodeRefLike, filter?: RuleFilter): Promise<Rule[]> {
+    await this.init();
+    const result = await this.call('getRules', {
+      reference: NodeRef.parse(nodeRef).toReference(),
+      ruleFilter: filter || null,
+    });
+    return asArray(result?.getRulesReturn).map(fromSoapRule);
+  }
+
+  async saveRules(nodeRef: NodeRefLike, rules: Rule[]): Promise<Rule[]> {
+    await this.init();
+    const result = await this.call('saveRules', {
+      reference: NodeRef.parse(nodeRef).toReference(),
+      rules: rules.map(toSoapRule),
+    });
+    return asArray(result?.saveRulesReturn).map(fromSoapRule);
+  }
+
+  /**
+   * Remove the given rules, or every rule on the folder when rules is omitted
+   */
+  async removeRules(nodeRef: NodeRefLike, rules?: Rule[]): Promise<void> {
+    await this.init();
+    await this.call('removeRules', {
+      reference: NodeRef.parse(nodeRef).toReference(),
+      rules: rules ? rules.map(toSoapRule) : null,
+    });
+  }
+}
+
+function toBoolean(value: any): boolean {
+  return value === true || value === 'true';
+}
+
+function toDefinition(d: any): ActionItemDefinition {
+  return {
+    name: d.name,
+    title: d.title || undefined,
+    description: d.description || undefined,
+    adHocPropertiesAllowed: toBoolean(d.adHocPropertiesAllowed),
+    parameterDefinitions: asArray(d.parameterDefinition).map((p: any) => ({
+      name: p.name,
+      type: p.type,
+      isMandatory: toBoolean(p.isMandatory),
+      displayLabel: p.displayLabel || undefined,
+    })),
+  };
+}
+
+function fromParameters(values: any): ActionParameters {
+  const parameters: ActionParameters = {};
+  asArray(values).forEach((p: any) => {
+    if (p && p.name) parameters[p.name] = toBoolean(p.isMultiValue) ? asArray(p.values) : p.value;
+  });
+  return parameters;
+}
+
+function toSoapCondition(condition: ActionCondition) {
+  return {
+    id: condition.id,
+    conditionName: condition.conditionName,
+    invertCondition: condition.invertCondition ?? false,
+    parameters: toNamedValues(condition.parameters || {}),
+  };
+}
+
+function toSoapAction(input: Action | ActionBuilder): any {
+  const action = input instanceof ActionBuilder ? input.build() : input;
+  return {
+    id: action.id,
+    actionName: action.actionName,
+    title: action.title,
+    description: action.description,
+    executeAsynchronously: action.executeAsynchronously ?? false,
+    parameters: toNamedValues(action.parameters || {}),
+    conditions: (action.conditions || []).map(toSoapCondition),
+    actions: action.actions ? action.actions.map(toSoapAction) : undefined,
+  };
+}
+
+function fromSoapAction(a: any): Action {
+  return {
+    id: a.id || undefined,
+    actionName: a.actionName,
+    title: a.title || undefined,
+    description: a.description || undefined,
+    executeAsynchronously: toBoolean(a.executeAsynchronously),
+    parameters: fromParameters(a.parameters),
+    conditions: asArray(a.conditions).map((c: any) => ({
+      id: c.id || undefined,
+      conditionName: c.conditionName,
+      invertCondition: toBoolean(c.invertCondition),
+      parameters: fromParameters(c.parameters),
+    })),
+    actions: a.actions ? asArray(a.actions).map(fromSoapAction) : undefined,
+  };
+}
+
+function toSoapRule(rule: Rule): any {
+  return {
+    ruleReference: rule.ruleReference ? NodeRef.parse(rule.ruleReference).toReference() : undefined,
+    ruleTypes: rule.ruleTypes,
+    title: rule.title,
+    description: rule.description,
+    executeAsynchronously: rule.executeAsynchronously ?? false,
+    action: toSoapAction(rule.action),
+  };
+}
+
+function fromSoapRule(r: any): Rule {
+  return {
+    ruleReference: r.ruleReference ? NodeRef.fromReference(r.ruleReference).toString() : undefined,
+    owningReference: r.owningReference ? NodeRef.fromReference(r.owningReference).toString() : undefined,
+    ruleTypes: asArray(r.ruleTypes),
+    title: r.title || undefined,
+    description: r.description || undefined,
+    executeAsynchronously: toBoolean(r.executeAsynchronously),
+    action: fromSoapAction(r.action || {}),
+  };
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { SoapService } from '../common/SoapService';
+import { AlfrescoError } from '../common/errors';
+import { asArray } from '../common/soapUtils';
+import { NamedValue } from '../models/Cml';
+import { toPrefixedName, toQName } from '../models/QName';
+
+export interface UserDetails {
+  userName: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  /**
+   * Every user property keyed by prefixed name (e.g. `cm:organizationId`)
+   */
+  properties: Record<string, string>;
+}
+
+export interface NewUserDetails {
+  userName: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  properties?: Record<string, string>;
+}
+
+export interface UserQueryResult {
+  users: UserDetails[];
+  querySession?: string;
+}
+
+export class AdministrationService extends SoapService {
+  constructor(baseUrl: string) {
+    super(`${baseUrl}/alfresco/api/AdministrationService?wsdl`);
+  }
+
+  /**
+   * Query users whose user name matches the filter (all users when omitted)
+   */
+  async queryUsers(userNameFilter?: string): Promise<UserQueryResult> {
+    await this.init();
+    const result = await this.call('queryUsers', { filter: userNameFilter ? { userName: userNameFilter } : null });
+    return toUserQueryResult(result?.result ?? result?.queryUsersReturn);
+  }
+
+  /**
+   * Fetch the next batch of a user query session
+   */
+  async fetchMoreUsers(querySession: string): Promise<UserQueryResult> {
+    await this.init();
+    const result = await this.call('fetchMoreUsers', { querySession });
+    return toUserQueryResult(result?.result ?? result?.fetchMoreUsersReturn);
+  }
+
+  async getUser(userName: string): Promise<UserDetails> {
+    await this.init();
+    const result = await this.call('getUser', { userName });
+    const user = result?.result ?? result?.getUserReturn;
+    if (!user) {
+      throw new AlfrescoError('User not found: ' + userName, { service: 'AdministrationService', operation: 'getUser' });
+    }
+    return toUserDetails(user);
+  }
+
+  async createUsers(newUsers: NewUserDetails[]): Promise<UserDetails[]> {
+    await this.init();
+    const result = await this.call('createUsers', {
+      newUsers: newUsers.map(user => ({
+        userName: user.userName,
+        password: user.password,
+        properties: toUserProperties(user),
+      })),
+    });
+    return asArray(result?.result ?? result?.createUsersReturn).map(toUserDetails);
+  }
+
+  /**
+   * Update user properties. Only the properties present on each entry are sent.
+   */
+  async updateUsers(users: Array<Omit<NewUserDetails, 'password'>>): Promise<UserDetails[]> {
+    await this.init();
+    const result = await this.call('updateUsers', {
+      users: users.map(user => ({
+        userName: user.userName,
+        properties: toUserProperties(user),
+      })),
+    });
+    return asArray(result?.result ?? result?.updateUsersReturn).map(toUserDetails);
+  }
+
+  /**
+   * Change a password. Administrators may pass an empty oldPassword to reset another user's password.
+   */
+  async changePassword(userName: string, oldPassword: string, newPassword: string): Promise<void> {
+    await this.init();
+    await this.call('changePassword', { userName, oldPassword, newPassword });
+  }
+
+  async deleteUsers(userNames: string | string[]): Promise<void> {
+    await this.init();
+    await this.call('deleteUsers', { userNames: asArray(userNames) });
+  }
+}
+
+function toUserProperties(user: Omit<NewUserDetails, 'password'>): NamedValue[] {
+  const props: Record<string, string> = { ...(user.properties || {}) };
+  if (user.firstName !== undefined) props['cm:firstName'] = user.firstName;
+  if (user.lastName !== undefined) props['cm:lastName'] = user.lastName;
+  if (user.email !== undefined) props['cm:email'] = user.email;
+  return Object.keys(props).map(key => ({ name: toQName(key), isMultiValue: false, value: props[key] }));
+}
+
+function toUserDetails(user: any): UserDetails {
+  const properties: Record<string, string> = {};
+  asArray(user.properties).forEach((p: any) => {
+    if (p && p.name) properties[toPrefixedName(p.name)] = p.value;
+  });
+  return {
+    userName: user.userName,
+    firstName: properties['cm:firstName'],
+    lastName: properties['cm:lastName'],
+    email: properties['cm:email'],
+    properties,
+  };
+}
+
+function toUserQueryResult(result: any): UserQueryResult {
+  return {
+    users: asArray(result?.userDetails).map(toUserDetails),
+    querySession: result?.querySession || undefined,
+  };
+}
\ No newline at end of file
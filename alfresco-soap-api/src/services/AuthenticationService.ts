@@ -1,4 +1,5 @@
 import { SoapService } from '../common/SoapService';
+import { AuthenticationError, ServiceFaultError } from '../common/errors';
 
 export class AuthenticationService extends SoapService {
   constructor(baseUrl: string) {
@@ -7,13 +8,22 @@ export class AuthenticationService extends SoapService {
 
   async login(username: string, password: string): Promise<string> {
     await this.init();
-    const result = await this.call('startSession', { username, password });
+    let result;
+    try {
+      result = await this.call('startSession', { username, password });
+    } catch (error) {
+      // Any fault raised by startSession is a rejected login, whatever the server called it
+      if (error instanceof ServiceFaultError) {
+        throw new AuthenticationError(`Login failed for ${username}: ${error.message}`, { ...error, cause: error });
+      }
+      throw error;
+    }
     // Alfresco returns ticket as result.startSessionReturn.ticket
     return result.startSessionReturn.ticket;
   }
 
-  async logout(ticket: string): Promise<any> {
+  async logout(ticket: string): Promise<void> {
     await this.init();
-    return this.call('endSession', { ticket });
+    await this.call('endSession', { ticket });
   }
 } 
\ No newline at end of file
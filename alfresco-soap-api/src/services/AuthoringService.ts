@@ -0,0 +1,205 @@
+import { SoapService } from '../common/SoapService';
+import { asArray } from '../common/soapUtils';
+import { NodeRef, NodeRefLike } from '../models/NodeRef';
+import { NamedValue } from '../models/Cml';
+import { ContentFormat } from '../models/Node';
+import { toQName } from '../models/QName';
+
+export interface CheckoutResult {
+  originals: string[];
+  workingCopies: string[];
+}
+
+export interface CheckinResult {
+  checkedIn: string[];
+  workingCopies: string[];
+}
+
+export type LockType = 'read' | 'write';
+
+export interface LockStatus {
+  nodeRef: string;
+  lockType?: LockType;
+  lockOwner?: string;
+}
+
+export interface Version {
+  nodeRef: string;
+  label: string;
+  created?: Date;
+  creator?: string;
+  major: boolean;
+  comments: Record<string, string>;
+}
+
+export interface VersionResult {
+  nodes: string[];
+  versions: Version[];
+}
+
+export interface CheckinOptions {
+  comment?: string;
+  major?: boolean;
+  keepCheckedOut?: boolean;
+}
+
+export class AuthoringService extends SoapService {
+  constructor(baseUrl: string) {
+    super(`${baseUrl}/alfresco/api/AuthoringService?wsdl`);
+  }
+
+  /**
+   * Check out nodes, optionally placing the working copies under another folder
+   */
+  async checkout(nodeRefs: NodeRefLike | NodeRefLike[], destination?: NodeRefLike): Promise<CheckoutResult> {
+    await this.init();
+    const args: any = { items: NodeRef.toPredicate(nodeRefs) };
+    if (destination) {
+      args.destination = {
+        ...NodeRef.parse(destination).toReference(),
+        associationType: toQName('cm:contains'),
+        childName: toQName('cm:workingCopy'),
+      };
+    }
+    const result = await this.call('checkout', args);
+    const ret = result?.checkoutReturn || {};
+    return {
+      originals: toNodeRefs(ret.originals),
+      workingCopies: toNodeRefs(ret.workingCopies),
+    };
+  }
+
+  /**
+   * Check in working copies, creating a new version of the originals
+   */
+  async checkin(workingCopies: NodeRefLike | NodeRefLike[], options: CheckinOptions = {}): Promise<CheckinResult> {
+    await this.init();
+    const result = await this.call('checkin', {
+      items: NodeRef.toPredicate(workingCopies),
+      comments: versionComments(options),
+      keepCheckedOut: options.keepCheckedOut ?? false,
+    });
+    const ret = result?.checkinReturn || {};
+    return {
+      checkedIn: toNodeRefs(ret.checkedIn),
+      workingCopies: toNodeRefs(ret.workingCopies),
+    };
+  }
+
+  /**
+   * Check in a node with content supplied by the caller instead of a working copy
+   */
+  async checkinExternal(nodeRef: NodeRefLike, content: string | Buffer, format: ContentFormat, options: CheckinOptions = {}): Promise<string> {
+    await this.init();
+    const result = await this.call('checkinExternal', {
+      items: NodeRef.parse(nodeRef).toReference(),
+      comments: versionComments(options),
+      keepCheckedOut: options.keepCheckedOut ?? false,
+      format,
+      content: Buffer.isBuffer(content) ? content.toString('base64') : Buffer.from(content).toString('base64'),
+    });
+    const [checkedIn] = toNodeRefs(result?.checkinExternalReturn);
+    return checkedIn || NodeRef.parse(nodeRef).toString();
+  }
+
+  /**
+   * Discard working copies and release the originals
+   */
+  async cancelCheckout(workingCopies: NodeRefLike | NodeRefLike[]): Promise<CheckoutResult> {
+    await this.init();
+    const result = await this.call('cancelCheckout', { items: NodeRef.toPredicate(workingCopies) });
+    const ret = result?.cancelCheckoutReturn || {};
+    return {
+      originals: toNodeRefs(ret.originals),
+      workingCopies: toNodeRefs(ret.workingCopies),
+    };
+  }
+
+  async lock(nodeRefs: NodeRefLike | NodeRefLike[], lockType: LockType = 'write', deep: boolean = false): Promise<string[]> {
+    await this.init();
+    const result = await this.call('lock', { items: NodeRef.toPredicate(nodeRefs), deep, lockType });
+    return toNodeRefs(result?.lockReturn);
+  }
+
+  async unlock(nodeRefs: NodeRefLike | NodeRefLike[], deep: boolean = false): Promise<string[]> {
+    await this.init();
+    const result = await this.call('unlock', { items: NodeRef.toPredicate(nodeRefs), deep });
+    return toNodeRefs(result?.unlockReturn);
+  }
+
+  async getLockStatus(nodeRefs: NodeRefLike | NodeRefLike[]): Promise<LockStatus[]> {
+    await this.init();
+    const result = await this.call('getLockStatus', { items: NodeRef.toPredicate(nodeRefs) });
+    return asArray(result?.getLockStatusReturn).map((status: any) => ({
+      nodeRef: NodeRef.fromReference(status.node).toString(),
+      lockType: status.lockType || undefined,
+      lockOwner: status.lockOwner || undefined,
+    }));
+  }
+
+  /**
+   * Create a new version of the given nodes without checking them out
+   */
+  async createVersion(nodeRefs: NodeRefLike | NodeRefLike[], options: { comment?: string; major?: boolean; versionChildren?: boolean } = {}): Promise<VersionResult> {
+    await this.init();
+    const result = await this.call('createVersion', {
+      items: NodeRef.toPredicate(nodeRefs),
+      comments: versionComments(options),
+      versionChildren: options.versionChildren ?? false,
+    });
+    const ret = result?.createVersionReturn || {};
+    return {
+      nodes: toNodeRefs(ret.nodes),
+      versions: asArray(ret.versions).map(toVersion),
+    };
+  }
+
+  async getVersionHistory(nodeRef: NodeRefLike): Promise<Version[]> {
+    await this.init();
+    const result = await this.call('getVersionHistory', { node: NodeRef.parse(nodeRef).toReference() });
+    return asArray(result?.getVersionHistoryReturn?.versions).map(toVersion);
+  }
+
+  async revertVersion(nodeRef: NodeRefLike, versionLabel: string): Promise<void> {
+    await this.init();
+    await this.call('revertVersion', { node: NodeRef.parse(nodeRef).toReference(), versionLabel });
+  }
+
+  async deleteAllVersions(nodeRef: NodeRefLike): Promise<Version[]> {
+    await this.init();
+    const result = await this.call('deleteAllVersions', { node: NodeRef.parse(nodeRef).toReference() });
+    return asArray(result?.deleteAllVersionsReturn?.versions).map(toVersion);
+  }
+}
+
+// Alfresco reads the version comment from "description" and the major/minor flag from "versionType"
+function versionComments(options: { comment?: string; major?: boolean }): NamedValue[] {
+  const comments: NamedValue[] = [
+    { name: 'versionType', isMultiValue: false, value: options.major ? 'MAJOR' : 'MINOR' },
+  ];
+  if (options.comment) {
+    comments.push({ name: 'description', isMultiValue: false, value: options.comment });
+  }
+  return comments;
+}
+
+function toNodeRefs(refs: any): string[] {
+  return asArray(refs)
+    .filter(ref => ref && ref.store && ref.uuid)
+    .map(ref => NodeRef.fromReference(ref).toString());
+}
+
+function toVersion(version: any): Version {
+  const comments: Record<string, string> = {};
+  asArray(version.commentaries).forEach((c: any) => {
+    if (c && c.name) comments[c.name] = c.value;
+  });
+  return {
+    nodeRef: NodeRef.fromReference(version.id).toString(),
+    label: version.label,
+    created: version.created ? new Date(version.created) : undefined,
+    creator: version.creator || undefined,
+    major: version.major === true || version.major === 'true',
+    comments,
+  };
+}
\ No newline at end of file
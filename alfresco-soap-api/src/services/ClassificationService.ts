@@ -0,0 +1,104 @@
+import { SoapService } from '../common/SoapService';
+import { asArray } from '../common/soapUtils';
+import { NodeRef, NodeRefLike } from '../models/NodeRef';
+import { StoreRef, StoreRefLike } from '../models/StoreRef';
+import { toQName } from '../models/QName';
+import { ClassDefinition, toClassDefinition } from './DictionaryService';
+
+export interface Category {
+  nodeRef: string;
+  title: string;
+}
+
+export interface Classification {
+  classification: string;
+  title?: string;
+  description?: string;
+  rootCategory?: Category;
+}
+
+export interface AppliedCategories {
+  classification: string;
+  categories: string[];
+}
+
+export interface CategoriesResult {
+  nodeRef: string;
+  categories: AppliedCategories[];
+}
+
+export class ClassificationService extends SoapService {
+  constructor(baseUrl: string) {
+    super(`${baseUrl}/alfresco/api/ClassificationService?wsdl`);
+  }
+
+  /**
+   * List the classifications (category aspects such as cm:generalclassifiable) defined in a store
+   */
+  async getClassifications(store: StoreRefLike): Promise<Classification[]> {
+    await this.init();
+    const result = await this.call('getClassifications', { store: StoreRef.parse(store).toStore() });
+    return asArray(result?.getClassificationsReturn).map((c: any) => ({
+      classification: c.classification,
+      title: c.title || undefined,
+      description: c.description || undefined,
+      rootCategory: c.rootCategory ? toCategory(c.rootCategory) : undefined,
+    }));
+  }
+
+  async getChildCategories(parentCategory: NodeRefLike): Promise<Category[]> {
+    await this.init();
+    const result = await this.call('getChildCategories', { parentCategory: NodeRef.parse(parentCategory).toReference() });
+    return asArray(result?.getChildCategoriesReturn).map(toCategory);
+  }
+
+  /**
+   * Get the categories applied to the given nodes, grouped by classification
+   */
+  async getCategories(nodeRefs: NodeRefLike | NodeRefLike[]): Promise<CategoriesResult[]> {
+    await this.init();
+    const result = await this.call('getCategories', { items: NodeRef.toPredicate(nodeRefs) });
+    return asArray(result?.getCategoriesReturn).map(toCategoriesResult);
+  }
+
+  /**
+   * Replace the categories of the given nodes for each classification listed
+   */
+  async setCategories(nodeRefs: NodeRefLike | NodeRefLike[], categories: Array<{ classification: string; categories: NodeRefLike[] }>): Promise<CategoriesResult[]> {
+    await this.init();
+    const result = await this.call('setCategories', {
+      items: NodeRef.toPredicate(nodeRefs),
+      categories: categories.map(applied => ({
+        classification: toQName(applied.classification),
+        categories: applied.categories.map(ref => NodeRef.parse(ref).toReference()),
+      })),
+    });
+    return asArray(result?.setCategoriesReturn).map(toCategoriesResult);
+  }
+
+  /**
+   * Get the aspect definition behind a classification
+   */
+  async describeClassification(classification: string): Promise<ClassDefinition> {
+    await this.init();
+    const result = await this.call('describeClassification', { classification: toQName(classification) });
+    return toClassDefinition(result?.describeClassificationReturn || {});
+  }
+}
+
+function toCategory(c: any): Category {
+  return {
+    nodeRef: NodeRef.fromReference(c.id).toString(),
+    title: c.title,
+  };
+}
+
+function toCategoriesResult(r: any): CategoriesResult {
+  return {
+    nodeRef: NodeRef.fromReference(r.node).toString(),
+    categories: asArray(r.categories).map((applied: any) => ({
+      classification: applied.classification,
+      categories: asArray(applied.categories).map((ref: any) => NodeRef.fromReference(ref).toString()),
+    })),
+  };
+}
\ No newline at end of file
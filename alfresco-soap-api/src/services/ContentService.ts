@@ -1,4 +1,10 @@
+import * as http from 'http';
+import * as https from 'https';
+import { Readable, Transform } from 'stream';
 import { SoapService } from '../common/SoapService';
+import { AlfrescoError, httpStatusError, toAlfrescoError } from '../common/errors';
+import { ContentDescriptor, ContentFormat } from '../models/Node';
+import { NodeRef, NodeRefLike } from '../models/NodeRef';
 
 export interface ContentData {
   buffer: Buffer;
@@ -7,196 +13,289 @@ export interface ContentData {
   size: number;
 }
 
+export interface ContentProgress {
+  loaded: number;
+  /**
+   * Bytes expected, when the server or caller announced it
+   */
+  total?: number;
+}
+
+export interface DownloadOptions {
+  /**
+   * Content property to stream (default cm:content, as a full QName)
+   */
+  property?: string;
+  /**
+   * Byte range to fetch; end is inclusive and defaults to the end of the content
+   */
+  range?: { start: number; end?: number };
+  onProgress?(progress: ContentProgress): void;
+}
+
+export interface UploadOptions {
+  /**
+   * Content property to write (default cm:content, as a full QName)
+   */
+  property?: string;
+  encoding?: string;
+  filename?: string;
+  /**
+   * Size of a streamed upload in bytes. Sent as Content-Length and reported as the progress total.
+   */
+  length?: number;
+  onProgress?(progress: ContentProgress): void;
+}
+
+/**
+ * Content body returned by downloadContent, with what the server told about it
+ */
+export type ContentStream = Readable & {
+  mimetype?: string;
+  /**
+   * Bytes in this response
+   */
+  length?: number;
+  /**
+   * Size of the whole content, also known for range requests
+   */
+  totalLength?: number;
+  partial: boolean;
+};
+
 export class ContentService extends SoapService {
+  private baseUrl: string;
+
   constructor(baseUrl: string) {
     super(`${baseUrl}/alfresco/api/ContentService?wsdl`);
+    this.baseUrl = baseUrl;
   }
 
   /**
    * Read content using SOAP ContentService read operation (WSDL-compliant)
    * Returns Content object with URL for download (this is the correct Alfresco design)
    */
-  async read(nodeRef: string, property?: string): Promise<any> {
+  async read(nodeRef: NodeRefLike, property?: string): Promise<ContentDescriptor> {
     await this.init();
-    if (!nodeRef || typeof nodeRef !== 'string' || !nodeRef.includes('://')) {
-      throw new Error('Invalid nodeRef: ' + nodeRef);
-    }
-    const [scheme, rest] = nodeRef.split('://');
-    const [address, id] = rest.includes('/') ? rest.split('/') : [rest, undefined];
-    if (!scheme || !address || !id) {
-      throw new Error('Invalid nodeRef format: ' + nodeRef);
-    }
+    const ref = NodeRef.parse(nodeRef);
     
     // Use exact WSDL format: items (Predicate) + property (string)
-    const items = { 
-      nodes: [{ 
-        store: { scheme, address }, 
-        uuid: id 
-      }] 
-    };
+    const items = ref.toPredicate();
     
     const propertyName = property || '{http://www.alfresco.org/model/content/1.0}content';
     
-    try {
-      const result = await this.call('read', { 
-        items, 
-        property: propertyName 
-      });
-      return result;
-    } catch (error) {
-      console.error('ContentService.read failed:', error);
-      throw error;
-    }
+    const result = await this.call('read', { 
+      items, 
+      property: propertyName 
+    });
+    return toContentDescriptor(result, ref, propertyName);
   }
 
   /**
    * Get download URL for content using SOAP ContentService.read
    * Simple helper that extracts the download URL from SOAP response
    */
-  async getDownloadUrl(nodeRef: string): Promise<string> {
-    console.log(`[ContentService] Getting download URL for nodeRef: ${nodeRef}`);
-    
-    const readResult = await this.read(nodeRef);
-    
-    // Extract download URL from SOAP response
-    let downloadUrl: string | null = null;
-    
-    if (readResult.content && Array.isArray(readResult.content)) {
-      const content = readResult.content[0];
-      if (content && content.url) {
-        downloadUrl = content.url;
-      }
-    } else if (readResult.content && readResult.content.url) {
-      downloadUrl = readResult.content.url;
-    } else if (readResult.readResponse && readResult.readResponse.content) {
-      const content = Array.isArray(readResult.readResponse.content) 
-        ? readResult.readResponse.content[0] 
-        : readResult.readResponse.content;
-      if (content && content.url) {
-        downloadUrl = content.url;
-      }
-    }
+  async getDownloadUrl(nodeRef: NodeRefLike): Promise<string> {
+    const content = await this.read(nodeRef);
+    const downloadUrl = content.url;
 
     if (!downloadUrl) {
-      throw new Error('No download URL found in ContentService.read response');
+      throw new AlfrescoError('No download URL found in ContentService.read response', { service: 'ContentService', operation: 'read' });
     }
 
-    console.log(`[ContentService] Download URL extracted: ${downloadUrl}`);
+    this.logger.debug('Resolved download URL', { service: 'ContentService', operation: 'read', nodeRef: String(nodeRef) });
     return downloadUrl;
   }
 
   /**
-   * Write content to repository using SOAP ContentService write operation (WSDL-compliant)
+   * Stream content from the download servlet. The ticket goes in the Authorization header, never in the URL.
    */
-  async write(nodeRef: string, content: string | Buffer, property?: string, format?: any): Promise<any> {
-    await this.init();
-    if (!nodeRef || typeof nodeRef !== 'string' || !nodeRef.includes('://')) {
-      throw new Error('Invalid nodeRef: ' + nodeRef);
+  async downloadContent(nodeRef: NodeRefLike, options: DownloadOptions = {}): Promise<ContentStream> {
+    const content = await this.read(nodeRef, options.property);
+    if (!content.url) {
+      throw new AlfrescoError('No content URL found in ContentService.read response', { service: 'ContentService', operation: 'read' });
     }
-    const [scheme, rest] = nodeRef.split('://');
-    const [address, id] = rest.includes('/') ? rest.split('/') : [rest, undefined];
-    if (!scheme || !address || !id) {
-      throw new Error('Invalid nodeRef format: ' + nodeRef);
+    const url = this.attachmentUrl(content.url);
+    const headers: http.OutgoingHttpHeaders = { Authorization: ticketAuthorization(await this.getTicket()) };
+    if (options.range) {
+      headers.Range = `bytes=${options.range.start}-${options.range.end ?? ''}`;
     }
+    const response = await this.send('GET', url, headers, null, 'downloadContent');
+
+    const length = response.headers['content-length'] !== undefined ? Number(response.headers['content-length']) : undefined;
+    const rangeTotal = /\/(\d+)$/.exec(response.headers['content-range'] || '');
+    const stream = progressCounter(length, options.onProgress);
+    response.on('error', error => stream.destroy(toAlfrescoError(error, { service: 'ContentService', operation: 'downloadContent' })));
+    response.pipe(stream);
+    return Object.assign(stream, {
+      mimetype: response.headers['content-type']?.split(';')[0] || content.format?.mimetype,
+      length,
+      totalLength: rangeTotal ? Number(rangeTotal[1]) : length,
+      partial: response.statusCode === 206,
+    });
+  }
+
+  /**
+   * Stream content into a node through the upload servlet, avoiding the base64 SOAP envelope of write().
+   * The servlet replaces the whole property, so there is no ranged upload.
+   */
+  async uploadContent(nodeRef: NodeRefLike, content: Readable | Buffer, mimetype: string, options: UploadOptions = {}): Promise<ContentDescriptor> {
+    const ref = NodeRef.parse(nodeRef);
+    const params = new URLSearchParams({ mimetype, encoding: options.encoding || 'UTF-8' });
+    if (options.property) params.set('property', options.property);
+    const filename = encodeURIComponent(options.filename || ref.id);
+    const url = `${new URL(this.baseUrl).origin}/alfresco/upload/${ref.scheme}/${ref.address}/${ref.id}/${filename}?${params}`;
+
+    const total = Buffer.isBuffer(content) ? content.length : options.length;
+    const headers: http.OutgoingHttpHeaders = {
+      Authorization: ticketAuthorization(await this.getTicket()),
+      'Content-Type': mimetype,
+    };
+    if (total !== undefined) headers['Content-Length'] = total;
+    const source = Buffer.isBuffer(content) ? Readable.from([content]) : content;
+    const body = progressCounter(total, options.onProgress);
+    source.on('error', error => body.destroy(error));
+    source.pipe(body);
+
+    const response = await this.send('PUT', url, headers, body, 'uploadContent');
+    response.resume();
+    return this.read(ref, options.property);
+  }
+
+  /**
+   * Write content to repository using SOAP ContentService write operation (WSDL-compliant)
+   */
+  async write(nodeRef: NodeRefLike, content: string | Buffer, property?: string, format?: ContentFormat): Promise<ContentDescriptor> {
+    await this.init();
+    const ref = NodeRef.parse(nodeRef);
     
     // Use exact WSDL format: node (Reference) + property + content (base64) + format
-    const node = { 
-      store: { scheme, address }, 
-      uuid: id 
-    };
+    const node = ref.toReference();
     
     const propertyName = property || '{http://www.alfresco.org/model/content/1.0}content';
     
-    // Convert content to base64 if it's a Buffer
-    const contentData = Buffer.isBuffer(content) ? content.toString('base64') : content;
+    // The content element is base64Binary; strings are sent as their UTF-8 bytes
+    const contentData = (Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8')).toString('base64');
     
-    try {
-      const result = await this.call('write', { 
-        node, 
-        property: propertyName,
-        content: contentData,
-        format: format || { mimetype: 'application/octet-stream', encoding: 'UTF-8' }
-      });
-      return result;
-    } catch (error) {
-      console.error('ContentService.write failed:', error);
-      throw error;
-    }
+    const result = await this.call('write', { 
+      node, 
+      property: propertyName,
+      content: contentData,
+      format: format || { mimetype: 'application/octet-stream', encoding: 'UTF-8' }
+    });
+    return toContentDescriptor(result, ref, propertyName);
   }
 
   /**
    * Clear content from repository using SOAP ContentService clear operation (WSDL-compliant)
    */
-  async clear(nodeRef: string, property?: string): Promise<any> {
+  async clear(nodeRef: NodeRefLike, property?: string): Promise<ContentDescriptor> {
     await this.init();
-    if (!nodeRef || typeof nodeRef !== 'string' || !nodeRef.includes('://')) {
-      throw new Error('Invalid nodeRef: ' + nodeRef);
-    }
-    const [scheme, rest] = nodeRef.split('://');
-    const [address, id] = rest.includes('/') ? rest.split('/') : [rest, undefined];
-    if (!scheme || !address || !id) {
-      throw new Error('Invalid nodeRef format: ' + nodeRef);
-    }
+    const ref = NodeRef.parse(nodeRef);
     
     // Use exact WSDL format: items (Predicate) + property
-    const items = { 
-      nodes: [{ 
-        store: { scheme, address }, 
-        uuid: id 
-      }] 
-    };
+    const items = ref.toPredicate();
     
     const propertyName = property || '{http://www.alfresco.org/model/content/1.0}content';
     
-    try {
-      const result = await this.call('clear', { 
-        items, 
-        property: propertyName 
-      });
-      return result;
-    } catch (error) {
-      console.error('ContentService.clear failed:', error);
-      throw error;
-    }
+    const result = await this.call('clear', { 
+      items, 
+      property: propertyName 
+    });
+    return toContentDescriptor(result, ref, propertyName);
   }
 
   /**
    * Transform content using SOAP ContentService transform operation (WSDL-compliant)
    */
-  async transform(sourceNodeRef: string, property: string, targetNodeRef: string, targetProperty: string, targetFormat: any): Promise<any> {
+  async transform(sourceNodeRef: NodeRefLike, property: string, targetNodeRef: NodeRefLike, targetProperty: string, targetFormat: ContentFormat): Promise<ContentDescriptor> {
     await this.init();
     
-    // Parse source nodeRef
-    const [sourceScheme, sourceRest] = sourceNodeRef.split('://');
-    const [sourceAddress, sourceId] = sourceRest.includes('/') ? sourceRest.split('/') : [sourceRest, undefined];
-    
-    // Parse target nodeRef  
-    const [targetScheme, targetRest] = targetNodeRef.split('://');
-    const [targetAddress, targetId] = targetRest.includes('/') ? targetRest.split('/') : [targetRest, undefined];
-    
     // Use exact WSDL format
-    const source = { 
-      store: { scheme: sourceScheme, address: sourceAddress }, 
-      uuid: sourceId 
-    };
-    
-    const destinationReference = { 
-      store: { scheme: targetScheme, address: targetAddress }, 
-      uuid: targetId 
-    };
+    const source = NodeRef.parse(sourceNodeRef).toReference();
+    const target = NodeRef.parse(targetNodeRef);
+    const destinationReference = target.toReference();
     
-    try {
-      const result = await this.call('transform', { 
-        source,
-        property,
-        destinationReference,
-        destinationProperty: targetProperty,
-        destinationFormat: targetFormat
+    const result = await this.call('transform', { 
+      source,
+      property,
+      destinationReference,
+      destinationProperty: targetProperty,
+      destinationFormat: targetFormat
+    });
+    return toContentDescriptor(result, target, targetProperty);
+  }
+
+  // The /d/a/ servlet path serves the content as an attachment; always talk to the configured server.
+  // Alfresco appends the caller's ticket to content URLs, which must not travel in the query string.
+  private attachmentUrl(contentUrl: string): string {
+    const target = new URL(contentUrl, this.baseUrl);
+    const path = target.pathname.replace('/d/d/', '/d/a/').replace('/download/direct/', '/d/a/');
+    target.searchParams.delete('ticket');
+    target.searchParams.delete('alf_ticket');
+    return `${new URL(this.baseUrl).origin}${path}${target.search}`;
+  }
+
+  // Plain HTTP request to a content servlet; resolves with the response once the status is known to be OK
+  private send(method: string, url: string, headers: http.OutgoingHttpHeaders, body: Readable | null, operation: string): Promise<http.IncomingMessage> {
+    const context = { service: 'ContentService', operation };
+    const { agent, timeout } = this.httpOptions(url);
+    const transport = url.startsWith('https:') ? https : http;
+    const started = Date.now();
+    return new Promise((resolve, reject) => {
+      const request = transport.request(url, { method, headers, agent }, response => {
+        const status = response.statusCode || 0;
+        if (status >= 400) {
+          response.resume();
+          reject(httpStatusError(status, `HTTP ${status} from ${operation}`, context));
+          return;
+        }
+        this.logger.debug(`ContentService.${operation} started`, { ...context, statusCode: status, durationMs: Date.now() - started });
+        resolve(response);
       });
-      return result;
-    } catch (error) {
-      console.error('ContentService.transform failed:', error);
-      throw error;
-    }
+      if (timeout > 0) {
+        request.setTimeout(timeout, () => request.destroy(Object.assign(new Error(`timeout of ${timeout}ms exceeded`), { code: 'ETIMEDOUT' })));
+      }
+      request.on('error', error => reject(toAlfrescoError(error, context)));
+      if (body) {
+        body.on('error', error => request.destroy(error));
+        body.pipe(request);
+      } else {
+        request.end();
+      }
+    });
   }
-} 
\ No newline at end of file
+}
+
+// Alfresco's authentication filter accepts a ticket as Basic credentials for the special user ROLE_TICKET
+function ticketAuthorization(ticket: string): string {
+  return 'Basic ' + Buffer.from(`ROLE_TICKET:${ticket}`).toString('base64');
+}
+
+// Pass-through stream reporting the bytes that went through it
+function progressCounter(total: number | undefined, onProgress?: (progress: ContentProgress) => void): Transform {
+  let loaded = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      loaded += chunk.length;
+      onProgress?.({ loaded, total });
+      callback(null, chunk);
+    },
+  });
+}
+
+// Helper to dig the first Content element out of the shapes ContentService responses come in
+function toContentDescriptor(result: any, nodeRef: NodeRef, property: string): ContentDescriptor {
+  let content = result?.content ?? result?.readResponse?.content ?? result?.writeReturn ?? result?.transformReturn;
+  if (Array.isArray(content)) content = content[0];
+  const ref = content?.node;
+  return {
+    nodeRef: (ref?.store && ref?.uuid ? NodeRef.fromReference(ref) : nodeRef).toString(),
+    property: content?.property || property,
+    length: Number(content?.length ?? 0),
+    url: content?.url || undefined,
+    format: content?.format
+      ? { mimetype: content.format.mimetype, encoding: content.format.encoding }
+      : undefined,
+  };
+}
\ No newline at end of file
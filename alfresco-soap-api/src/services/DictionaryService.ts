@@ -0,0 +1,186 @@
+import { SoapService } from '../common/SoapService';
+import { ServiceFaultError } from '../common/errors';
+import { asArray } from '../common/soapUtils';
+import { toQName } from '../models/QName';
+
+export interface PropertyDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  dataType: string;
+  mandatory: boolean;
+  readOnly: boolean;
+  multiValued: boolean;
+  defaultValue?: string;
+}
+
+export interface AssociationDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  isChild: boolean;
+  sourceClass?: string;
+  targetClass?: string;
+}
+
+export interface ClassDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  isAspect: boolean;
+  superClass?: string;
+  properties: PropertyDefinition[];
+  associations: AssociationDefinition[];
+}
+
+export interface ClassQuery {
+  names: string[];
+  followSubClass?: boolean;
+  followSuperClass?: boolean;
+}
+
+/**
+ * Wraps the SOAP DictionaryService. The content model rarely changes at runtime, so class,
+ * property and subtype lookups are cached per service instance; call clearCache() after deploying a model.
+ * Properties without a definition, such as residual ones, are cached as unknown too.
+ */
+export class DictionaryService extends SoapService {
+  private classCache = new Map<string, ClassDefinition>();
+  // null marks a property the dictionary has no definition for
+  private propertyCache = new Map<string, PropertyDefinition | null>();
+  private subClassCache = new Map<string, Promise<boolean>>();
+
+  constructor(baseUrl: string) {
+    super(`${baseUrl}/alfresco/api/DictionaryService?wsdl`);
+  }
+
+  /**
+   * Get type and aspect definitions. Names may be prefixed (`cm:folder`) or full QNames.
+   */
+  async getClasses(types?: ClassQuery, aspects?: ClassQuery): Promise<ClassDefinition[]> {
+    await this.init();
+    const result = await this.call('getClasses', {
+      types: types ? toClassPredicate(types) : null,
+      aspects: aspects ? toClassPredicate(aspects) : null,
+    });
+    const classes = asArray(result?.getClassesReturn).map(toClassDefinition);
+    classes.forEach(c => this.classCache.set(c.name, c));
+    return classes;
+  }
+
+  /**
+   * Get a single type or aspect definition, served from the cache when possible
+   */
+  async getClass(name: string): Promise<ClassDefinition | undefined> {
+    const qname = toQName(name);
+    const cached = this.classCache.get(qname);
+    if (cached) return cached;
+    // The name may be a type or an aspect; ask for both and keep whichever matches
+    const classes = await this.getClasses({ names: [qname] }, { names: [qname] });
+    return classes.find(c => c.name === qname);
+  }
+
+  async getProperties(propertyNames: string[]): Promise<PropertyDefinition[]> {
+    const qnames = propertyNames.map(toQName);
+    const missing = qnames.filter(name => !this.propertyCache.has(name));
+    if (missing.length > 0) {
+      await this.init();
+      try {
+        await this.fetchProperties(missing);
+      } catch (error) {
+        if (!(error instanceof ServiceFaultError)) throw error;
+        // One unknown name fails the whole request, so ask for the others one at a time
+        if (missing.length === 1) {
+          this.propertyCache.set(missing[0], null);
+        } else {
+          for (const name of missing) await this.getProperties([name]);
+        }
+      }
+    }
+    return qnames
+      .map(name => this.propertyCache.get(name))
+      .filter((p): p is PropertyDefinition => p !== undefined && p !== null);
+  }
+
+  async getAssociations(associationNames: string[]): Promise<AssociationDefinition[]> {
+    await this.init();
+    const result = await this.call('getAssociations', { associationNames: associationNames.map(toQName) });
+    return asArray(result?.getAssociationsReturn).map(toAssociationDefinition);
+  }
+
+  /**
+   * Whether className is isSubClassOfName or one of its subtypes
+   */
+  async isSubClass(className: string, isSubClassOfName: string): Promise<boolean> {
+    const key = `${toQName(className)}|${toQName(isSubClassOfName)}`;
+    let pending = this.subClassCache.get(key);
+    if (!pending) {
+      pending = this.init()
+        .then(() => this.call('isSubClass', { className: toQName(className), isSubClassOfName: toQName(isSubClassOfName) }))
+        .then(result => result?.isSubClassReturn === true || result?.isSubClassReturn === 'true');
+      // Share the in-flight lookup, but do not cache failures
+      pending.catch(() => this.subClassCache.delete(key));
+      this.subClassCache.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async fetchProperties(qnames: string[]) {
+    const result = await this.call('getProperties', { propertyNames: qnames });
+    asArray(result?.getPropertiesReturn).map(toPropertyDefinition).forEach(p => this.propertyCache.set(p.name, p));
+  }
+
+  clearCache() {
+    this.classCache.clear();
+    this.propertyCache.clear();
+    this.subClassCache.clear();
+  }
+}
+
+function toClassPredicate(query: ClassQuery) {
+  return {
+    names: query.names.map(toQName),
+    followSubClass: query.followSubClass ?? false,
+    followSuperClass: query.followSuperClass ?? false,
+  };
+}
+
+function toBoolean(value: any): boolean {
+  return value === true || value === 'true';
+}
+
+function toPropertyDefinition(p: any): PropertyDefinition {
+  return {
+    name: p.name,
+    title: p.title || undefined,
+    description: p.description || undefined,
+    dataType: p.dataType,
+    mandatory: toBoolean(p.mandatory),
+    readOnly: toBoolean(p.readOnly),
+    multiValued: toBoolean(p.multiValued),
+    defaultValue: p.defaultValue ?? undefined,
+  };
+}
+
+function toAssociationDefinition(a: any): AssociationDefinition {
+  return {
+    name: a.name,
+    title: a.title || undefined,
+    description: a.description || undefined,
+    isChild: toBoolean(a.isChild),
+    sourceClass: a.sourceRole?.name || a.sourceClass || undefined,
+    targetClass: a.targetClass || undefined,
+  };
+}
+
+export function toClassDefinition(c: any): ClassDefinition {
+  return {
+    name: c.name,
+    title: c.title || undefined,
+    description: c.description || undefined,
+    isAspect: toBoolean(c.isAspect),
+    superClass: c.superClass || undefined,
+    properties: asArray(c.properties).map(toPropertyDefinition),
+    associations: asArray(c.associations).map(toAssociationDefinition),
+  };
+}
\ No newline at end of file
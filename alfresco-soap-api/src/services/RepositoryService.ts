@@ -1,153 +1,290 @@
 import { SoapService } from '../common/SoapService';
-import { parseNodeRef } from '../models/NodeRef';
+import { NodeNotFoundError, ValidationError } from '../common/errors';
+import { NodeRef, NodeRefLike } from '../models/NodeRef';
+import { StoreRef, StoreRefLike } from '../models/StoreRef';
+import { CML } from '../models/Cml';
+import { AlfrescoNode, Association, AssociationDirection, NodeDescriptor, NodeProperties, Query, QueryResult, Store, StoreDescriptor, StoreKind } from '../models/Node';
+import { NamespaceURI, Namespaces, prefixQName, toPrefixedName, toQName } from '../models/QName';
+import { asArray } from '../common/soapUtils';
+import { PropertyTypes, RowAssociation, columnNames, metaDataTypes, resultRows, toAssociatedNodes, toNodeProperties, toQueryResult } from '../common/resultSet';
+
+export interface UpdateResult {
+  statement: string;
+  updateCount: number;
+  sourceId?: string;
+  source?: string;
+  destination?: string;
+}
+
+/**
+ * Filters for queryAssociated
+ */
+export interface AssociationQuery {
+  /**
+   * `target` (default) for the nodes this node points to, `source` for the nodes pointing to it
+   */
+  direction?: AssociationDirection;
+  /**
+   * Only associations of this type, e.g. cm:references
+   */
+  associationType?: string;
+}
+
+const REPOSITORY_NAMESPACE = 'http://www.alfresco.org/ws/service/repository/1.0';
+
+/**
+ * Looks up the data types of the given property QNames, see setPropertyTypeResolver
+ */
+export type PropertyTypeResolver = (propertyNames: string[]) => Promise<PropertyTypes>;
 
 export class RepositoryService extends SoapService {
+  private propertyTypeResolver: PropertyTypeResolver | null = null;
+
   constructor(baseUrl: string) {
     super(`${baseUrl}/alfresco/api/RepositoryService?wsdl`);
   }
 
-  async getStores(): Promise<any[]> {
+  /**
+   * Set the QueryConfiguration fetch size (rows per batch) sent with query operations.
+   * Pass null to fall back to the server default.
+   */
+  setFetchSize(fetchSize: number | null) {
+    if (fetchSize !== null && (!Number.isInteger(fetchSize) || fetchSize <= 0)) {
+      throw new ValidationError('Invalid fetch size: ' + fetchSize);
+    }
+    this.setSoapHeader(
+      'QueryHeader',
+      fetchSize === null ? null : `<QueryHeader xmlns="${REPOSITORY_NAMESPACE}"><fetchSize>${fetchSize}</fetchSize></QueryHeader>`
+    );
+  }
+
+  /**
+   * Set how property data types are found for columns the result set carries no metadata for.
+   * Without a resolver those values stay strings.
+   */
+  setPropertyTypeResolver(resolver: PropertyTypeResolver | null) {
+    this.propertyTypeResolver = resolver;
+  }
+
+  /**
+   * Every store of the repository, e.g. workspace://SpacesStore and archive://SpacesStore
+   */
+  async getStores(): Promise<StoreDescriptor[]> {
     await this.init();
     const result = await this.call('getStores', {});
-    if (Array.isArray(result)) {
-      return result;
-    } else if (result.getStoresReturn) {
-      return result.getStoresReturn;
-    } else if (result.store) {
-      return result.store;
-    } else if (result.stores) {
-      return result.stores;
-    }
-    return [];
+    const stores: Store[] = Array.isArray(result)
+      ? result
+      : asArray(result?.getStoresReturn ?? result?.store ?? result?.stores);
+    return stores.filter(store => store && store.scheme && store.address).map(toStoreDescriptor);
   }
 
-  async query(store: any, query: any, includeMetaData: boolean): Promise<any> {
+  async query(store: StoreRefLike, query: Query, includeMetaData: boolean): Promise<QueryResult> {
     await this.init();
-    return this.call('query', { store, query, includeMetaData });
+    const storeRef = StoreRef.parse(store);
+    const result = await this.call('query', { store: storeRef.toStore(), query, includeMetaData });
+    return this.toQueryResult(result, storeRef);
   }
 
-  async get(nodeRef: string): Promise<any> {
+  /**
+   * Fetch the next batch of a query session returned by query, queryChildren or queryParents
+   */
+  async fetchMore(querySession: string): Promise<QueryResult> {
     await this.init();
-    if (!nodeRef || typeof nodeRef !== 'string' || !nodeRef.includes('://')) {
-      throw new Error('Invalid nodeRef: ' + nodeRef);
-    }
-    const [scheme, rest] = nodeRef.split('://');
-    const [address, id] = rest.includes('/') ? rest.split('/') : [rest, undefined];
-    if (!scheme || !address || !id) {
-      throw new Error('Invalid nodeRef format: ' + nodeRef);
-    }
-    const where = { nodes: [ { store: { scheme, address }, uuid: id } ] };
-    
+    const result = await this.call('fetchMore', { querySession });
+    return this.toQueryResult(result);
+  }
+
+  async get(nodeRef: NodeRefLike): Promise<NodeDescriptor> {
+    await this.init();
+    const ref = NodeRef.parse(nodeRef);
     // Use the standard get method (no includeMetadata parameter)
-    const result = await this.call('get', { where });
+    const result = await this.call('get', { where: ref.toPredicate() });
     if (result && result.getReturn && Array.isArray(result.getReturn) && result.getReturn.length > 0) {
       return result.getReturn[0];
     }
-    throw new Error('Node not found for nodeRef: ' + nodeRef);
+    throw new NodeNotFoundError('Node not found for nodeRef: ' + nodeRef, { service: 'RepositoryService', operation: 'get' });
   }
 
-  async queryChildren(nodeRef: string): Promise<any[]> {
+  /**
+   * Properties of a node keyed by prefixed QName (full QName outside `namespaces`), converted by
+   * their data types like query results
+   */
+  async getProperties(nodeRef: NodeRefLike, namespaces: Namespaces = NamespaceURI): Promise<NodeProperties> {
+    const values = asArray((await this.get(nodeRef)).properties);
+    const properties = toNodeProperties(values, await this.propertyTypes(values.map(value => value.name)));
+    return Object.fromEntries(Object.entries(properties).map(([name, value]) => [prefixQName(name, namespaces), value]));
+  }
+
+  /**
+   * Child nodes of a node, with the same typed properties as query results
+   */
+  async queryChildren(nodeRef: NodeRefLike): Promise<AlfrescoNode[]> {
     await this.init();
-    if (!nodeRef || typeof nodeRef !== 'string' || !nodeRef.includes('://')) {
-      throw new Error('Invalid nodeRef: ' + nodeRef);
-    }
-    const [scheme, rest] = nodeRef.split('://');
-    const [address, id] = rest.includes('/') ? rest.split('/') : [rest, undefined];
-    if (!scheme || !address || !id) {
-      throw new Error('Invalid nodeRef format: ' + nodeRef);
-    }
-    
-    // Use the Alfresco SOAP queryChildren method
-    const node = { store: { scheme, address }, uuid: id };
-    const result = await this.call('queryChildren', { node });
-    
-    // Extract children from the query result
-    if (result && result.queryReturn && result.queryReturn.resultSet) {
-      const rows = result.queryReturn.resultSet.rows || result.queryReturn.resultSet.row || [];
-      const childrenArray = Array.isArray(rows) ? rows : [rows];
-      return childrenArray.filter(row => row).map((row: any) => {
-        // Extract nodeRef and other data from columns
-        const getCol = (needle: string) => row.columns?.find((c: any) => c.name && c.name.includes(needle))?.value;
-        const protocol = getCol('store-protocol');
-        const identifier = getCol('store-identifier');
-        const uuid = getCol('node-uuid');
-        const nodeRef = protocol && identifier && uuid ? `${protocol}://${identifier}/${uuid}` : row.nodeRef;
-        const name = row.name || getCol('name') || getCol('cm:name');
-        const type = row.type || getCol('type') || getCol('cm:type');
-        
-        return {
-          nodeRef: nodeRef || 'unknown',
-          name: name || 'Unknown',
-          type: type || 'unknown',
-          properties: row.properties || {},
-        };
-      }).filter(node => node.nodeRef !== 'unknown');
-    }
-    return [];
+    const ref = NodeRef.parse(nodeRef);
+    const result = await this.call('queryChildren', { node: ref.toReference() });
+    return (await this.toQueryResult(result, ref.storeRef)).nodes;
   }
 
-  async queryParents(nodeRef: string): Promise<any[]> {
+  async queryParents(nodeRef: NodeRefLike): Promise<AlfrescoNode[]> {
     await this.init();
-    if (!nodeRef || typeof nodeRef !== 'string' || !nodeRef.includes('://')) {
-      throw new Error('Invalid nodeRef: ' + nodeRef);
-    }
-    const [scheme, rest] = nodeRef.split('://');
-    const [address, id] = rest.includes('/') ? rest.split('/') : [rest, undefined];
-    if (!scheme || !address || !id) {
-      throw new Error('Invalid nodeRef format: ' + nodeRef);
+    const ref = NodeRef.parse(nodeRef);
+    const result = await this.call('queryParents', { node: ref.toReference() });
+    return (await this.toQueryResult(result, ref.storeRef)).nodes;
+  }
+
+  /**
+   * Peer associations of a node, such as the documents it references
+   */
+  async queryAssociated(nodeRef: NodeRefLike, options: AssociationQuery = {}): Promise<Association[]> {
+    const direction = options.direction || 'target';
+    if (direction !== 'source' && direction !== 'target') {
+      throw new ValidationError('Invalid association direction: ' + direction);
     }
-    
-    // Use the Alfresco SOAP queryParents method
-    const node = { store: { scheme, address }, uuid: id };
-    const result = await this.call('queryParents', { node });
-    
-    // Extract parents from the query result
-    if (result && result.queryReturn && result.queryReturn.resultSet) {
-      const rows = result.queryReturn.resultSet.rows || result.queryReturn.resultSet.row || [];
-      const parentsArray = Array.isArray(rows) ? rows : [rows];
-      return parentsArray.filter(row => row).map((row: any) => {
-        // Extract nodeRef and other data from columns
-        const getCol = (needle: string) => row.columns?.find((c: any) => c.name && c.name.includes(needle))?.value;
-        const protocol = getCol('store-protocol');
-        const identifier = getCol('store-identifier');
-        const uuid = getCol('node-uuid');
-        const nodeRef = protocol && identifier && uuid ? `${protocol}://${identifier}/${uuid}` : row.nodeRef;
-        const name = row.name || getCol('name') || getCol('cm:name');
-        
-        return {
-          nodeRef: nodeRef || 'unknown',
-          name: name || 'Unknown',
-          properties: row.properties || {},
-        };
-      }).filter(node => node.nodeRef !== 'unknown');
+    const associationType = options.associationType ? toQName(options.associationType) : undefined;
+    await this.init();
+    const ref = NodeRef.parse(nodeRef);
+    const result = await this.call('queryAssociated', {
+      node: ref.toReference(),
+      association: [{ ...(associationType ? { associationType } : {}), direction }],
+    });
+    return toAssociatedNodes(result, await this.rowTypes(result), ref.storeRef).map(({ node, association }) => {
+      const type = association.type || associationType;
+      return {
+        type: type ? toPrefixedName(type) : 'unknown',
+        isChild: false,
+        sourceRef: direction === 'target' ? ref.toString() : node.nodeRef,
+        targetRef: direction === 'target' ? node.nodeRef : ref.toString(),
+        node,
+      };
+    });
+  }
+
+  /**
+   * Child associations of a node, with the association type and child name of each child
+   */
+  async queryChildAssociations(nodeRef: NodeRefLike): Promise<Association[]> {
+    await this.init();
+    const ref = NodeRef.parse(nodeRef);
+    const result = await this.call('queryChildren', { node: ref.toReference() });
+    return toAssociatedNodes(result, await this.rowTypes(result), ref.storeRef)
+      .map(({ node, association }) => toChildAssociation(association, ref.toString(), node.nodeRef, node));
+  }
+
+  /**
+   * Parent associations of a node; the primary parent is marked with isPrimary
+   */
+  async queryParentAssociations(nodeRef: NodeRefLike): Promise<Association[]> {
+    await this.init();
+    const ref = NodeRef.parse(nodeRef);
+    const result = await this.call('queryParents', { node: ref.toReference() });
+    return toAssociatedNodes(result, await this.rowTypes(result), ref.storeRef)
+      .map(({ node, association }) => toChildAssociation(association, node.nodeRef, ref.toString(), node));
+  }
+
+  /**
+   * Apply a CML block using the SOAP update operation and return one result per affected node
+   */
+  async update(statements: CML): Promise<UpdateResult[]> {
+    await this.init();
+    const result = await this.call('update', { statements });
+    const rows = result?.updateReturn ? (Array.isArray(result.updateReturn) ? result.updateReturn : [result.updateReturn]) : [];
+    return rows.filter((row: any) => row).map((row: any) => ({
+      statement: row.statement,
+      updateCount: Number(row.updateCount ?? 0),
+      sourceId: row.sourceId || undefined,
+      source: referenceToNodeRef(row.source),
+      destination: referenceToNodeRef(row.destination),
+    }));
+  }
+
+  /**
+   * nodeRef of the root node of a store
+   */
+  async getRootNode(store: StoreRefLike): Promise<string> {
+    await this.init();
+    const storeRef = StoreRef.parse(store);
+    const result = await this.call('get', { where: { nodes: [rootReference(storeRef)] } });
+    const reference = referenceToNodeRef(asArray(result?.getReturn)[0]?.reference);
+    if (!reference) {
+      throw new NodeNotFoundError('Root node not found for store: ' + storeRef, { service: 'RepositoryService', operation: 'get' });
     }
-    return [];
+    return reference;
   }
 
-  async getRootChildren(_store: string): Promise<any[]> {
+  /**
+   * Children of the root node of a store, e.g. Company Home in workspace://SpacesStore
+   */
+  async getRootChildren(store: StoreRefLike): Promise<AlfrescoNode[]> {
     await this.init();
-    // Hardcode Company Home nodeRef and name as the root node
-    return [{
-      nodeRef: 'workspace://SpacesStore/a0fcfdeb-781d-4562-9bb9-e83ab7581522',
-      name: 'Company Home',
-      type: 'cm:folder',
-      properties: {},
-    }];
+    const storeRef = StoreRef.parse(store);
+    const result = await this.call('queryChildren', { node: rootReference(storeRef) });
+    return (await this.toQueryResult(result, storeRef)).nodes;
+  }
+
+  private async toQueryResult(response: any, store?: StoreRef): Promise<QueryResult> {
+    return toQueryResult(response, await this.rowTypes(response), store);
   }
+
+  private async rowTypes(response: any): Promise<PropertyTypes> {
+    const types = metaDataTypes(response);
+    const untyped = columnNames(resultRows(response)).filter(name => !types[name]);
+    return { ...(await this.propertyTypes(untyped)), ...types };
+  }
+
+  private async propertyTypes(propertyNames: string[]): Promise<PropertyTypes> {
+    if (!this.propertyTypeResolver || propertyNames.length === 0) return {};
+    try {
+      return await this.propertyTypeResolver(propertyNames);
+    } catch (error) {
+      // Untyped values are still usable, so a failed lookup must not fail the read
+      this.logger.warn('Property type lookup failed', { error: (error as Error).message });
+      return {};
+    }
+  }
+}
+
+// A Reference may name its node by path instead of uuid; `/` is the store root
+function rootReference(storeRef: StoreRef) {
+  return { store: storeRef.toStore(), path: '/' };
 }
 
-// Helper to parse store address into protocol and identifier
-function parseStoreAddress(address: string) {
-  if (address.includes('://')) {
-    const [scheme, addr] = address.split('://');
-    return { scheme, address: addr };
+// Stores every repository has that are not live workspaces
+const VERSION_STORES = ['lightWeightVersionStore', 'version2Store'];
+
+function toStoreDescriptor(store: Store): StoreDescriptor {
+  const storeRef = new StoreRef(store.scheme, store.address);
+  return { scheme: storeRef.scheme, address: storeRef.address, storeRef: storeRef.toString(), kind: storeKind(storeRef) };
+}
+
+function storeKind(storeRef: StoreRef): StoreKind {
+  switch (storeRef.scheme) {
+    case 'workspace':
+      return VERSION_STORES.includes(storeRef.address) ? 'version' : 'workspace';
+    case 'archive':
+    case 'user':
+    case 'system':
+      return storeRef.scheme;
+    case 'versionStore':
+      return 'version';
+    default:
+      return 'other';
   }
-  // fallback: assume workspace
-  return { scheme: 'workspace', address };
 }
 
-// Helper to convert nodeRef to PATH for lucene query
-function nodeRefToPath(nodeRef: string): string {
-  if (nodeRef.endsWith('://root')) return '/';
-  return '/';
-} 
\ No newline at end of file
+function toChildAssociation(association: RowAssociation, parentRef: string, childRef: string, node: AlfrescoNode): Association {
+  return {
+    type: association.type ? toPrefixedName(association.type) : 'unknown',
+    isChild: true,
+    childName: association.name ? toPrefixedName(association.name) : undefined,
+    isPrimary: association.isPrimary,
+    sourceRef: parentRef,
+    targetRef: childRef,
+    node,
+  };
+}
+
+// Helper to turn a SOAP Reference back into a nodeRef string
+function referenceToNodeRef(ref: any): string | undefined {
+  if (!ref || !ref.store || !ref.uuid) return undefined;
+  return NodeRef.fromReference(ref).toString();
+}
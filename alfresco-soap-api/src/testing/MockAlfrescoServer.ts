@@ -0,0 +1,1128 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import * as soap from 'soap';
+import { asArray } from '../common/soapUtils';
+import { NodeRef } from '../models/NodeRef';
+import { StoreRef } from '../models/StoreRef';
+import { toQName } from '../models/QName';
+import { MockFault, MockFaultKind } from './MockFault';
+import { MockACE, MockNode, MockNodeFixture, MockPropertyValue, MockRepository, MockVersion } from './MockRepository';
+import { MockPropertyDefinition, MockPropertyType, SETTABLE_PERMISSIONS, associationDefinition, classDefinition, classificationProperty, classifications, isSubType, propertyDefinition, subTypes, superTypes, toPropertyDefinitions } from './mockModel';
+import { ACTION_DEFINITIONS, CONDITION_DEFINITIONS, MockAction, MockRule, runAction, toMockAction, toMockRule, toSoapAction } from './mockActions';
+import { parseQuery } from './mockQuery';
+import { MOCK_SERVICES, serviceWsdl } from './wsdl';
+
+export interface MockAlfrescoServerOptions {
+  /**
+   * Accepted user names and passwords (default admin/admin)
+   */
+  users?: Record<string, string>;
+  /**
+   * Rows per query batch when the client sends no fetch size, and users per queryUsers batch (default 1000)
+   */
+  batchSize?: number;
+  /**
+   * Nodes created under Company Home on start and on every reset()
+   */
+  fixture?: MockNodeFixture[];
+  /**
+   * Category display paths created under cm:generalclassifiable on start and on every reset(), e.g. `Regions/Europe`
+   */
+  categories?: string[];
+  /**
+   * Properties of custom models the dictionary knows besides the built-in ones, keyed by full QName
+   */
+  properties?: Record<string, MockPropertyType>;
+}
+
+/**
+ * Failure to answer matching calls with, see MockAlfrescoServer.injectFault
+ */
+export interface InjectedFault {
+  /**
+   * SOAP operation (`query`, `startSession`, ...), or `download` / `upload` for the content servlets
+   */
+  operation: string;
+  /**
+   * Answer with this fault (an HTTP status for the servlets)
+   */
+  fault?: MockFaultKind;
+  message?: string;
+  /**
+   * Answer with this bare HTTP status instead, e.g. 503 for an unavailable server
+   */
+  status?: number;
+  /**
+   * Wait this many milliseconds before answering, e.g. to run into the client timeout
+   */
+  delay?: number;
+  /**
+   * Number of calls affected (default 1)
+   */
+  times?: number;
+}
+
+interface UserQuerySession {
+  id: string;
+  userNames: string[];
+  offset: number;
+}
+
+interface QuerySession {
+  id: string;
+  nodes: MockNode[];
+  /**
+   * Association columns of each node's row, as queryChildren, queryParents and queryAssociated send them
+   */
+  associations?: Record<string, string>[];
+  offset: number;
+  batchSize: number;
+  includeMetaData: boolean;
+}
+
+const CONTENT = toQName('cm:content');
+const NAME = toQName('cm:name');
+const USER_NAME = toQName('cm:userName');
+const DOWNLOAD_PATH = /^\/alfresco\/(?:d\/[ad]|download\/(?:direct|attach))\/([^/]+)\/([^/]+)\/([^/]+)(?:\/[^/]*)?$/;
+const UPLOAD_PATH = /^\/alfresco\/upload\/([^/]+)\/([^/]+)\/([^/]+)\/[^/]+$/;
+
+/**
+ * Local Alfresco stand-in for tests: the Authentication, Repository, Content, Authoring, AccessControl,
+ * Dictionary, Administration, Action and Classification SOAP services plus the download and upload
+ * servlets, backed by an in-memory MockRepository.
+ *
+ *   const server = new MockAlfrescoServer({ fixture: [{ name: 'Reports', children: [{ name: 'q1.txt', content: 'hello' }] }] });
+ *   const client = new AlfrescoClient({ url: await server.start(), username: 'admin', password: 'admin' });
+ */
+export class MockAlfrescoServer {
+  readonly repository = new MockRepository();
+  /**
+   * Operations received, in order, including the ones answered with an injected failure
+   */
+  readonly calls: string[] = [];
+  /**
+   * Paths and query strings of the download and upload servlet requests received, in order
+   */
+  readonly servletUrls: string[] = [];
+  private server: http.Server | null = null;
+  private baseUrl = '';
+  private initialUsers: Record<string, string>;
+  private users: Record<string, string> = {};
+  // Person properties by user name, full QNames
+  private people = new Map<string, Record<string, string>>();
+  private batchSize: number;
+  private fixture: MockNodeFixture[];
+  private categories: string[];
+  private tickets = new Map<string, string>();
+  private querySessions = new Map<string, QuerySession>();
+  private userQuerySessions = new Map<string, UserQuerySession>();
+  // Saved actions and rules by node id
+  private savedActions = new Map<string, MockAction[]>();
+  private rules = new Map<string, MockRule[]>();
+  private faults: (InjectedFault & { remaining: number })[] = [];
+  private pendingFaults = new WeakMap<http.IncomingMessage, MockFault>();
+  private customProperties: Map<string, MockPropertyDefinition>;
+
+  constructor(options: MockAlfrescoServerOptions = {}) {
+    this.initialUsers = { admin: 'admin', ...options.users };
+    this.batchSize = options.batchSize ?? 1000;
+    this.fixture = options.fixture || [];
+    this.categories = options.categories || [];
+    this.customProperties = toPropertyDefinitions(options.properties || {});
+    this.repository.load(this.fixture);
+    this.categories.forEach(path => this.repository.addCategory(path));
+    this.loadUsers();
+  }
+
+  /**
+   * Listen on 127.0.0.1 (a free port unless given) and return the base URL to configure clients with
+   */
+  async start(port = 0): Promise<string> {
+    if (this.server) return this.baseUrl;
+    const server = http.createServer();
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const handlers = this.serviceHandlers();
+    await Promise.all(MOCK_SERVICES.map(service => new Promise<void>((resolve, reject) => {
+      const path = `/alfresco/api/${service.name}`;
+      soap.listen(server, {
+        path,
+        xml: serviceWsdl(service, this.baseUrl + path),
+        services: { [service.name]: { [service.name]: handlers[service.name] } },
+        callback: (error: unknown) => (error ? reject(error) : resolve()),
+      });
+    })));
+
+    // node-soap chains the services in one listener; put fault injection and the servlets in front of it
+    const soapListeners = server.listeners('request') as http.RequestListener[];
+    server.removeAllListeners('request');
+    server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+      this.handle(req, res, soapListeners).catch(error => {
+        if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end(String(error));
+      });
+    });
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      // Keep-alive connections of the clients would hold close() open
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Base URL of the running server
+   */
+  get url(): string {
+    if (!this.server) throw new Error('MockAlfrescoServer is not started');
+    return this.baseUrl;
+  }
+
+  /**
+   * Number of sessions started and not yet ended or expired
+   */
+  get sessionCount(): number {
+    return this.tickets.size;
+  }
+
+  /**
+   * Restore the initial node tree, categories and users and forget saved actions and rules, injected faults,
+   * recorded calls and servlet URLs and query sessions. Sessions stay valid.
+   */
+  reset() {
+    this.repository.reset();
+    this.repository.load(this.fixture);
+    this.categories.forEach(path => this.repository.addCategory(path));
+    this.loadUsers();
+    this.faults = [];
+    this.calls.length = 0;
+    this.servletUrls.length = 0;
+    this.querySessions.clear();
+    this.userQuerySessions.clear();
+    this.savedActions.clear();
+    this.rules.clear();
+  }
+
+  /**
+   * Add nodes below a display path relative to Company Home (Company Home itself by default)
+   */
+  load(fixture: MockNodeFixture[], parentPath = '/'): string[] {
+    return this.repository.load(fixture, this.repository.nodeRef(parentPath));
+  }
+
+  /**
+   * nodeRef of the node at a display path relative to Company Home
+   */
+  nodeRef(displayPath: string): string {
+    return this.repository.nodeRef(displayPath);
+  }
+
+  /**
+   * Answer the next matching call(s) with a fault, an HTTP status and/or after a delay
+   */
+  injectFault(fault: InjectedFault) {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  clearFaults() {
+    this.faults = [];
+  }
+
+  /**
+   * Invalidate every ticket, as a server restart or session timeout would
+   */
+  expireTickets() {
+    this.tickets.clear();
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse, soapListeners: http.RequestListener[]) {
+    const url = new URL(req.url || '/', this.baseUrl);
+    const servlet = DOWNLOAD_PATH.test(url.pathname) ? 'download' : UPLOAD_PATH.test(url.pathname) ? 'upload' : undefined;
+    const soapAction = String(req.headers.soapaction || '').replace(/"/g, '');
+    const operation = servlet || (soapAction ? soapAction.substring(soapAction.lastIndexOf('/') + 1) : undefined);
+
+    if (servlet) this.servletUrls.push(`${url.pathname}${url.search}`);
+    if (operation) {
+      this.calls.push(operation);
+      const injected = this.takeFault(operation);
+      if (injected?.delay) await new Promise(resolve => setTimeout(resolve, injected.delay));
+      if (injected?.status) {
+        res.writeHead(injected.status, { 'Content-Type': 'text/plain' });
+        res.end(`HTTP ${injected.status} injected by MockAlfrescoServer`);
+        return;
+      }
+      if (injected?.fault) this.pendingFaults.set(req, new MockFault(injected.fault, injected.message));
+    }
+
+    if (servlet === 'download') return this.download(req, res, url);
+    if (servlet === 'upload') return this.upload(req, res, url);
+    if (url.pathname.startsWith('/alfresco/api/')) {
+      soapListeners.forEach(listener => listener.call(this.server, req, res));
+      return;
+    }
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found');
+  }
+
+  private loadUsers() {
+    this.users = { ...this.initialUsers };
+    this.people = new Map(Object.keys(this.users).map(userName => [userName, { [USER_NAME]: userName }]));
+  }
+
+  private takeFault(operation: string): InjectedFault | undefined {
+    const fault = this.faults.find(f => f.operation === operation && f.remaining > 0);
+    if (fault) fault.remaining--;
+    return fault;
+  }
+
+  private serviceHandlers(): Record<string, soap.IServicePort> {
+    const repository = this.repository;
+    return {
+      AuthenticationService: this.operations('AuthenticationService', false, {
+        startSession: ({ username, password }) => {
+          if (!(username in this.users) || this.users[username] !== password) {
+            throw new MockFault('authentication', `AuthenticationException: Failed to authenticate ${username}`);
+          }
+          const ticket = `TICKET_${randomUUID().replace(/-/g, '')}`;
+          this.tickets.set(ticket, username);
+          return { startSessionReturn: { username, ticket, sessionid: randomUUID() } };
+        },
+        endSession: ({ ticket }) => {
+          this.tickets.delete(ticket);
+          return {};
+        },
+      }),
+      RepositoryService: this.operations('RepositoryService', true, {
+        getStores: () => ({ getStoresReturn: repository.stores.map(store => store.toStore()) }),
+        query: ({ store, query, includeMetaData }, headers) => {
+          const nodes = repository.find(parseQuery(query.statement, query.language), StoreRef.parse(store));
+          return { queryReturn: this.startQuery(nodes, headers, includeMetaData === true || includeMetaData === 'true') };
+        },
+        queryChildren: ({ node }, headers) => {
+          const children = repository.children(this.nodeOf(node));
+          return { queryReturn: this.startQuery(children, headers, false, children.map(childAssociation)) };
+        },
+        queryParents: ({ node }, headers) => {
+          const child = this.nodeOf(node);
+          const parent = repository.parentOf(child);
+          return { queryReturn: this.startQuery(parent ? [parent] : [], headers, false, [childAssociation(child)]) };
+        },
+        queryAssociated: ({ node, association }, headers) => {
+          const [filter] = asArray(association);
+          const direction = filter?.direction === 'source' ? 'source' : 'target';
+          const associated = repository.associated(this.nodeOf(node), direction, filter?.associationType || undefined);
+          return {
+            queryReturn: this.startQuery(associated.map(a => a.node), headers, false, associated.map(a => ({ associationType: a.type }))),
+          };
+        },
+        fetchMore: ({ querySession }) => {
+          const session = this.querySessions.get(querySession);
+          if (!session) throw new MockFault('serviceFault', `Query session ${querySession} does not exist`);
+          return { queryReturn: this.nextBatch(session) };
+        },
+        get: ({ where }) => ({
+          getReturn: asArray(where?.nodes).map((ref: any) => {
+            const node = this.nodeOf(ref);
+            return {
+              reference: this.reference(node),
+              type: node.type,
+              aspects: node.aspects,
+              properties: namedValues(repository.propertiesOf(node)),
+            };
+          }),
+        }),
+        update: ({ statements }, _headers, username) => {
+          const restore = repository.snapshot();
+          try {
+            return { updateReturn: this.applyCml(statements || {}, username) };
+          } catch (error) {
+            // A CML block is one transaction
+            restore();
+            throw error;
+          }
+        },
+      }),
+      ContentService: this.operations('ContentService', true, {
+        read: ({ items, property }, headers) => ({
+          content: asArray(items?.nodes).map((ref: any) => this.contentElement(this.nodeOf(ref), property, ticketOf(headers))),
+        }),
+        write: ({ node, property, content, format }, headers) => {
+          const target = this.nodeOf(node);
+          repository.writeContent(target, property, {
+            data: Buffer.from(content || '', 'base64'),
+            mimetype: format?.mimetype || 'application/octet-stream',
+            encoding: format?.encoding || 'UTF-8',
+          });
+          return { writeReturn: this.contentElement(target, property, ticketOf(headers)) };
+        },
+        clear: ({ items, property }, headers) => ({
+          content: asArray(items?.nodes).map((ref: any) => {
+            const node = this.nodeOf(ref);
+            repository.clearContent(node, property);
+            return this.contentElement(node, property, ticketOf(headers));
+          }),
+        }),
+      }),
+      AuthoringService: this.operations('AuthoringService', true, {
+        checkout: ({ items, destination }, _headers, username) => {
+          const originals = asArray(items?.nodes).map((ref: any) => this.nodeOf(ref));
+          const parent = destination ? this.nodeOf(destination) : undefined;
+          const workingCopies = originals.map(node => repository.checkout(node, username!, parent, destination?.associationType || undefined));
+          return { checkoutReturn: { originals: originals.map(node => this.reference(node)), workingCopies: workingCopies.map(node => this.reference(node)) } };
+        },
+        checkin: ({ items, comments, keepCheckedOut }, _headers, username) => {
+          const workingCopies = asArray(items?.nodes).map((ref: any) => this.nodeOf(ref));
+          const checkedIn = workingCopies.map(node => repository.checkin(node, username!, toComments(comments), isTrue(keepCheckedOut)));
+          return {
+            checkinReturn: {
+              checkedIn: checkedIn.map(node => this.reference(node)),
+              workingCopies: isTrue(keepCheckedOut) ? workingCopies.map(node => this.reference(node)) : [],
+            },
+          };
+        },
+        checkinExternal: ({ items, comments, keepCheckedOut, format, content }, _headers, username) => {
+          const node = this.nodeOf(items);
+          repository.writeContent(node, CONTENT, {
+            data: Buffer.from(content || '', 'base64'),
+            mimetype: format?.mimetype || 'application/octet-stream',
+            encoding: format?.encoding || 'UTF-8',
+          });
+          repository.unlock(node);
+          repository.createVersion(node, username!, toComments(comments));
+          if (isTrue(keepCheckedOut)) repository.lock(node, 'READ_ONLY_LOCK', username!);
+          return { checkinExternalReturn: this.reference(node) };
+        },
+        cancelCheckout: ({ items }, _headers, username) => {
+          const workingCopies = asArray(items?.nodes).map((ref: any) => this.nodeOf(ref));
+          const originals = workingCopies.map(node => repository.cancelCheckout(node, username!));
+          return { cancelCheckoutReturn: { originals: originals.map(node => this.reference(node)), workingCopies: [] } };
+        },
+        lock: ({ items, deep, lockType }, _headers, username) => ({
+          lockReturn: asArray(items?.nodes).map((ref: any) => {
+            const node = this.nodeOf(ref);
+            repository.lock(node, lockType === 'read' ? 'READ_ONLY_LOCK' : 'WRITE_LOCK', username!, isTrue(deep));
+            return this.reference(node);
+          }),
+        }),
+        unlock: ({ items, deep }) => ({
+          unlockReturn: asArray(items?.nodes).map((ref: any) => {
+            const node = this.nodeOf(ref);
+            repository.unlock(node, isTrue(deep));
+            return this.reference(node);
+          }),
+        }),
+        getLockStatus: ({ items }) => ({
+          getLockStatusReturn: asArray(items?.nodes).map((ref: any) => {
+            const node = this.nodeOf(ref);
+            const lock = repository.lockOf(node);
+            return {
+              node: this.reference(node),
+              ...(lock ? { lockType: lock.type === 'READ_ONLY_LOCK' ? 'read' : 'write', lockOwner: lock.owner } : {}),
+            };
+          }),
+        }),
+        createVersion: ({ items, comments, versionChildren }, _headers, username) => {
+          const nodes: MockNode[] = [];
+          const add = (node: MockNode) => {
+            nodes.push(node);
+            if (isTrue(versionChildren)) repository.children(node).forEach(add);
+          };
+          asArray(items?.nodes).forEach((ref: any) => add(this.nodeOf(ref)));
+          const versions = nodes.map(node => repository.createVersion(node, username!, toComments(comments)));
+          return {
+            createVersionReturn: { nodes: nodes.map(node => this.reference(node)), versions: versions.map(version => this.version(version)) },
+          };
+        },
+        getVersionHistory: ({ node }) => ({
+          getVersionHistoryReturn: { versions: repository.versionHistory(this.nodeOf(node)).map(version => this.version(version)) },
+        }),
+        revertVersion: ({ node, versionLabel }) => {
+          repository.revertVersion(this.nodeOf(node), versionLabel);
+          return {};
+        },
+        deleteAllVersions: ({ node }) => {
+          repository.deleteAllVersions(this.nodeOf(node));
+          return { deleteAllVersionsReturn: { versions: [] } };
+        },
+      }),
+      AccessControlService: this.operations('AccessControlService', true, {
+        getACLs: ({ predicate, filter }) => ({
+          getACLsReturn: this.predicateNodes(predicate).map(node => this.acl(node, filter?.authorityType || undefined)),
+        }),
+        addACEs: ({ predicate, aces }) => ({
+          addACEsReturn: this.predicateNodes(predicate).map(node => {
+            repository.addACEs(node, toACEs(aces));
+            return this.acl(node);
+          }),
+        }),
+        removeACEs: ({ predicate, aces }) => ({
+          removeACEsReturn: this.predicateNodes(predicate).map(node => {
+            const entries = toACEs(aces);
+            repository.removeACEs(node, entries.length ? entries : undefined);
+            return this.acl(node);
+          }),
+        }),
+        getPermissions: ({ predicate }) => ({
+          getPermissionsReturn: this.predicateNodes(predicate).map(node => ({ reference: this.reference(node), permissions: SETTABLE_PERMISSIONS })),
+        }),
+        getClassPermissions: ({ classNames }) => ({
+          getClassPermissionsReturn: asArray(classNames).map((className: string) => ({ className, permissions: SETTABLE_PERMISSIONS })),
+        }),
+        hasPermissions: ({ predicate, permissions }, _headers, username) => ({
+          hasPermissionsReturn: this.predicateNodes(predicate).flatMap(node => asArray(permissions).map((permission: string) => ({
+            reference: this.reference(node),
+            permission,
+            accessStatus: repository.hasPermission(node, username!, permission) ? 'acepted' : 'declined',
+          }))),
+        }),
+        setInheritPermission: ({ predicate, inheritPermission }) => ({
+          setInheritPermissionReturn: this.predicateNodes(predicate).map(node => {
+            repository.setInheritPermissions(node, isTrue(inheritPermission));
+            return this.acl(node);
+          }),
+        }),
+        getOwners: ({ predicate }) => ({
+          getOwnersReturn: this.predicateNodes(predicate).map(node => ({ reference: this.reference(node), owner: repository.ownerOf(node) })),
+        }),
+        setOwners: ({ predicate, owner }) => ({
+          setOwnersReturn: this.predicateNodes(predicate).map(node => {
+            repository.setOwner(node, owner);
+            return { reference: this.reference(node), owner: repository.ownerOf(node) };
+          }),
+        }),
+      }),
+      AdministrationService: this.operations('AdministrationService', true, {
+        // Alfresco matches the filter as a regular expression against the whole user name
+        queryUsers: ({ filter }) => {
+          const pattern = filter?.userName ? new RegExp(`^(?:${filter.userName})$`) : undefined;
+          const userNames = Array.from(this.people.keys()).filter(userName => !pattern || pattern.test(userName));
+          return { result: this.nextUsers({ id: randomUUID(), userNames, offset: 0 }) };
+        },
+        fetchMoreUsers: ({ querySession }) => {
+          const session = this.userQuerySessions.get(querySession);
+          if (!session) throw new MockFault('serviceFault', `Query session ${querySession} does not exist`);
+          return { result: this.nextUsers(session) };
+        },
+        getUser: ({ userName }) => (this.people.has(userName) ? { result: this.userDetails(userName) } : {}),
+        createUsers: ({ newUsers }, _headers, username) => {
+          this.checkAdmin(username);
+          return {
+            result: asArray(newUsers).map((user: any) => {
+              if (user.userName in this.users) throw new MockFault('serviceFault', `AlfrescoRuntimeException: User ${user.userName} already exists`);
+              this.users[user.userName] = user.password;
+              this.people.set(user.userName, { ...toUserProperties(user.properties), [USER_NAME]: user.userName });
+              return this.userDetails(user.userName);
+            }),
+          };
+        },
+        updateUsers: ({ users }, _headers, username) => {
+          this.checkAdmin(username);
+          return {
+            result: asArray(users).map((user: any) => {
+              const person = this.person(user.userName);
+              Object.assign(person, toUserProperties(user.properties));
+              return this.userDetails(user.userName);
+            }),
+          };
+        },
+        changePassword: ({ userName, oldPassword, newPassword }, _headers, username) => {
+          this.person(userName);
+          if (username !== 'admin') {
+            if (username !== userName) throw new MockFault('accessDenied');
+            if (this.users[userName] !== oldPassword) throw new MockFault('authentication', 'AuthenticationException: The old password is not correct');
+          }
+          this.users[userName] = newPassword;
+          return {};
+        },
+        deleteUsers: ({ userNames }, _headers, username) => {
+          this.checkAdmin(username);
+          asArray(userNames).forEach((userName: string) => {
+            this.person(userName);
+            delete this.users[userName];
+            this.people.delete(userName);
+            // A deleted user's tickets stop working
+            Array.from(this.tickets).filter(([, owner]) => owner === userName).forEach(([ticket]) => this.tickets.delete(ticket));
+          });
+          return {};
+        },
+      }),
+      ActionService: this.operations('ActionService', true, {
+        getConditionDefinitions: () => ({ getConditionDefinitionsReturn: CONDITION_DEFINITIONS }),
+        getActionDefinitions: () => ({ getActionDefinitionsReturn: ACTION_DEFINITIONS }),
+        executeActions: ({ predicate, actions }) => {
+          const nodes = this.predicateNodes(predicate);
+          const mockActions = asArray(actions).map(toMockAction);
+          const restore = repository.snapshot();
+          try {
+            nodes.forEach(node => mockActions.forEach(action => runAction(repository, action, node)));
+          } catch (error) {
+            restore();
+            throw error;
+          }
+          return { executeActionsReturn: nodes.map(node => ({ reference: this.reference(node), actions: mockActions.map(toSoapAction) })) };
+        },
+        saveActions: ({ reference, actions }) => {
+          const node = this.nodeOf(reference);
+          const saved = asArray(actions).map(toMockAction);
+          const ids = new Set(saved.map(action => action.id));
+          this.savedActions.set(node.id, [...(this.savedActions.get(node.id) || []).filter(action => !ids.has(action.id)), ...saved]);
+          return { saveActionsReturn: saved.map(toSoapAction) };
+        },
+        getActions: ({ reference, filter }) => {
+          const ids = asArray(filter?.ids);
+          const actions = (this.savedActions.get(this.nodeOf(reference).id) || [])
+            .filter(action => !ids.length || ids.includes(action.id))
+            .filter(action => !filter?.actionName || action.actionName === filter.actionName);
+          return { getActionsReturn: actions.map(toSoapAction) };
+        },
+        removeActions: ({ reference, actions }) => {
+          const node = this.nodeOf(reference);
+          const ids = asArray(actions).map((action: any) => action?.id).filter(Boolean);
+          this.savedActions.set(node.id, ids.length ? (this.savedActions.get(node.id) || []).filter(action => !ids.includes(action.id)) : []);
+          return {};
+        },
+        getRules: ({ reference, ruleFilter }) => {
+          const ids = asArray(ruleFilter?.ids);
+          const rules = this.rulesOf(this.nodeOf(reference), isTrue(ruleFilter?.includeInherited))
+            .filter(({ folder, rule }) => !ids.length || ids.includes(rule.id) || ids.includes(this.ruleRef(folder, rule)))
+            .filter(({ rule }) => !ruleFilter?.ruleTypeName || rule.ruleTypes.includes(ruleFilter.ruleTypeName));
+          return { getRulesReturn: rules.map(({ folder, rule }) => this.soapRule(folder, rule)) };
+        },
+        saveRules: ({ reference, rules }) => {
+          const folder = this.nodeOf(reference);
+          const saved = asArray(rules).map(toMockRule);
+          const ids = new Set(saved.map(rule => rule.id));
+          this.rules.set(folder.id, [...(this.rules.get(folder.id) || []).filter(rule => !ids.has(rule.id)), ...saved]);
+          return { saveRulesReturn: saved.map(rule => this.soapRule(folder, rule)) };
+        },
+        removeRules: ({ reference, rules }) => {
+          const folder = this.nodeOf(reference);
+          const ids = asArray(rules).map((rule: any) => rule?.ruleReference?.uuid).filter(Boolean);
+          this.rules.set(folder.id, ids.length ? (this.rules.get(folder.id) || []).filter(rule => !ids.includes(rule.id)) : []);
+          return {};
+        },
+      }),
+      DictionaryService: this.operations('DictionaryService', true, {
+        getClasses: ({ types, aspects }) => {
+          const names = new Set([...classNames(types, false), ...classNames(aspects, true)]);
+          return { getClassesReturn: Array.from(names, name => classDefinition(name)) };
+        },
+        getProperties: ({ propertyNames }) => ({
+          getPropertiesReturn: asArray(propertyNames).map((name: string) => {
+            const definition = this.propertyDefinition(toQName(name));
+            if (!definition) throw new MockFault('serviceFault', `DictionaryException: Property ${name} not found`);
+            return definition;
+          }),
+        }),
+        getAssociations: ({ associationNames }) => ({
+          getAssociationsReturn: asArray(associationNames).map((name: string) => {
+            const definition = associationDefinition(toQName(name));
+            if (!definition) throw new MockFault('serviceFault', `DictionaryException: Association ${name} not found`);
+            return definition;
+          }),
+        }),
+        isSubClass: ({ className, isSubClassOfName }) => ({
+          isSubClassReturn: isSubType(toQName(className), toQName(isSubClassOfName)),
+        }),
+      }),
+      ClassificationService: this.operations('ClassificationService', true, {
+        getClassifications: ({ store }) => {
+          const storeRef = repository.storeRoot(store).store;
+          return {
+            getClassificationsReturn: classifications().flatMap(classification => {
+              const root = repository.classificationRoot(classification);
+              if (!root || root.store !== storeRef) return [];
+              return [{ classification, title: root.properties[NAME], rootCategory: this.category(root) }];
+            }),
+          };
+        },
+        getChildCategories: ({ parentCategory }) => ({
+          getChildCategoriesReturn: repository
+            .children(this.nodeOf(parentCategory))
+            .filter(child => isSubType(child.type, toQName('cm:category')))
+            .map(child => this.category(child)),
+        }),
+        getCategories: ({ items }) => ({
+          getCategoriesReturn: this.predicateNodes(items).map(node => this.appliedCategories(node)),
+        }),
+        // Replaces the categories of each classification sent, adding the classification aspect where missing
+        setCategories: ({ items, categories }) => {
+          const applied = asArray(categories).filter((a: any) => a?.classification).map((a: any) => {
+            const classification = toQName(a.classification);
+            const property = classificationProperty(classification);
+            if (!property) throw new MockFault('serviceFault', `Classification ${a.classification} is not supported by MockAlfrescoServer`);
+            const refs = asArray(a.categories).map((ref: any) => repository.refOf(this.nodeOf(ref).id));
+            return { classification, property, refs };
+          });
+          return {
+            setCategoriesReturn: this.predicateNodes(items).map(node => {
+              applied.forEach(({ classification, property, refs }) => repository.addAspect(node, classification, { [property]: refs }));
+              return this.appliedCategories(node);
+            }),
+          };
+        },
+        describeClassification: ({ classification }) => {
+          const qname = toQName(classification);
+          const definition = classificationProperty(qname) ? classDefinition(qname) : undefined;
+          if (!definition) throw new MockFault('serviceFault', `ClassificationServiceException: Classification ${classification} does not exist`);
+          return { describeClassificationReturn: definition };
+        },
+      }),
+    };
+  }
+
+  // Wrap handlers with the ticket check, injected faults and the conversion to SOAP faults
+  private operations(
+    serviceName: string,
+    secured: boolean,
+    handlers: Record<string, (args: any, headers: any, username?: string) => any>
+  ): soap.IServicePort {
+    const operations: soap.IServicePort = {};
+    Object.keys(handlers).forEach(name => {
+      operations[name] = async (args: any, _callback: unknown, headers: any, req: http.IncomingMessage) => {
+        try {
+          const injected = this.pendingFaults.get(req);
+          if (injected) throw injected;
+          const username = secured ? this.checkTicket(ticketOf(headers)) : undefined;
+          return handlers[name](args || {}, headers, username);
+        } catch (error) {
+          const fault = error instanceof MockFault ? error : new MockFault('serviceFault', (error as Error).message);
+          throw fault.toSoapFault(serviceName);
+        }
+      };
+    });
+    return operations;
+  }
+
+  private checkTicket(ticket: string | undefined): string {
+    const username = ticket ? this.tickets.get(ticket) : undefined;
+    if (!username) throw new MockFault('invalidTicket');
+    return username;
+  }
+
+  private startQuery(nodes: MockNode[], headers: any, includeMetaData: boolean, associations?: Record<string, string>[]) {
+    const fetchSize = Number(headers?.QueryHeader?.fetchSize);
+    return this.nextBatch({
+      id: randomUUID(),
+      nodes,
+      associations,
+      offset: 0,
+      batchSize: fetchSize > 0 ? fetchSize : this.batchSize,
+      includeMetaData,
+    });
+  }
+
+  private nextBatch(session: QuerySession) {
+    const batch = session.nodes.slice(session.offset, session.offset + session.batchSize);
+    const rows = batch.map((node, i) => ({
+      rowIndex: session.offset + i,
+      columns: [
+        ...namedValues(this.repository.propertiesOf(node)),
+        ...namedValues(session.associations?.[session.offset + i] || {}),
+      ],
+      score: 1,
+      node: { id: node.id, type: node.type, aspects: node.aspects },
+    }));
+    session.offset += batch.length;
+    const more = session.offset < session.nodes.length;
+    if (more) {
+      this.querySessions.set(session.id, session);
+    } else {
+      this.querySessions.delete(session.id);
+    }
+    const resultSet: Record<string, unknown> = {};
+    if (session.includeMetaData) {
+      const names = new Set(rows.flatMap(row => row.columns.map(column => column.name)));
+      resultSet.metaData = {
+        valueDefs: Array.from(names).map(name => ({ name, dataType: this.propertyDefinition(name)?.dataType || toQName('d:text') })),
+      };
+    }
+    resultSet.rows = rows;
+    resultSet.totalRowCount = session.nodes.length;
+    return more ? { querySession: session.id, resultSet } : { resultSet };
+  }
+
+  private applyCml(cml: any, username?: string): any[] {
+    const repository = this.repository;
+    const created = new Map<string, MockNode>();
+    const results: any[] = [];
+    const nodeOf = (ref: any) => this.nodeOf(ref);
+    const targets = (statement: any): MockNode[] => {
+      if (statement.where_id) {
+        const node = created.get(statement.where_id);
+        if (!node) throw new MockFault('serviceFault', `CML id ${statement.where_id} was not created in this block`);
+        return [node];
+      }
+      return asArray(statement.where?.nodes).map(nodeOf);
+    };
+    const parentOf = (statement: any, field: 'parent' | 'to') => {
+      const id = statement[`${field}_id`];
+      const parent = id ? created.get(id) : statement[field] ? nodeOf(statement[field]) : undefined;
+      if (!parent) throw new MockFault('serviceFault', `CML statement has no ${field}`);
+      return {
+        parent,
+        associationType: statement[field]?.associationType || statement.associationType || undefined,
+        childName: statement[field]?.childName || statement.childName || undefined,
+      };
+    };
+
+    asArray(cml.create).forEach((statement: any) => {
+      const { parent, associationType, childName } = parentOf(statement, 'parent');
+      const node = repository.create(parent, statement.type, toProperties(statement.property), associationType, childName);
+      this.runInboundRules(node);
+      if (statement.id) created.set(statement.id, node);
+      results.push({ statement: 'create', updateCount: 1, ...(statement.id ? { sourceId: statement.id } : {}), destination: this.reference(node) });
+    });
+    asArray(cml.addAspect).forEach((statement: any) => targets(statement).forEach(node => {
+      repository.addAspect(node, statement.aspect, toProperties(statement.property));
+      results.push({ statement: 'addAspect', updateCount: 1, source: this.reference(node), destination: this.reference(node) });
+    }));
+    asArray(cml.removeAspect).forEach((statement: any) => targets(statement).forEach(node => {
+      repository.removeAspect(node, statement.aspect);
+      results.push({ statement: 'removeAspect', updateCount: 1, source: this.reference(node), destination: this.reference(node) });
+    }));
+    asArray(cml.update).forEach((statement: any) => targets(statement).forEach(node => {
+      repository.update(node, toProperties(statement.property));
+      results.push({ statement: 'update', updateCount: 1, source: this.reference(node), destination: this.reference(node) });
+    }));
+    asArray(cml.delete).forEach((statement: any) => targets(statement).forEach(node => {
+      results.push({ statement: 'delete', updateCount: 1, source: this.reference(node) });
+      repository.delete(node, username);
+    }));
+    asArray(cml.move).forEach((statement: any) => targets(statement).forEach(node => {
+      const { parent, associationType, childName } = parentOf(statement, 'to');
+      const source = this.reference(node);
+      repository.move(node, parent, associationType, childName);
+      results.push({ statement: 'move', updateCount: 1, source, destination: this.reference(node) });
+    }));
+    asArray(cml.copy).forEach((statement: any) => targets(statement).forEach(node => {
+      const { parent, associationType, childName } = parentOf(statement, 'to');
+      const copy = repository.copy(node, parent, statement.children === true || statement.children === 'true', associationType, childName);
+      results.push({ statement: 'copy', updateCount: 1, source: this.reference(node), destination: this.reference(copy) });
+    }));
+    const end = (statement: any, field: 'from' | 'to'): MockNode[] => {
+      const id = statement[`${field}_id`];
+      if (id) {
+        const node = created.get(id);
+        if (!node) throw new MockFault('serviceFault', `CML id ${id} was not created in this block`);
+        return [node];
+      }
+      return asArray(statement[field]?.nodes).map(nodeOf);
+    };
+    asArray(cml.createAssociation).forEach((statement: any) => end(statement, 'from').forEach(source => end(statement, 'to').forEach(target => {
+      repository.createAssociation(source, target, statement.association);
+      results.push({ statement: 'createAssociation', updateCount: 1, source: this.reference(source), destination: this.reference(target) });
+    })));
+    asArray(cml.removeAssociation).forEach((statement: any) => end(statement, 'from').forEach(source => end(statement, 'to').forEach(target => {
+      repository.removeAssociation(source, target, statement.association);
+      results.push({ statement: 'removeAssociation', updateCount: 1, source: this.reference(source), destination: this.reference(target) });
+    })));
+    ['addChild', 'removeChild'].forEach(kind => {
+      if (asArray(cml[kind]).length) throw new MockFault('serviceFault', `CML ${kind} is not supported by MockAlfrescoServer`);
+    });
+    return results;
+  }
+
+  // A Reference names its node by uuid or by a child association path from the store root
+  private nodeOf(ref: any): MockNode {
+    if (!ref?.uuid && ref?.path && ref.store) return this.repository.resolve(StoreRef.parse(ref.store), ref.path);
+    return this.repository.getNode(NodeRef.fromReference(ref));
+  }
+
+  private reference(node: MockNode) {
+    return { store: StoreRef.parse(node.store).toStore(), uuid: node.id };
+  }
+
+  private checkAdmin(username?: string) {
+    if (username !== 'admin') throw new MockFault('accessDenied', 'AccessDeniedException: Access Denied. Only administrators may manage users');
+  }
+
+  private person(userName: string): Record<string, string> {
+    const person = this.people.get(userName);
+    if (!person) throw new MockFault('serviceFault', `AlfrescoRuntimeException: User ${userName} does not exist`);
+    return person;
+  }
+
+  private userDetails(userName: string) {
+    return { userName, properties: namedValues(this.person(userName)) };
+  }
+
+  private nextUsers(session: UserQuerySession) {
+    const batch = session.userNames.slice(session.offset, session.offset + this.batchSize);
+    session.offset += batch.length;
+    const more = session.offset < session.userNames.length;
+    if (more) {
+      this.userQuerySessions.set(session.id, session);
+    } else {
+      this.userQuerySessions.delete(session.id);
+    }
+    const userDetails = batch.map(userName => this.userDetails(userName));
+    return more ? { querySession: session.id, userDetails } : { userDetails };
+  }
+
+  // Rules of a folder, then those of its ancestors when inherited ones are asked for
+  private rulesOf(folder: MockNode, includeInherited: boolean): { folder: MockNode; rule: MockRule }[] {
+    const rules: { folder: MockNode; rule: MockRule }[] = [];
+    for (let current: MockNode | undefined = folder; current; current = includeInherited ? this.repository.parentOf(current) : undefined) {
+      const owner = current;
+      (this.rules.get(owner.id) || []).forEach(rule => rules.push({ folder: owner, rule }));
+    }
+    return rules;
+  }
+
+  // Inbound rules of a folder run when a node is created in it
+  private runInboundRules(node: MockNode) {
+    const parent = this.repository.parentOf(node);
+    if (!parent) return;
+    this.rulesOf(parent, false)
+      .filter(({ rule }) => rule.ruleTypes.includes('inbound'))
+      .forEach(({ rule }) => runAction(this.repository, rule.action, node));
+  }
+
+  private ruleRef(folder: MockNode, rule: MockRule): string {
+    return `${folder.store}/${rule.id}`;
+  }
+
+  private soapRule(folder: MockNode, rule: MockRule) {
+    return {
+      ruleReference: NodeRef.parse(this.ruleRef(folder, rule)).toReference(),
+      owningReference: this.reference(folder),
+      ruleTypes: rule.ruleTypes,
+      ...(rule.title ? { title: rule.title } : {}),
+      ...(rule.description ? { description: rule.description } : {}),
+      executeAsynchronously: rule.executeAsynchronously,
+      action: toSoapAction(rule.action),
+    };
+  }
+
+  private category(node: MockNode) {
+    return { id: this.reference(node), title: node.properties[NAME] };
+  }
+
+  private appliedCategories(node: MockNode) {
+    return {
+      node: this.reference(node),
+      categories: classifications()
+        .filter(classification => node.aspects.includes(classification))
+        .map(classification => ({
+          classification,
+          categories: asArray(node.properties[classificationProperty(classification)!])
+            .filter((ref: string) => NodeRef.isNodeRef(ref))
+            .map((ref: string) => NodeRef.parse(ref).toReference()),
+        })),
+    };
+  }
+
+  private predicateNodes(predicate: any): MockNode[] {
+    return asArray(predicate?.nodes).map((ref: any) => this.nodeOf(ref));
+  }
+
+  // Only the entries set on the node, optionally of one authority type (USER, GROUP, EVERYONE, ...)
+  private acl(node: MockNode, authorityType?: string) {
+    const { inheritPermissions, aces } = this.repository.aclOf(node);
+    return {
+      reference: this.reference(node),
+      inheritPermissions,
+      aces: authorityType ? aces.filter(ace => authorityTypeOf(ace.authority) === authorityType) : aces,
+    };
+  }
+
+  private version(version: MockVersion) {
+    return {
+      id: NodeRef.parse(this.repository.versionRef(version)).toReference(),
+      label: version.label,
+      created: version.created,
+      creator: version.creator,
+      major: version.major,
+      commentaries: namedValues(version.comments),
+    };
+  }
+
+  private propertyDefinition(qname: string): MockPropertyDefinition | undefined {
+    return this.customProperties.get(qname) || propertyDefinition(qname);
+  }
+
+  // Like Alfresco, the content URL carries the caller's ticket
+  private contentElement(node: MockNode, property: string, ticket?: string) {
+    const qname = toQName(property || CONTENT);
+    const content = node.content[qname];
+    const name = encodeURIComponent(String(node.properties[NAME] || node.id));
+    const { scheme, address } = StoreRef.parse(node.store);
+    const params = new URLSearchParams({ ...(ticket ? { ticket } : {}), ...(qname === CONTENT ? {} : { property: qname }) }).toString();
+    const query = params ? `?${params}` : '';
+    return {
+      node: this.reference(node),
+      property: qname,
+      length: content ? content.data.length : 0,
+      ...(content
+        ? {
+          format: { mimetype: content.mimetype, encoding: content.encoding },
+          url: `${this.baseUrl}/alfresco/download/direct/${scheme}/${address}/${node.id}/${name}${query}`,
+        }
+        : {}),
+    };
+  }
+
+  private async download(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+    const [, scheme, address, id] = DOWNLOAD_PATH.exec(url.pathname)!;
+    try {
+      this.checkServletRequest(req, url);
+      const node = this.repository.getNode(new NodeRef(new StoreRef(scheme, address), id));
+      const content = node.content[toQName(url.searchParams.get('property') || CONTENT)];
+      if (!content) throw new MockFault('nodeNotFound', 'No content');
+
+      const total = content.data.length;
+      const headers: http.OutgoingHttpHeaders = {
+        'Content-Type': `${content.mimetype};charset=${content.encoding}`,
+        'Accept-Ranges': 'bytes',
+      };
+      const range = /^bytes=(\d*)-(\d*)$/.exec(String(req.headers.range || ''));
+      if (range && (range[1] || range[2])) {
+        const start = range[1] ? Number(range[1]) : Math.max(total - Number(range[2]), 0);
+        const end = range[1] && range[2] ? Math.min(Number(range[2]), total - 1) : total - 1;
+        if (start >= total || start > end) {
+          res.writeHead(416, { 'Content-Range': `bytes */${total}` });
+          res.end();
+          return;
+        }
+        res.writeHead(206, { ...headers, 'Content-Range': `bytes ${start}-${end}/${total}`, 'Content-Length': end - start + 1 });
+        res.end(content.data.subarray(start, end + 1));
+        return;
+      }
+      res.writeHead(200, { ...headers, 'Content-Length': total });
+      res.end(content.data);
+    } catch (error) {
+      servletError(res, error);
+    }
+  }
+
+  private async upload(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+    const [, scheme, address, id] = UPLOAD_PATH.exec(url.pathname)!;
+    try {
+      if (req.method !== 'PUT') {
+        res.writeHead(405, { Allow: 'PUT' });
+        res.end();
+        return;
+      }
+      this.checkServletRequest(req, url);
+      const node = this.repository.getNode(new NodeRef(new StoreRef(scheme, address), id));
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      this.repository.writeContent(node, url.searchParams.get('property') || CONTENT, {
+        data: Buffer.concat(chunks),
+        mimetype: url.searchParams.get('mimetype') || String(req.headers['content-type'] || 'application/octet-stream'),
+        encoding: url.searchParams.get('encoding') || 'UTF-8',
+      });
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('OK');
+    } catch (error) {
+      servletError(res, error);
+    }
+  }
+
+  // The servlets take the ticket as ROLE_TICKET Basic credentials or as a ticket/alf_ticket parameter
+  private checkServletRequest(req: http.IncomingMessage, url: URL) {
+    const injected = this.pendingFaults.get(req);
+    if (injected) throw injected;
+    const basic = /^Basic\s+(.+)$/i.exec(String(req.headers.authorization || ''));
+    const credentials = basic ? Buffer.from(basic[1], 'base64').toString() : '';
+    const ticket = credentials.startsWith('ROLE_TICKET:')
+      ? credentials.substring('ROLE_TICKET:'.length)
+      : url.searchParams.get('alf_ticket') || url.searchParams.get('ticket') || undefined;
+    this.checkTicket(ticket);
+  }
+}
+
+function childAssociation(child: MockNode): Record<string, string> {
+  return { associationType: child.associationType, associationName: child.childName, isPrimary: 'true' };
+}
+
+function ticketOf(headers: any): string | undefined {
+  const password = headers?.Security?.UsernameToken?.Password;
+  return typeof password === 'object' && password !== null ? password.$value : password;
+}
+
+function namedValues(properties: Record<string, MockPropertyValue>) {
+  return Object.keys(properties).map(name => {
+    const value = properties[name];
+    if (Array.isArray(value)) return { name, isMultiValue: true, values: value };
+    return value === null ? { name, isMultiValue: false } : { name, isMultiValue: false, value };
+  });
+}
+
+function toProperties(namedValues: any): Record<string, MockPropertyValue> {
+  const properties: Record<string, MockPropertyValue> = {};
+  asArray(namedValues).forEach((property: any) => {
+    const multiValued = property.isMultiValue === true || property.isMultiValue === 'true';
+    properties[toQName(property.name)] = multiValued
+      ? asArray(property.values).map(String)
+      : property.value === undefined || property.value === null ? null : String(property.value);
+  });
+  return properties;
+}
+
+// User names and passwords are not person properties
+function toUserProperties(namedValues: any): Record<string, string> {
+  const properties: Record<string, string> = {};
+  asArray(namedValues).forEach((property: any) => {
+    if (property?.name && property.value !== undefined && property.value !== null) properties[toQName(property.name)] = String(property.value);
+  });
+  delete properties[USER_NAME];
+  return properties;
+}
+
+// Types or aspects a ClassPredicate names, with their sub- or superclasses when asked; unknown names are left out
+function classNames(predicate: any, aspects: boolean): string[] {
+  const names = asArray(predicate?.names).map((name: string) => toQName(name));
+  return names
+    .flatMap(name => [
+      name,
+      ...(isTrue(predicate.followSubClass) ? subTypes(name) : []),
+      ...(isTrue(predicate.followSuperClass) ? superTypes(name) : []),
+    ])
+    .filter(name => classDefinition(name)?.isAspect === aspects);
+}
+
+function toACEs(aces: any): MockACE[] {
+  return asArray(aces)
+    .filter((ace: any) => ace?.authority && ace.permission)
+    .map((ace: any) => ({ authority: ace.authority, permission: ace.permission, accessStatus: ace.accessStatus === 'declined' ? 'declined' : 'acepted' }));
+}
+
+function authorityTypeOf(authority: string): string {
+  if (authority === 'GROUP_EVERYONE') return 'EVERYONE';
+  if (authority.startsWith('GROUP_')) return 'GROUP';
+  if (authority.startsWith('ROLE_')) return 'ROLE';
+  return 'USER';
+}
+
+// Version comments are plain names, e.g. versionType and description
+function toComments(namedValues: any): Record<string, string> {
+  const comments: Record<string, string> = {};
+  asArray(namedValues).forEach((comment: any) => {
+    if (comment?.name && comment.value !== undefined && comment.value !== null) comments[comment.name] = String(comment.value);
+  });
+  return comments;
+}
+
+function isTrue(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+function servletError(res: http.ServerResponse, error: unknown) {
+  const status = error instanceof MockFault ? error.httpStatus : 500;
+  res.writeHead(status, { 'Content-Type': 'text/plain' });
+  res.end((error as Error).message);
+}
@@ -0,0 +1,58 @@
+export type MockFaultKind = 'nodeNotFound' | 'accessDenied' | 'integrity' | 'invalidTicket' | 'authentication' | 'serviceFault';
+
+// Worded like Alfresco's own faults, so the client classifies them as it would for a real server
+const DEFAULT_MESSAGES: Record<MockFaultKind, string> = {
+  nodeNotFound: 'InvalidNodeRefException: Node does not exist',
+  accessDenied: 'AccessDeniedException: Access Denied. You do not have the appropriate permissions to perform this operation.',
+  integrity: 'IntegrityException: Integrity failure',
+  invalidTicket: 'The security token could not be authenticated or authorized',
+  authentication: 'AuthenticationException: Failed to authenticate',
+  serviceFault: 'Fault injected by MockAlfrescoServer',
+};
+
+const HTTP_STATUS: Record<MockFaultKind, number> = {
+  nodeNotFound: 404,
+  accessDenied: 403,
+  integrity: 500,
+  invalidTicket: 401,
+  authentication: 401,
+  serviceFault: 500,
+};
+
+/**
+ * Failure raised by the mock repository, answered as a SOAP fault or an HTTP status
+ */
+export class MockFault extends Error {
+  readonly kind: MockFaultKind;
+
+  constructor(kind: MockFaultKind, message: string = DEFAULT_MESSAGES[kind]) {
+    super(message);
+    this.name = 'MockFault';
+    this.kind = kind;
+  }
+
+  /**
+   * Status the content servlets answer with
+   */
+  get httpStatus(): number {
+    return HTTP_STATUS[this.kind];
+  }
+
+  /**
+   * Fault in the form node-soap's server sends; the detail element is named after the service (RepositoryFault, ...)
+   */
+  toSoapFault(serviceName: string) {
+    if (this.kind === 'invalidTicket') {
+      return { Fault: { faultcode: 'wsse:FailedAuthentication', faultstring: this.message, statusCode: 500 } };
+    }
+    const detail = this.kind === 'authentication' ? 'AuthenticationFault' : serviceName.replace(/Service$/, 'Fault');
+    return {
+      Fault: {
+        faultcode: 'soapenv:Server.generalException',
+        faultstring: this.message,
+        detail: { [detail]: { errorCode: 0, message: this.message } },
+        statusCode: 500,
+      },
+    };
+  }
+}
@@ -0,0 +1,810 @@
+import { randomUUID } from 'crypto';
+import { NodeRef, NodeRefLike } from '../models/NodeRef';
+import { StoreRef, StoreRefLike } from '../models/StoreRef';
+import { NamespaceURI, encodeISO9075, toQName } from '../models/QName';
+import { MockFault } from './MockFault';
+import { NodeMatcher, QueryableNode } from './mockQuery';
+import { aspectProperties, classificationProperty, classifications, impliesPermission } from './mockModel';
+
+/**
+ * Node tree to load into the mock repository. Names are display names (cm:name).
+ */
+export interface MockNodeFixture {
+  name: string;
+  /**
+   * Defaults to cm:content when content is given, cm:folder otherwise
+   */
+  type?: string;
+  id?: string;
+  /**
+   * Child association name, defaults to cm:<name>
+   */
+  childName?: string;
+  aspects?: string[];
+  properties?: Record<string, string | string[]>;
+  content?: string | Buffer;
+  mimetype?: string;
+  children?: MockNodeFixture[];
+}
+
+export interface MockContent {
+  data: Buffer;
+  mimetype: string;
+  encoding: string;
+}
+
+export type MockPropertyValue = string | string[] | null;
+
+/**
+ * Peer association between two nodes (ids), e.g. cm:references
+ */
+export interface MockAssociation {
+  source: string;
+  target: string;
+  type: string;
+}
+
+/**
+ * Frozen state of a node in its version history
+ */
+export interface MockVersion {
+  id: string;
+  label: string;
+  created: string;
+  creator: string;
+  major: boolean;
+  comments: Record<string, string>;
+  properties: Record<string, MockPropertyValue>;
+  content: Record<string, MockContent>;
+}
+
+/**
+ * Access control entry; Alfresco's AccessStatus enumeration spells the allow value "acepted"
+ */
+export interface MockACE {
+  authority: string;
+  permission: string;
+  accessStatus: 'acepted' | 'declined';
+}
+
+export interface MockACL {
+  inheritPermissions: boolean;
+  aces: MockACE[];
+}
+
+export type MockLockType = 'WRITE_LOCK' | 'READ_ONLY_LOCK';
+
+export interface MockNode {
+  id: string;
+  /**
+   * storeRef of the store holding the node
+   */
+  store: string;
+  type: string;
+  aspects: string[];
+  /**
+   * Serialized values keyed by full QName, as Alfresco sends them
+   */
+  properties: Record<string, MockPropertyValue>;
+  parent: string | null;
+  associationType: string;
+  childName: string;
+  children: string[];
+  content: Record<string, MockContent>;
+}
+
+const CONTENT = toQName('cm:content');
+const NAME = toQName('cm:name');
+const CONTAINS = toQName('cm:contains');
+const SYSTEM = `{${NamespaceURI.sys}}`;
+const ARCHIVE_STORE = 'archive://SpacesStore';
+const VERSION_STORE = 'workspace://version2Store';
+const LOCKABLE = toQName('cm:lockable');
+const LOCK_OWNER = toQName('cm:lockOwner');
+const LOCK_TYPE = toQName('cm:lockType');
+const WORKING_COPY = toQName('cm:workingcopy');
+const WORKING_COPY_OWNER = toQName('cm:workingCopyOwner');
+const ORIGINAL = toQName('cm:original');
+const VERSIONABLE = toQName('cm:versionable');
+const VERSION_LABEL = toQName('cm:versionLabel');
+const TEMPORARY = toQName('sys:temporary');
+const OWNABLE = toQName('cm:ownable');
+const OWNER = toQName('cm:owner');
+const CREATED = toQName('cm:created');
+const CREATOR = toQName('cm:creator');
+
+// Company Home children every repository has; their association names differ from the display names
+const SYSTEM_FOLDERS: { name: string; childName: string; type: string }[] = [
+  { name: 'Data Dictionary', childName: 'app:dictionary', type: 'cm:folder' },
+  { name: 'Guest Home', childName: 'app:guest_home', type: 'cm:folder' },
+  { name: 'User Homes', childName: 'app:user_homes', type: 'cm:folder' },
+  { name: 'Shared', childName: 'app:shared', type: 'cm:folder' },
+  { name: 'Sites', childName: 'st:sites', type: 'st:sites' },
+];
+
+// Stores of a fresh repository and the containers below their roots
+const STORES: { storeRef: string; containers: string[] }[] = [
+  { storeRef: 'workspace://SpacesStore', containers: [] },
+  { storeRef: 'archive://SpacesStore', containers: [] },
+  { storeRef: 'user://alfrescoUserStore', containers: ['sys:system', 'sys:people'] },
+  { storeRef: 'system://system', containers: ['sys:system'] },
+];
+
+/**
+ * In-memory node trees of the stores behind MockAlfrescoServer. Company Home and fixtures live in
+ * workspace://SpacesStore.
+ */
+export class MockRepository {
+  readonly store = new StoreRef('workspace', 'SpacesStore');
+  readonly stores = STORES.map(({ storeRef }) => StoreRef.parse(storeRef));
+  private nodes = new Map<string, MockNode>();
+  private associations: MockAssociation[] = [];
+  // Newest first, keyed by node id
+  private versions = new Map<string, MockVersion[]>();
+  // Entries set directly on a node, keyed by node id; nodes without one inherit everything
+  private acls = new Map<string, MockACL>();
+  private nextDbId = 1;
+  private rootIds = new Map<string, string>();
+  private companyHomeId = '';
+  private categoryRootId = '';
+
+  constructor() {
+    this.reset();
+  }
+
+  /**
+   * Start over with an empty Company Home and its system folders
+   */
+  reset() {
+    this.nodes.clear();
+    this.associations = [];
+    this.versions.clear();
+    this.acls.clear();
+    this.rootIds.clear();
+    this.nextDbId = 1;
+    STORES.forEach(({ storeRef, containers }) => {
+      let parent = this.insertRoot(storeRef);
+      this.rootIds.set(storeRef, parent);
+      containers.forEach(childName => {
+        parent = this.insert(parent, 'sys:container', { [NAME]: childName.split(':')[1] }, 'sys:children', childName).id;
+      });
+    });
+    this.companyHomeId = this.insert(this.rootId, 'cm:folder', { [NAME]: 'Company Home' }, 'sys:children', 'app:company_home').id;
+    SYSTEM_FOLDERS.forEach(({ name, childName, type }) => this.insert(this.companyHomeId, type, { [NAME]: name }, CONTAINS, childName));
+    const system = this.insert(this.rootId, 'sys:container', { [NAME]: 'system' }, 'sys:children', 'sys:system');
+    this.categoryRootId = this.insert(system.id, 'cm:category_root', { [NAME]: 'categories' }, 'sys:children', 'cm:categoryRoot').id;
+    classifications().forEach(classification => {
+      this.insert(this.categoryRootId, 'cm:category', { [NAME]: classification.substring(classification.indexOf('}') + 1) }, 'cm:categories', classification);
+    });
+  }
+
+  get rootRef(): string {
+    return this.refOf(this.rootId);
+  }
+
+  /**
+   * Root node of a store, or a nodeNotFound fault for unknown stores
+   */
+  storeRoot(store: StoreRefLike): MockNode {
+    const storeRef = StoreRef.parse(store).toString();
+    const rootId = this.rootIds.get(storeRef);
+    if (!rootId) throw new MockFault('nodeNotFound', `InvalidStoreRefException: Store does not exist: ${storeRef}`);
+    return this.nodes.get(rootId)!;
+  }
+
+  /**
+   * Node at a child association path such as `/app:company_home/cm:Reports`, as a Reference path
+   * addresses it; `/` is the store root
+   */
+  resolve(store: StoreRefLike, path: string): MockNode {
+    let node = this.storeRoot(store);
+    for (const step of path.split('/').filter(Boolean)) {
+      const childName = toQName(step);
+      const child = this.children(node).find(c => c.childName === childName);
+      if (!child) throw new MockFault('nodeNotFound', `InvalidNodeRefException: Node does not exist: ${path}`);
+      node = child;
+    }
+    return node;
+  }
+
+  get companyHomeRef(): string {
+    return this.refOf(this.companyHomeId);
+  }
+
+  /**
+   * Root category of a classification aspect such as cm:generalclassifiable
+   */
+  classificationRoot(classification: string): MockNode | undefined {
+    const qname = toQName(classification);
+    return this.children(this.nodes.get(this.categoryRootId)!).find(child => child.childName === qname);
+  }
+
+  /**
+   * Create the categories along a display path below a classification root, e.g. `Regions/Europe`,
+   * and return the last one
+   */
+  addCategory(path: string, classification = 'cm:generalclassifiable'): MockNode {
+    let category = this.classificationRoot(classification);
+    if (!category) throw new MockFault('nodeNotFound', `InvalidNodeRefException: Classification ${classification} does not exist`);
+    for (const name of path.split('/').filter(Boolean)) {
+      category = this.children(category).find(child => child.properties[NAME] === name)
+        || this.create(category, 'cm:category', { [NAME]: name }, 'cm:subcategories');
+    }
+    return category;
+  }
+
+  /**
+   * Add nodes under a parent (Company Home by default) and return the nodeRefs of the top-level ones
+   */
+  load(fixtures: MockNodeFixture[], parent: NodeRefLike = this.companyHomeRef): string[] {
+    const parentNode = this.getNode(parent);
+    return fixtures.map(fixture => this.refOf(this.loadNode(parentNode.id, fixture)));
+  }
+
+  /**
+   * nodeRef of the node at a display path relative to Company Home, e.g. `/Sites/marketing`
+   */
+  nodeRef(displayPath: string): string {
+    let node = this.nodes.get(this.companyHomeId)!;
+    for (const name of displayPath.split('/').filter(Boolean)) {
+      const child = node.children.map(id => this.nodes.get(id)!).find(c => c.properties[NAME] === name);
+      if (!child) throw new Error(`No node at ${displayPath} in the mock repository`);
+      node = child;
+    }
+    return this.refOf(node.id);
+  }
+
+  /**
+   * The node, or a nodeNotFound fault
+   */
+  getNode(nodeRef: NodeRefLike): MockNode {
+    let ref: NodeRef;
+    try {
+      ref = NodeRef.parse(nodeRef);
+    } catch {
+      throw new MockFault('nodeNotFound', `InvalidNodeRefException: Node does not exist: ${nodeRef}`);
+    }
+    const node = this.nodes.get(ref.id);
+    if (!node || !ref.storeRef.equals(node.store)) throw new MockFault('nodeNotFound', `InvalidNodeRefException: Node does not exist: ${ref}`);
+    return node;
+  }
+
+  refOf(id: string): string {
+    return new NodeRef(StoreRef.parse(this.nodes.get(id)!.store), id).toString();
+  }
+
+  children(node: MockNode): MockNode[] {
+    return node.children.map(id => this.nodes.get(id)!);
+  }
+
+  parentOf(node: MockNode): MockNode | undefined {
+    return node.parent ? this.nodes.get(node.parent) : undefined;
+  }
+
+  /**
+   * Nodes of a store (the main store by default) matching a compiled query, in tree order
+   */
+  find(matches: NodeMatcher, store: StoreRefLike = this.store): MockNode[] {
+    const found: MockNode[] = [];
+    const visit = (node: MockNode) => {
+      if (matches(this.queryable(node))) found.push(node);
+      this.children(node).forEach(visit);
+    };
+    visit(this.storeRoot(store));
+    return found;
+  }
+
+  /**
+   * Every property including the system and content properties Alfresco adds
+   */
+  propertiesOf(node: MockNode): Record<string, MockPropertyValue> {
+    const properties = { ...node.properties };
+    Object.keys(node.content).forEach(property => {
+      const { data, mimetype, encoding } = node.content[property];
+      properties[property] = `contentUrl=store://mock/${node.id}|mimetype=${mimetype}|size=${data.length}|encoding=${encoding}|locale=en_US_`;
+    });
+    return properties;
+  }
+
+  create(parent: MockNode, type: string, properties: Record<string, MockPropertyValue>, associationType = CONTAINS, childName?: string): MockNode {
+    const name = properties[NAME];
+    if (typeof name !== 'string' || !name) {
+      throw new MockFault('integrity', 'IntegrityException: Integrity failure: cm:name is mandatory');
+    }
+    this.checkUniqueName(parent, name);
+    return this.insert(parent.id, type, properties, associationType, childName || `cm:${encodeISO9075(name)}`);
+  }
+
+  update(node: MockNode, properties: Record<string, MockPropertyValue>) {
+    const name = properties[NAME];
+    if (name !== undefined && name !== node.properties[NAME]) {
+      if (typeof name !== 'string' || !name) {
+        throw new MockFault('integrity', 'IntegrityException: Integrity failure: cm:name is mandatory');
+      }
+      const parent = this.parentOf(node);
+      if (parent) this.checkUniqueName(parent, name);
+    }
+    Object.assign(node.properties, properties);
+    this.touch(node);
+  }
+
+  addAspect(node: MockNode, aspect: string, properties: Record<string, MockPropertyValue>) {
+    const qname = toQName(aspect);
+    if (!node.aspects.includes(qname)) node.aspects.push(qname);
+    this.update(node, properties);
+  }
+
+  removeAspect(node: MockNode, aspect: string) {
+    const qname = toQName(aspect);
+    node.aspects = node.aspects.filter(a => a !== qname);
+    aspectProperties(qname).forEach(property => delete node.properties[property]);
+    this.touch(node);
+  }
+
+  /**
+   * Delete a node and its children. Nodes of the main store are archived to archive://SpacesStore
+   * like Alfresco's recycle bin unless they are sys:temporary; deleting a node there purges it.
+   */
+  delete(node: MockNode, user = 'admin') {
+    if (!node.parent || node.id === this.companyHomeId) {
+      throw new MockFault('accessDenied', 'AccessDeniedException: Access Denied. The store root and Company Home cannot be deleted');
+    }
+    if (this.store.equals(node.store) && !node.aspects.includes(TEMPORARY)) {
+      this.archive(node, user);
+      return;
+    }
+    this.detach(node);
+    const remove = (n: MockNode) => {
+      this.children(n).forEach(remove);
+      this.nodes.delete(n.id);
+      this.associations = this.associations.filter(a => a.source !== n.id && a.target !== n.id);
+    };
+    remove(node);
+  }
+
+  /**
+   * Move a node under a new parent, which may be in another store (restoring from the archive)
+   */
+  move(node: MockNode, parent: MockNode, associationType = CONTAINS, childName?: string) {
+    for (let ancestor: MockNode | undefined = parent; ancestor; ancestor = this.parentOf(ancestor)) {
+      if (ancestor.id === node.id) {
+        throw new MockFault('integrity', 'CyclicChildRelationshipException: Node cannot be moved below itself');
+      }
+    }
+    if (node.parent !== parent.id) this.checkUniqueName(parent, node.properties[NAME] as string);
+    this.detach(node);
+    node.parent = parent.id;
+    node.associationType = toQName(associationType);
+    if (childName) node.childName = toQName(childName);
+    parent.children.push(node.id);
+    this.setStore(node, parent.store);
+  }
+
+  copy(node: MockNode, parent: MockNode, withChildren: boolean, associationType = CONTAINS, childName?: string): MockNode {
+    // The copy gets its own identity
+    const properties = { ...node.properties };
+    Object.keys(properties).filter(name => name.startsWith(SYSTEM)).forEach(name => delete properties[name]);
+    const copy = this.create(parent, node.type, properties, associationType, childName || node.childName);
+    copy.aspects = [...node.aspects];
+    copy.content = { ...node.content };
+    if (withChildren) {
+      this.children(node).forEach(child => this.copy(child, copy, true, child.associationType, child.childName));
+    }
+    return copy;
+  }
+
+  /**
+   * Peer associations from (`target` direction) or to (`source` direction) a node, optionally of one type
+   */
+  associated(node: MockNode, direction: 'source' | 'target', type?: string): { node: MockNode; type: string }[] {
+    const qname = type ? toQName(type) : undefined;
+    return this.associations
+      .filter(a => (direction === 'target' ? a.source : a.target) === node.id && (!qname || a.type === qname))
+      .map(a => ({ node: this.nodes.get(direction === 'target' ? a.target : a.source)!, type: a.type }));
+  }
+
+  createAssociation(source: MockNode, target: MockNode, type: string) {
+    const qname = toQName(type);
+    if (this.associations.some(a => a.source === source.id && a.target === target.id && a.type === qname)) {
+      throw new MockFault('integrity', `AssociationExistsException: Association already exists: ${qname}`);
+    }
+    this.associations.push({ source: source.id, target: target.id, type: qname });
+  }
+
+  removeAssociation(source: MockNode, target: MockNode, type: string) {
+    const qname = toQName(type);
+    this.associations = this.associations.filter(a => !(a.source === source.id && a.target === target.id && a.type === qname));
+  }
+
+  writeContent(node: MockNode, property: string, content: MockContent) {
+    node.content[toQName(property)] = content;
+    this.touch(node);
+  }
+
+  clearContent(node: MockNode, property: string) {
+    delete node.content[toQName(property)];
+    this.touch(node);
+  }
+
+  /**
+   * Lock a node (and its descendants when deep) for `owner`. Locks of other users fail.
+   */
+  lock(node: MockNode, lockType: MockLockType, owner: string, deep = false) {
+    const lock = this.lockOf(node);
+    if (lock && lock.owner !== owner) {
+      throw new MockFault('serviceFault', `UnableToAquireLockException: The node ${node.id} is already locked by ${lock.owner}`);
+    }
+    this.addAspect(node, LOCKABLE, { [LOCK_OWNER]: owner, [LOCK_TYPE]: lockType });
+    if (deep) this.children(node).forEach(child => this.lock(child, lockType, owner, true));
+  }
+
+  unlock(node: MockNode, deep = false) {
+    if (node.aspects.includes(LOCKABLE)) this.removeAspect(node, LOCKABLE);
+    if (deep) this.children(node).forEach(child => this.unlock(child, true));
+  }
+
+  lockOf(node: MockNode): { type: MockLockType; owner: string } | undefined {
+    const owner = node.properties[LOCK_OWNER];
+    if (!node.aspects.includes(LOCKABLE) || typeof owner !== 'string') return undefined;
+    return { type: node.properties[LOCK_TYPE] as MockLockType, owner };
+  }
+
+  /**
+   * Copy a node to a working copy named like `q1 (Working Copy).txt` (next to it unless a parent is
+   * given) and lock the original read-only, as Alfresco's CheckOutCheckInService does
+   */
+  checkout(node: MockNode, user: string, parent = this.parentOf(node)!, associationType = CONTAINS): MockNode {
+    if (this.workingCopyOf(node) || node.aspects.includes(WORKING_COPY)) {
+      throw new MockFault('serviceFault', `CheckOutCheckInServiceException: The node ${node.id} is already checked out`);
+    }
+    const name = String(node.properties[NAME]);
+    const extension = name.lastIndexOf('.') > 0 ? name.substring(name.lastIndexOf('.')) : '';
+    const workingCopyName = `${name.substring(0, name.length - extension.length)} (Working Copy)${extension}`;
+    const properties = { ...node.properties, [NAME]: workingCopyName, [WORKING_COPY_OWNER]: user };
+    aspectProperties(LOCKABLE).forEach(property => delete properties[property]);
+    Object.keys(properties).filter(property => property.startsWith(SYSTEM)).forEach(property => delete properties[property]);
+    const workingCopy = this.create(parent, node.type, properties, associationType);
+    workingCopy.aspects = [...node.aspects.filter(aspect => aspect !== LOCKABLE), WORKING_COPY, TEMPORARY];
+    workingCopy.content = { ...node.content };
+    this.createAssociation(workingCopy, node, ORIGINAL);
+    this.lock(node, 'READ_ONLY_LOCK', user);
+    return workingCopy;
+  }
+
+  /**
+   * Copy a working copy's properties and content back to its original and version the original. The
+   * working copy is deleted unless `keepCheckedOut`; returns the original.
+   */
+  checkin(workingCopy: MockNode, user: string, comments: Record<string, string>, keepCheckedOut: boolean): MockNode {
+    const original = this.originalOf(workingCopy);
+    const properties = { ...workingCopy.properties };
+    [NAME, WORKING_COPY_OWNER, CREATED, CREATOR, ...aspectProperties(LOCKABLE)].forEach(property => delete properties[property]);
+    Object.keys(properties).filter(property => property.startsWith(SYSTEM)).forEach(property => delete properties[property]);
+    this.unlock(original);
+    Object.assign(original.properties, properties);
+    original.content = { ...workingCopy.content };
+    this.touch(original);
+    this.createVersion(original, user, comments);
+    if (keepCheckedOut) {
+      this.lock(original, 'READ_ONLY_LOCK', user);
+    } else {
+      this.delete(workingCopy, user);
+    }
+    return original;
+  }
+
+  /**
+   * Delete a working copy and unlock its original; returns the original
+   */
+  cancelCheckout(workingCopy: MockNode, user: string): MockNode {
+    const original = this.originalOf(workingCopy);
+    this.delete(workingCopy, user);
+    this.unlock(original);
+    return original;
+  }
+
+  /**
+   * Record the node's current state as a new version. The `versionType` comment (MAJOR or MINOR)
+   * picks the next label: 0.1 or 1.0 first, then 1.1 or 2.0 and so on.
+   */
+  createVersion(node: MockNode, user: string, comments: Record<string, string>): MockVersion {
+    const history = this.versions.get(node.id) || [];
+    const major = comments.versionType === 'MAJOR';
+    const [majorNumber, minorNumber] = (history[0]?.label || '0.0').split('.').map(Number);
+    const label = major ? `${majorNumber + 1}.0` : `${majorNumber}.${minorNumber + 1}`;
+    if (!node.aspects.includes(VERSIONABLE)) node.aspects.push(VERSIONABLE);
+    node.properties[VERSION_LABEL] = label;
+    const version: MockVersion = {
+      id: randomUUID(),
+      label,
+      created: new Date().toISOString(),
+      creator: user,
+      major,
+      comments: { ...comments },
+      properties: { ...node.properties },
+      content: { ...node.content },
+    };
+    this.versions.set(node.id, [version, ...history]);
+    return version;
+  }
+
+  /**
+   * Versions of a node, newest first
+   */
+  versionHistory(node: MockNode): MockVersion[] {
+    return this.versions.get(node.id) || [];
+  }
+
+  /**
+   * Put a node back to the properties and content of one of its versions
+   */
+  revertVersion(node: MockNode, label: string) {
+    const version = this.versionHistory(node).find(v => v.label === label);
+    if (!version) throw new MockFault('serviceFault', `VersionServiceException: Version ${label} of node ${node.id} does not exist`);
+    node.properties = { ...version.properties };
+    node.content = { ...version.content };
+    this.touch(node);
+  }
+
+  deleteAllVersions(node: MockNode) {
+    this.versions.delete(node.id);
+    this.removeAspect(node, VERSIONABLE);
+  }
+
+  /**
+   * nodeRef the version store gives a version
+   */
+  versionRef(version: MockVersion): string {
+    return `${VERSION_STORE}/${version.id}`;
+  }
+
+  /**
+   * Access control list set directly on a node
+   */
+  aclOf(node: MockNode): MockACL {
+    const acl = this.acls.get(node.id);
+    return acl ? { inheritPermissions: acl.inheritPermissions, aces: [...acl.aces] } : { inheritPermissions: true, aces: [] };
+  }
+
+  addACEs(node: MockNode, aces: MockACE[]) {
+    const acl = this.aclOf(node);
+    aces.forEach(ace => {
+      acl.aces = acl.aces.filter(a => !(a.authority === ace.authority && a.permission === ace.permission));
+      acl.aces.push({ ...ace });
+    });
+    this.acls.set(node.id, acl);
+  }
+
+  /**
+   * Remove entries by authority and permission, or all entries set on the node when none are given
+   */
+  removeACEs(node: MockNode, aces?: MockACE[]) {
+    const acl = this.aclOf(node);
+    acl.aces = aces ? acl.aces.filter(a => !aces.some(ace => ace.authority === a.authority && ace.permission === a.permission)) : [];
+    this.acls.set(node.id, acl);
+  }
+
+  setInheritPermissions(node: MockNode, inheritPermissions: boolean) {
+    this.acls.set(node.id, { ...this.aclOf(node), inheritPermissions });
+  }
+
+  /**
+   * Whether a user holds a permission on a node: admin and the owner hold every permission, others need
+   * an accepted entry for themselves or GROUP_EVERYONE on the node or an ancestor it inherits from.
+   * A declined entry closer to the node wins.
+   */
+  hasPermission(node: MockNode, user: string, permission: string): boolean {
+    if (user === 'admin' || this.ownerOf(node) === user) return true;
+    for (let current: MockNode | undefined = node; current; current = this.parentOf(current)) {
+      const acl = this.aclOf(current);
+      const matching = acl.aces.filter(ace => [user, 'GROUP_EVERYONE'].includes(ace.authority) && impliesPermission(ace.permission, permission));
+      if (matching.some(ace => ace.accessStatus === 'declined')) return false;
+      if (matching.length) return true;
+      if (!acl.inheritPermissions) break;
+    }
+    return false;
+  }
+
+  /**
+   * cm:owner of an ownable node, its creator otherwise
+   */
+  ownerOf(node: MockNode): string {
+    const owner = node.aspects.includes(OWNABLE) ? node.properties[OWNER] : undefined;
+    return typeof owner === 'string' ? owner : String(node.properties[CREATOR]);
+  }
+
+  setOwner(node: MockNode, owner: string) {
+    this.addAspect(node, OWNABLE, { [OWNER]: owner });
+  }
+
+  /**
+   * Copy of the whole tree, restored when a CML block fails half way
+   */
+  snapshot(): () => void {
+    const saved = new Map(Array.from(this.nodes, ([id, node]) => [id, cloneNode(node)]));
+    const associations = [...this.associations];
+    const nextDbId = this.nextDbId;
+    return () => {
+      this.nodes = saved;
+      this.associations = associations;
+      this.nextDbId = nextDbId;
+    };
+  }
+
+  private workingCopyOf(node: MockNode): MockNode | undefined {
+    return this.associated(node, 'source', ORIGINAL)[0]?.node;
+  }
+
+  private originalOf(workingCopy: MockNode): MockNode {
+    const original = this.associated(workingCopy, 'target', ORIGINAL)[0]?.node;
+    if (!workingCopy.aspects.includes(WORKING_COPY) || !original) {
+      throw new MockFault('serviceFault', `CheckOutCheckInServiceException: The node ${workingCopy.id} is not a working copy`);
+    }
+    return original;
+  }
+
+  // Alfresco keeps the uuid and records where the node came from in the sys:archived aspect
+  private archive(node: MockNode, user: string) {
+    const parent = this.parentOf(node)!;
+    const originalParentAssoc = [this.refOf(parent.id), this.refOf(node.id), node.associationType, node.childName, 'true', '-1'].join('|');
+    const archiveRoot = this.storeRoot(ARCHIVE_STORE);
+    this.detach(node);
+    node.parent = archiveRoot.id;
+    node.associationType = toQName('sys:children');
+    node.childName = toQName('sys:archivedItem');
+    archiveRoot.children.push(node.id);
+    this.setStore(node, archiveRoot.store);
+    node.aspects.push(toQName('sys:archived'));
+    Object.assign(node.properties, {
+      [toQName('sys:archivedBy')]: user,
+      [toQName('sys:archivedDate')]: new Date().toISOString(),
+      [toQName('sys:archivedOriginalParentAssoc')]: originalParentAssoc,
+    });
+  }
+
+  private setStore(node: MockNode, store: string) {
+    if (node.store === store) return;
+    const storeRef = StoreRef.parse(store);
+    node.store = store;
+    node.properties[toQName('sys:store-protocol')] = storeRef.scheme;
+    node.properties[toQName('sys:store-identifier')] = storeRef.address;
+    this.children(node).forEach(child => this.setStore(child, store));
+  }
+
+  private loadNode(parentId: string, fixture: MockNodeFixture): string {
+    const parent = this.nodes.get(parentId)!;
+    const properties: Record<string, MockPropertyValue> = { [NAME]: fixture.name };
+    Object.keys(fixture.properties || {}).forEach(key => {
+      properties[toQName(key)] = fixture.properties![key];
+    });
+    this.checkUniqueName(parent, fixture.name);
+    const type = fixture.type || (fixture.content !== undefined ? 'cm:content' : 'cm:folder');
+    const node = this.insert(parentId, type, properties, CONTAINS, fixture.childName || `cm:${encodeISO9075(fixture.name)}`, fixture.id);
+    node.aspects.push(...(fixture.aspects || []).map(toQName));
+    if (fixture.content !== undefined) {
+      node.content[CONTENT] = {
+        data: Buffer.isBuffer(fixture.content) ? fixture.content : Buffer.from(fixture.content),
+        mimetype: fixture.mimetype || 'text/plain',
+        encoding: 'UTF-8',
+      };
+    }
+    (fixture.children || []).forEach(child => this.loadNode(node.id, child));
+    return node.id;
+  }
+
+  private get rootId(): string {
+    return this.rootIds.get(this.store.toString())!;
+  }
+
+  private insertRoot(storeRef: string): string {
+    return this.insert(null, 'sys:store_root', {}, 'sys:children', 'sys:root', randomUUID(), StoreRef.parse(storeRef)).id;
+  }
+
+  private insert(
+    parentId: string | null,
+    type: string,
+    properties: Record<string, MockPropertyValue>,
+    associationType: string,
+    childName: string,
+    id: string = randomUUID(),
+    store: StoreRef = StoreRef.parse(this.nodes.get(parentId!)!.store)
+  ): MockNode {
+    if (this.nodes.has(id)) {
+      throw new MockFault('integrity', `IntegrityException: Node ${id} already exists`);
+    }
+    const now = new Date().toISOString();
+    const node: MockNode = {
+      id,
+      store: store.toString(),
+      type: toQName(type),
+      aspects: [toQName('cm:auditable'), toQName('sys:referenceable')],
+      properties: {
+        [toQName('sys:store-protocol')]: store.scheme,
+        [toQName('sys:store-identifier')]: store.address,
+        [toQName('sys:node-uuid')]: id,
+        [toQName('sys:node-dbid')]: String(this.nextDbId++),
+        [toQName('cm:created')]: now,
+        [toQName('cm:creator')]: 'admin',
+        [toQName('cm:modified')]: now,
+        [toQName('cm:modifier')]: 'admin',
+        ...properties,
+      },
+      parent: parentId,
+      associationType: toQName(associationType),
+      childName: toQName(childName),
+      children: [],
+      content: {},
+    };
+    this.nodes.set(id, node);
+    if (parentId) this.nodes.get(parentId)!.children.push(id);
+    return node;
+  }
+
+  private queryable(node: MockNode): QueryableNode {
+    const path: string[] = [];
+    for (let current: MockNode | undefined = node; current && current.parent; current = this.parentOf(current)) {
+      path.unshift(current.childName);
+    }
+    const content = node.content[CONTENT];
+    return {
+      nodeRef: this.refOf(node.id),
+      parentRef: node.parent ? this.refOf(node.parent) : undefined,
+      type: node.type,
+      aspects: node.aspects,
+      path,
+      categoryPaths: this.categoryPaths(node),
+      properties: node.properties,
+      text: content && content.mimetype.startsWith('text/') ? content.data.toString('utf8') : '',
+    };
+  }
+
+  private categoryPaths(node: MockNode): string[][] {
+    const own = this.categoryPath(node);
+    const memberships = classifications().flatMap(classification => {
+      const filed = node.properties[classificationProperty(classification)!];
+      return (Array.isArray(filed) ? filed : filed ? [filed] : [])
+        .filter(ref => NodeRef.isNodeRef(ref))
+        .map(ref => this.nodes.get(NodeRef.parse(ref).id))
+        .map(category => (category ? this.categoryPath(category) : undefined))
+        .filter((path): path is string[] => path !== undefined)
+        .map(path => [...path, 'member']);
+    });
+    return own ? [own, ...memberships] : memberships;
+  }
+
+  // Child association names below the category root, e.g. [cm:generalclassifiable, cm:Regions]
+  private categoryPath(node: MockNode): string[] | undefined {
+    const path: string[] = [];
+    for (let current: MockNode | undefined = node; current; current = this.parentOf(current)) {
+      if (current.id === this.categoryRootId) return path.length ? path : undefined;
+      path.unshift(current.childName);
+    }
+    return undefined;
+  }
+
+  private checkUniqueName(parent: MockNode, name: string) {
+    if (this.children(parent).some(child => child.properties[NAME] === name)) {
+      throw new MockFault('integrity', `DuplicateChildNodeNameException: Duplicate child name not allowed: ${name}`);
+    }
+  }
+
+  private detach(node: MockNode) {
+    const parent = this.parentOf(node);
+    if (parent) parent.children = parent.children.filter(id => id !== node.id);
+  }
+
+  private touch(node: MockNode) {
+    node.properties[toQName('cm:modified')] = new Date().toISOString();
+  }
+}
+
+function cloneNode(node: MockNode): MockNode {
+  return {
+    ...node,
+    aspects: [...node.aspects],
+    properties: { ...node.properties },
+    children: [...node.children],
+    // Content buffers are replaced, never changed in place
+    content: { ...node.content },
+  };
+}
@@ -0,0 +1,8 @@
+export { MockAlfrescoServer } from './MockAlfrescoServer';
+export type { MockAlfrescoServerOptions, InjectedFault } from './MockAlfrescoServer';
+export { MockRepository } from './MockRepository';
+export type { MockNode, MockNodeFixture, MockContent, MockPropertyValue, MockAssociation, MockVersion, MockLockType, MockACE, MockACL } from './MockRepository';
+export { MockFault } from './MockFault';
+export type { MockFaultKind } from './MockFault';
+export { UnsupportedQueryError } from './mockQuery';
+export type { MockPropertyType } from './mockModel';
@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+import { asArray } from '../common/soapUtils';
+import { toQName } from '../models/QName';
+import { MockFault } from './MockFault';
+import { MockNode, MockRepository } from './MockRepository';
+import { isSubType } from './mockModel';
+
+export type MockParameters = Record<string, string | string[]>;
+
+export interface MockCondition {
+  id: string;
+  conditionName: string;
+  invertCondition: boolean;
+  parameters: MockParameters;
+}
+
+export interface MockAction {
+  id: string;
+  actionName: string;
+  title?: string;
+  description?: string;
+  executeAsynchronously: boolean;
+  parameters: MockParameters;
+  conditions: MockCondition[];
+  /**
+   * Child actions of a composite-action
+   */
+  actions?: MockAction[];
+}
+
+export interface MockRule {
+  id: string;
+  ruleTypes: string[];
+  title?: string;
+  description?: string;
+  executeAsynchronously: boolean;
+  action: MockAction;
+}
+
+interface ItemDefinition {
+  name: string;
+  title: string;
+  adHocPropertiesAllowed: boolean;
+  parameterDefinition: { name: string; type: string; isMandatory: boolean }[];
+}
+
+// The actions and conditions MockAlfrescoServer runs
+const parameter = (name: string, type: string, isMandatory = true) => ({ name, type: toQName(type), isMandatory });
+
+export const ACTION_DEFINITIONS: ItemDefinition[] = [
+  { name: 'add-features', title: 'Add aspect', adHocPropertiesAllowed: true, parameterDefinition: [parameter('aspect-name', 'd:qname')] },
+  { name: 'remove-features', title: 'Remove aspect', adHocPropertiesAllowed: false, parameterDefinition: [parameter('aspect-name', 'd:qname')] },
+  { name: 'move', title: 'Move item', adHocPropertiesAllowed: false, parameterDefinition: [parameter('destination-folder', 'd:noderef')] },
+  {
+    name: 'copy',
+    title: 'Copy item',
+    adHocPropertiesAllowed: false,
+    parameterDefinition: [parameter('destination-folder', 'd:noderef'), parameter('deep-copy', 'd:boolean', false)],
+  },
+  { name: 'composite-action', title: 'Composite action', adHocPropertiesAllowed: false, parameterDefinition: [] },
+];
+
+export const CONDITION_DEFINITIONS: ItemDefinition[] = [
+  { name: 'no-condition', title: 'All items', adHocPropertiesAllowed: false, parameterDefinition: [] },
+  { name: 'has-aspect', title: 'Has aspect', adHocPropertiesAllowed: false, parameterDefinition: [parameter('aspect', 'd:qname')] },
+  { name: 'is-subtype', title: 'Is of type', adHocPropertiesAllowed: false, parameterDefinition: [parameter('type', 'd:qname')] },
+  {
+    name: 'compare-property-value',
+    title: 'Compare property value',
+    adHocPropertiesAllowed: false,
+    parameterDefinition: [parameter('property', 'd:qname', false), parameter('operation', 'd:text', false), parameter('value', 'd:any')],
+  },
+];
+
+// compare-property-value compares cm:name unless told otherwise, with these operations
+const COMPARISONS: Record<string, (actual: string, expected: string) => boolean> = {
+  EQUALS: (actual, expected) => actual === expected,
+  CONTAINS: (actual, expected) => actual.includes(expected),
+  BEGINS: (actual, expected) => actual.startsWith(expected),
+  ENDS: (actual, expected) => actual.endsWith(expected),
+};
+
+/**
+ * Action as the ActionService sent it, with ids for the action and its conditions
+ */
+export function toMockAction(action: any): MockAction {
+  return {
+    id: action.id || randomUUID(),
+    actionName: action.actionName,
+    title: action.title || undefined,
+    description: action.description || undefined,
+    executeAsynchronously: isTrue(action.executeAsynchronously),
+    parameters: toParameters(action.parameters),
+    conditions: asArray(action.conditions).map((condition: any) => ({
+      id: condition.id || randomUUID(),
+      conditionName: condition.conditionName,
+      invertCondition: isTrue(condition.invertCondition),
+      parameters: toParameters(condition.parameters),
+    })),
+    ...(action.actions ? { actions: asArray(action.actions).map(toMockAction) } : {}),
+  };
+}
+
+/**
+ * Action in the form the ActionService returns it
+ */
+export function toSoapAction(action: MockAction): any {
+  return {
+    id: action.id,
+    actionName: action.actionName,
+    ...(action.title ? { title: action.title } : {}),
+    ...(action.description ? { description: action.description } : {}),
+    executeAsynchronously: action.executeAsynchronously,
+    parameters: toNamedValues(action.parameters),
+    conditions: action.conditions.map(condition => ({ ...condition, parameters: toNamedValues(condition.parameters) })),
+    ...(action.actions ? { actions: action.actions.map(toSoapAction) } : {}),
+  };
+}
+
+export function toMockRule(rule: any): MockRule {
+  return {
+    id: rule.ruleReference?.uuid || randomUUID(),
+    ruleTypes: asArray(rule.ruleTypes),
+    title: rule.title || undefined,
+    description: rule.description || undefined,
+    executeAsynchronously: isTrue(rule.executeAsynchronously),
+    action: toMockAction(rule.action || {}),
+  };
+}
+
+/**
+ * Run an action against a node when its conditions hold. Actions run right away, whatever
+ * executeAsynchronously says.
+ */
+export function runAction(repository: MockRepository, action: MockAction, node: MockNode) {
+  if (!action.conditions.every(condition => evaluate(condition, node) !== condition.invertCondition)) return;
+  const parameters = action.parameters;
+  switch (action.actionName) {
+    case 'add-features':
+      repository.addAspect(node, String(parameters['aspect-name']), {});
+      break;
+    case 'remove-features':
+      repository.removeAspect(node, String(parameters['aspect-name']));
+      break;
+    case 'move':
+      repository.move(node, repository.getNode(String(parameters['destination-folder'])));
+      break;
+    case 'copy':
+      repository.copy(node, repository.getNode(String(parameters['destination-folder'])), parameters['deep-copy'] === 'true');
+      break;
+    case 'composite-action':
+      (action.actions || []).forEach(child => runAction(repository, child, node));
+      break;
+    default:
+      throw new MockFault('serviceFault', `Action ${action.actionName} is not supported by MockAlfrescoServer`);
+  }
+}
+
+function evaluate(condition: MockCondition, node: MockNode): boolean {
+  const parameters = condition.parameters;
+  switch (condition.conditionName) {
+    case 'no-condition':
+      return true;
+    case 'has-aspect':
+      return node.aspects.includes(toQName(String(parameters.aspect)));
+    case 'is-subtype':
+      return isSubType(node.type, toQName(String(parameters.type)));
+    case 'compare-property-value': {
+      const compare = COMPARISONS[String(parameters.operation || 'EQUALS')];
+      if (!compare) throw new MockFault('serviceFault', `Comparison ${parameters.operation} is not supported by MockAlfrescoServer`);
+      const actual = node.properties[toQName(String(parameters.property || 'cm:name'))];
+      return typeof actual === 'string' && compare(actual, String(parameters.value));
+    }
+    default:
+      throw new MockFault('serviceFault', `Condition ${condition.conditionName} is not supported by MockAlfrescoServer`);
+  }
+}
+
+function toParameters(namedValues: any): MockParameters {
+  const parameters: MockParameters = {};
+  asArray(namedValues).forEach((p: any) => {
+    if (!p?.name) return;
+    if (isTrue(p.isMultiValue)) {
+      parameters[p.name] = asArray(p.values).map(String);
+    } else if (p.value !== undefined && p.value !== null) {
+      parameters[p.name] = String(p.value);
+    }
+  });
+  return parameters;
+}
+
+function toNamedValues(parameters: MockParameters) {
+  return Object.keys(parameters).map(name => {
+    const value = parameters[name];
+    return Array.isArray(value) ? { name, isMultiValue: true, values: value } : { name, isMultiValue: false, value };
+  });
+}
+
+function isTrue(value: unknown): boolean {
+  return value === true || value === 'true';
+}
@@ -0,0 +1,254 @@
+import { toQName } from '../models/QName';
+
+/**
+ * The slice of the content and permission models MockAlfrescoServer knows about: property data types
+ * for typed results, the type hierarchy for TYPE queries and isSubClass, and the site roles.
+ */
+const PROPERTY_TYPES: Record<string, MockPropertyType> = {
+  'sys:store-protocol': { dataType: 'd:text', mandatory: true, readOnly: true },
+  'sys:store-identifier': { dataType: 'd:text', mandatory: true, readOnly: true },
+  'sys:node-uuid': { dataType: 'd:text', mandatory: true, readOnly: true },
+  'sys:node-dbid': { dataType: 'd:long', mandatory: true, readOnly: true },
+  'sys:locale': { dataType: 'd:locale' },
+  'sys:archivedBy': { dataType: 'd:text', mandatory: true },
+  'sys:archivedDate': { dataType: 'd:datetime', mandatory: true },
+  'sys:archivedOriginalParentAssoc': { dataType: 'd:childassocref', mandatory: true },
+  'cm:name': { dataType: 'd:text', mandatory: true },
+  'cm:title': { dataType: 'd:mltext' },
+  'cm:description': { dataType: 'd:mltext' },
+  'cm:author': { dataType: 'd:text' },
+  'cm:created': { dataType: 'd:datetime', mandatory: true, readOnly: true },
+  'cm:creator': { dataType: 'd:text', mandatory: true, readOnly: true },
+  'cm:modified': { dataType: 'd:datetime', mandatory: true, readOnly: true },
+  'cm:modifier': { dataType: 'd:text', mandatory: true, readOnly: true },
+  'cm:accessed': { dataType: 'd:datetime', readOnly: true },
+  'cm:content': { dataType: 'd:content' },
+  'cm:owner': { dataType: 'd:text' },
+  'cm:versionLabel': { dataType: 'd:text' },
+  'cm:lockOwner': { dataType: 'd:text' },
+  'cm:lockType': { dataType: 'd:text' },
+  'cm:workingCopyOwner': { dataType: 'd:text' },
+  'cm:initialVersion': { dataType: 'd:boolean' },
+  'cm:autoVersion': { dataType: 'd:boolean' },
+  'cm:counter': { dataType: 'd:int' },
+  'cm:latitude': { dataType: 'd:double' },
+  'cm:longitude': { dataType: 'd:double' },
+  'cm:from': { dataType: 'd:datetime' },
+  'cm:to': { dataType: 'd:datetime' },
+  'cm:taggable': { dataType: 'd:category', multiValued: true },
+  'cm:categories': { dataType: 'd:category', multiValued: true },
+};
+
+const SUPER_TYPES: Record<string, string> = {
+  'cm:cmobject': 'sys:base',
+  'cm:folder': 'cm:cmobject',
+  'cm:content': 'cm:cmobject',
+  'cm:systemfolder': 'cm:folder',
+  'cm:category_root': 'sys:base',
+  'cm:category': 'sys:base',
+  'st:sites': 'cm:folder',
+  'st:site': 'cm:folder',
+  'sys:store_root': 'sys:container',
+  'sys:container': 'sys:base',
+};
+
+// Properties a type adds to the ones it inherits
+const TYPE_PROPERTIES: Record<string, string[]> = {
+  'cm:cmobject': ['cm:name'],
+  'cm:content': ['cm:content'],
+};
+
+// The aspects the dictionary knows, with the properties removed together with them
+const ASPECT_PROPERTIES: Record<string, string[]> = {
+  'sys:referenceable': ['sys:store-protocol', 'sys:store-identifier', 'sys:node-uuid', 'sys:node-dbid'],
+  'sys:temporary': [],
+  'sys:archived': ['sys:archivedBy', 'sys:archivedDate', 'sys:archivedOriginalParentAssoc'],
+  'cm:auditable': ['cm:created', 'cm:creator', 'cm:modified', 'cm:modifier', 'cm:accessed'],
+  'cm:author': ['cm:author'],
+  'cm:titled': ['cm:title', 'cm:description'],
+  'cm:countable': ['cm:counter'],
+  'cm:geographic': ['cm:latitude', 'cm:longitude'],
+  'cm:effectivity': ['cm:from', 'cm:to'],
+  'cm:versionable': ['cm:versionLabel', 'cm:initialVersion', 'cm:autoVersion'],
+  'cm:lockable': ['cm:lockOwner', 'cm:lockType'],
+  'cm:workingcopy': ['cm:workingCopyOwner'],
+  'cm:ownable': ['cm:owner'],
+  'cm:copiedfrom': [],
+  'cm:referencing': [],
+  'cm:attachable': [],
+  'cm:generalclassifiable': ['cm:categories'],
+  'cm:taggable': ['cm:taggable'],
+};
+
+// Classification aspects and the property holding the categories a node is filed under
+const CLASSIFICATIONS: Record<string, string> = {
+  'cm:generalclassifiable': 'cm:categories',
+};
+
+const ASSOCIATIONS: Record<string, { sourceClass: string; targetClass: string; isChild?: boolean }> = {
+  'sys:children': { sourceClass: 'sys:container', targetClass: 'sys:base', isChild: true },
+  'cm:contains': { sourceClass: 'cm:folder', targetClass: 'sys:base', isChild: true },
+  'cm:categories': { sourceClass: 'cm:category_root', targetClass: 'cm:category', isChild: true },
+  'cm:subcategories': { sourceClass: 'cm:category', targetClass: 'cm:category', isChild: true },
+  'cm:original': { sourceClass: 'cm:copiedfrom', targetClass: 'cm:cmobject' },
+  'cm:references': { sourceClass: 'cm:referencing', targetClass: 'cm:cmobject' },
+  'cm:attachments': { sourceClass: 'cm:attachable', targetClass: 'cm:cmobject' },
+};
+
+// Low-level permissions each role grants; a role also grants itself
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  Coordinator: ['Read', 'Write', 'Delete', 'AddChildren', 'ChangePermissions', 'TakeOwnership'],
+  Collaborator: ['Read', 'Write', 'AddChildren'],
+  Contributor: ['Read', 'AddChildren'],
+  Editor: ['Read', 'Write'],
+  Consumer: ['Read'],
+};
+
+/**
+ * Permissions that can be set on any node or class: the roles, then the permissions they group
+ */
+export const SETTABLE_PERMISSIONS = [...Object.keys(ROLE_PERMISSIONS), ...ROLE_PERMISSIONS.Coordinator];
+
+/**
+ * Whether an access control entry for `granted` covers `permission`
+ */
+export function impliesPermission(granted: string, permission: string): boolean {
+  return granted === permission || (ROLE_PERMISSIONS[granted] || []).includes(permission);
+}
+
+/**
+ * Dictionary entry of a property; names and data types may be prefixed or full QNames
+ */
+export interface MockPropertyType {
+  dataType: string;
+  multiValued?: boolean;
+  mandatory?: boolean;
+  readOnly?: boolean;
+}
+
+export interface MockPropertyDefinition {
+  name: string;
+  dataType: string;
+  mandatory: boolean;
+  readOnly: boolean;
+  multiValued: boolean;
+}
+
+export interface MockAssociationDefinition {
+  name: string;
+  isChild: boolean;
+  sourceClass: string;
+  targetClass: string;
+}
+
+export interface MockClassDefinition {
+  name: string;
+  isAspect: boolean;
+  superClass?: string;
+  /**
+   * Including the inherited ones
+   */
+  properties: MockPropertyDefinition[];
+  associations: MockAssociationDefinition[];
+}
+
+const DEFINITIONS = toPropertyDefinitions(PROPERTY_TYPES);
+
+const TYPE_PROPERTY_QNAMES = new Map(Object.keys(TYPE_PROPERTIES).map(type => [toQName(type), TYPE_PROPERTIES[type].map(toQName)]));
+
+const ASPECT_PROPERTY_QNAMES = new Map(Object.keys(ASPECT_PROPERTIES).map(aspect => [toQName(aspect), ASPECT_PROPERTIES[aspect].map(toQName)]));
+
+const SUPER_TYPE_QNAMES = new Map(Object.keys(SUPER_TYPES).map(type => [toQName(type), toQName(SUPER_TYPES[type])]));
+
+const CLASSIFICATION_QNAMES = new Map(Object.keys(CLASSIFICATIONS).map(aspect => [toQName(aspect), toQName(CLASSIFICATIONS[aspect])]));
+
+const TYPE_QNAMES = new Set([...SUPER_TYPE_QNAMES.keys(), ...SUPER_TYPE_QNAMES.values()]);
+
+const ASSOCIATION_DEFINITIONS = new Map(Object.keys(ASSOCIATIONS).map(name => {
+  const { sourceClass, targetClass, isChild } = ASSOCIATIONS[name];
+  const qname = toQName(name);
+  return [qname, { name: qname, isChild: !!isChild, sourceClass: toQName(sourceClass), targetClass: toQName(targetClass) }];
+}));
+
+export function propertyDefinition(qname: string): MockPropertyDefinition | undefined {
+  return DEFINITIONS.get(qname);
+}
+
+/**
+ * Definitions keyed by full QName
+ */
+export function toPropertyDefinitions(types: Record<string, MockPropertyType>): Map<string, MockPropertyDefinition> {
+  return new Map(Object.keys(types).map(name => {
+    const { dataType, multiValued, mandatory, readOnly } = types[name];
+    const qname = toQName(name);
+    return [qname, { name: qname, dataType: toQName(dataType), mandatory: !!mandatory, readOnly: !!readOnly, multiValued: !!multiValued }];
+  }));
+}
+
+/**
+ * Properties defined by an aspect (full QNames)
+ */
+export function aspectProperties(aspect: string): string[] {
+  return ASPECT_PROPERTY_QNAMES.get(aspect) || [];
+}
+
+/**
+ * Whether `type` is `superType` or one of its subtypes (full QNames)
+ */
+export function isSubType(type: string, superType: string): boolean {
+  for (let current: string | undefined = type; current; current = SUPER_TYPE_QNAMES.get(current)) {
+    if (current === superType) return true;
+  }
+  return false;
+}
+
+/**
+ * Types that derive from `type`, directly or not (full QNames)
+ */
+export function subTypes(type: string): string[] {
+  return Array.from(TYPE_QNAMES).filter(candidate => candidate !== type && isSubType(candidate, type));
+}
+
+/**
+ * Ancestors of `type`, nearest first (full QNames)
+ */
+export function superTypes(type: string): string[] {
+  const ancestors: string[] = [];
+  for (let current = SUPER_TYPE_QNAMES.get(type); current; current = SUPER_TYPE_QNAMES.get(current)) ancestors.push(current);
+  return ancestors;
+}
+
+/**
+ * Definition of a type or aspect (full QName); types include what they inherit
+ */
+export function classDefinition(qname: string): MockClassDefinition | undefined {
+  const isAspect = ASPECT_PROPERTY_QNAMES.has(qname);
+  if (!isAspect && !TYPE_QNAMES.has(qname)) return undefined;
+  const classes = isAspect ? [qname] : [qname, ...superTypes(qname)];
+  const propertyNames = classes.flatMap(name => (isAspect ? ASPECT_PROPERTY_QNAMES : TYPE_PROPERTY_QNAMES).get(name) || []);
+  return {
+    name: qname,
+    isAspect,
+    superClass: SUPER_TYPE_QNAMES.get(qname),
+    properties: propertyNames.map(name => DEFINITIONS.get(name)).filter((p): p is MockPropertyDefinition => p !== undefined),
+    associations: Array.from(ASSOCIATION_DEFINITIONS.values()).filter(association => classes.includes(association.sourceClass)),
+  };
+}
+
+export function associationDefinition(qname: string): MockAssociationDefinition | undefined {
+  return ASSOCIATION_DEFINITIONS.get(qname);
+}
+
+/**
+ * Classification aspects (full QNames)
+ */
+export function classifications(): string[] {
+  return Array.from(CLASSIFICATION_QNAMES.keys());
+}
+
+/**
+ * Property a classification aspect files categories in, e.g. cm:categories for cm:generalclassifiable (full QNames)
+ */
+export function classificationProperty(classification: string): string | undefined {
+  return CLASSIFICATION_QNAMES.get(classification);
+}
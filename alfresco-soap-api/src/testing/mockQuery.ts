@@ -0,0 +1,318 @@
+import { decodeISO9075, toQName } from '../models/QName';
+import { isSubType } from './mockModel';
+
+/**
+ * What a query can see of a node in MockRepository
+ */
+export interface QueryableNode {
+  nodeRef: string;
+  parentRef?: string;
+  type: string;
+  aspects: string[];
+  /**
+   * Child association QNames from the store root down to the node
+   */
+  path: string[];
+  /**
+   * Further paths Alfresco indexes: a category's path below the category root, and `.../member` below
+   * each category the node is filed under
+   */
+  categoryPaths: string[][];
+  properties: Record<string, string | string[] | null>;
+  text: string;
+}
+
+export type NodeMatcher = (node: QueryableNode) => boolean;
+
+/**
+ * The statement uses syntax the mock does not implement (OR, grouping, unknown fields, ...)
+ */
+export class UnsupportedQueryError extends Error {}
+
+type TermValue =
+  | { kind: 'phrase'; text: string }
+  | { kind: 'pattern'; pattern: RegExp }
+  | { kind: 'range'; from?: string; to?: string; fromInclusive: boolean; toInclusive: boolean };
+
+interface Term {
+  negate: boolean;
+  exact: boolean;
+  field: string;
+  value: TermValue;
+}
+
+/**
+ * Compile a lucene or fts-alfresco statement made of ANDed field conditions, the subset QueryBuilder
+ * and AlfrescoClient produce: PATH, PARENT, ID, TYPE, EXACTTYPE, ASPECT, TEXT and property fields with
+ * phrases, wildcard terms and ranges, each optionally negated.
+ */
+export function parseQuery(statement: string, language: string): NodeMatcher {
+  if (language !== 'lucene' && language !== 'fts-alfresco') {
+    throw new UnsupportedQueryError(`Unsupported query language: ${language}`);
+  }
+  const terms = new Parser(statement).parse();
+  if (!terms.length) {
+    throw new UnsupportedQueryError('Empty query');
+  }
+  const matchers = terms.map(term => {
+    const matches = termMatcher(term);
+    return (node: QueryableNode) => matches(node) !== term.negate;
+  });
+  return node => matchers.every(matches => matches(node));
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): Term[] {
+    const terms: Term[] = [];
+    let negateNext = false;
+    for (this.skipSpace(); this.position < this.text.length; this.skipSpace()) {
+      const keyword = /^(AND|OR|NOT)(?=\s|$)/.exec(this.text.substring(this.position));
+      if (keyword) {
+        this.position += keyword[1].length;
+        if (keyword[1] === 'OR') throw new UnsupportedQueryError('OR is not supported by the mock repository');
+        if (keyword[1] === 'NOT') negateNext = true;
+        continue;
+      }
+      let negate = negateNext;
+      negateNext = false;
+      if (this.peek() === '+') {
+        this.position++;
+      } else if (this.peek() === '-') {
+        negate = true;
+        this.position++;
+      }
+      const exact = this.peek() === '=';
+      if (exact) this.position++;
+      const field = this.readField();
+      terms.push({ negate, exact, field, value: this.readValue() });
+    }
+    return terms;
+  }
+
+  private readField(): string {
+    let field = '';
+    while (this.position < this.text.length) {
+      const c = this.text[this.position++];
+      if (c === '\\') {
+        field += this.text[this.position++] ?? '';
+      } else if (c === ':') {
+        if (!field) break;
+        // fts-alfresco writes property fields unescaped as prefix:local:value
+        const local = /^[\w-]+(?=:)/.exec(this.text.substring(this.position));
+        if (local && !field.includes(':') && field !== field.toUpperCase()) {
+          field += ':' + local[0];
+          this.position += local[0].length + 1;
+        }
+        return field;
+      } else if (/[\s()"]/.test(c)) {
+        break;
+      } else {
+        field += c;
+      }
+    }
+    throw new UnsupportedQueryError(`Expected field:value at position ${this.position} of ${this.text}`);
+  }
+
+  private readValue(): TermValue {
+    const c = this.peek();
+    if (c === '"') {
+      return { kind: 'phrase', text: this.readQuoted() };
+    }
+    if (c === '[' || c === '{') {
+      this.position++;
+      const from = this.readRangeEnd();
+      this.skipSpace();
+      if (!this.text.startsWith('TO', this.position)) {
+        throw new UnsupportedQueryError(`Expected TO in range of ${this.text}`);
+      }
+      this.position += 2;
+      const to = this.readRangeEnd();
+      this.skipSpace();
+      const close = this.text[this.position++];
+      if (close !== ']' && close !== '}') {
+        throw new UnsupportedQueryError(`Unterminated range in ${this.text}`);
+      }
+      return { kind: 'range', from, to, fromInclusive: c === '[', toInclusive: close === ']' };
+    }
+    if (c === '(' || c === undefined) {
+      throw new UnsupportedQueryError(`Unsupported value at position ${this.position} of ${this.text}`);
+    }
+    let source = '';
+    while (this.position < this.text.length && !/\s/.test(this.peek()!)) {
+      const char = this.text[this.position++];
+      if (char === '\\') {
+        source += escapeRegExp(this.text[this.position++] ?? '');
+      } else if (char === '*') {
+        source += '.*';
+      } else if (char === '?') {
+        source += '.';
+      } else {
+        source += escapeRegExp(char);
+      }
+    }
+    return { kind: 'pattern', pattern: new RegExp(`^${source}$`, 'iu') };
+  }
+
+  // Range ends are quoted, bare or MIN/MAX for an open end
+  private readRangeEnd(): string | undefined {
+    this.skipSpace();
+    if (this.peek() === '"') return this.readQuoted();
+    let value = '';
+    while (this.position < this.text.length && !/[\s\]}]/.test(this.peek()!)) {
+      const char = this.text[this.position++];
+      value += char === '\\' ? this.text[this.position++] ?? '' : char;
+    }
+    return value === 'MIN' || value === 'MAX' || value === '' ? undefined : value;
+  }
+
+  private readQuoted(): string {
+    this.position++;
+    let value = '';
+    while (this.position < this.text.length) {
+      const c = this.text[this.position++];
+      if (c === '\\') {
+        value += this.text[this.position++] ?? '';
+      } else if (c === '"') {
+        return value;
+      } else {
+        value += c;
+      }
+    }
+    throw new UnsupportedQueryError(`Unterminated phrase in ${this.text}`);
+  }
+
+  private peek(): string | undefined {
+    return this.text[this.position];
+  }
+
+  private skipSpace() {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position])) this.position++;
+  }
+}
+
+function termMatcher(term: Term): NodeMatcher {
+  const { field, value } = term;
+  switch (field) {
+    case 'PATH': {
+      const steps = pathSteps(literal(value));
+      return node => [node.path, ...node.categoryPaths].some(path => pathMatches(steps, 0, path.map(normalizeStep), 0));
+    }
+    case 'PARENT': {
+      const parentRef = literal(value);
+      return node => node.parentRef === parentRef;
+    }
+    case 'ID': {
+      const nodeRef = literal(value);
+      return node => node.nodeRef === nodeRef;
+    }
+    case 'TYPE': {
+      const type = qname(literal(value));
+      return node => isSubType(node.type, type);
+    }
+    case 'EXACTTYPE': {
+      const type = qname(literal(value));
+      return node => node.type === type;
+    }
+    case 'ASPECT': {
+      const aspect = qname(literal(value));
+      return node => node.aspects.includes(aspect);
+    }
+    case 'TEXT':
+      return node => valueMatches(node.text, value, term.exact)
+        || Object.values(node.properties).some(v => values(v).some(text => valueMatches(text, value, term.exact)));
+  }
+  const property = qname(field.startsWith('@') ? field.substring(1) : field);
+  return node => values(node.properties[property]).some(text => valueMatches(text, value, term.exact));
+}
+
+function valueMatches(text: string, value: TermValue, exact: boolean): boolean {
+  switch (value.kind) {
+    case 'phrase':
+      return exact ? text === value.text : containsPhrase(tokens(text), tokens(value.text));
+    case 'pattern':
+      return value.pattern.test(text) || tokens(text).some(token => value.pattern.test(token));
+    case 'range': {
+      const aboveFrom = value.from === undefined || compare(text, value.from) > (value.fromInclusive ? -1 : 0);
+      const belowTo = value.to === undefined || compare(text, value.to) < (value.toInclusive ? 1 : 0);
+      return aboveFrom && belowTo;
+    }
+  }
+}
+
+function literal(value: TermValue): string {
+  if (value.kind === 'phrase') return value.text;
+  throw new UnsupportedQueryError('Expected a quoted value');
+}
+
+function qname(name: string): string {
+  try {
+    return toQName(name);
+  } catch (error) {
+    throw new UnsupportedQueryError((error as Error).message);
+  }
+}
+
+function values(value: string | string[] | null | undefined): string[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Lucene analyzes text into lowercase words; a phrase matches consecutive words
+function tokens(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function containsPhrase(words: string[], phrase: string[]): boolean {
+  if (!phrase.length) return false;
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, j) => words[i + j] === word)) return true;
+  }
+  return false;
+}
+
+function compare(a: string, b: string): number {
+  const isDate = (s: string) => /^\d{4}-\d{2}-\d{2}/.test(s);
+  if (isDate(a) && isDate(b)) return Date.parse(a) - Date.parse(b);
+  if (!isNaN(Number(a)) && !isNaN(Number(b)) && a.trim() && b.trim()) return Number(a) - Number(b);
+  return a.localeCompare(b);
+}
+
+// '' stands for the descendant-or-self step written as //
+function pathSteps(path: string): string[] {
+  if (!path.startsWith('/')) {
+    throw new UnsupportedQueryError(`Only absolute paths are supported: ${path}`);
+  }
+  const steps = path.substring(1).split('/');
+  if (steps[steps.length - 1] === '') steps.pop();
+  return steps.map(step => (step === '' ? '' : step === '*' ? '*' : normalizeStep(qname(step))));
+}
+
+function normalizeStep(step: string): string {
+  const match = /^\{([^}]*)\}(.*)$/.exec(step);
+  if (!match) return step;
+  return match[2] === '*' ? `{${match[1]}}*` : `{${match[1]}}${decodeISO9075(match[2])}`;
+}
+
+function pathMatches(steps: string[], s: number, path: string[], p: number): boolean {
+  if (s === steps.length) return p === path.length;
+  const step = steps[s];
+  if (step === '') {
+    for (let k = p; k <= path.length; k++) {
+      if (pathMatches(steps, s + 1, path, k)) return true;
+    }
+    return false;
+  }
+  if (p === path.length) return false;
+  const matches = step === '*'
+    || step === path[p]
+    || (step.endsWith('}*') && path[p].startsWith(step.substring(0, step.length - 1)));
+  return matches && pathMatches(steps, s + 1, path, p + 1);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,433 @@
+/**
+ * WSDL documents served by MockAlfrescoServer. They describe the same operations, element names and
+ * shapes as Alfresco's web service WSDLs, flattened into one schema per service.
+ */
+
+interface Operation {
+  name: string;
+  input: string;
+  output: string;
+}
+
+interface ServiceDefinition {
+  name: string;
+  namespace: string;
+  types: string;
+  operations: Operation[];
+}
+
+const one = (name: string, type: string) => `<xsd:element name="${name}" type="${type}"/>`;
+const optional = (name: string, type: string) => `<xsd:element name="${name}" type="${type}" minOccurs="0" nillable="true"/>`;
+const many = (name: string, type: string) => `<xsd:element name="${name}" type="${type}" minOccurs="0" maxOccurs="unbounded"/>`;
+const complexType = (name: string, ...elements: string[]) =>
+  `<xsd:complexType name="${name}"><xsd:sequence>${elements.join('')}</xsd:sequence></xsd:complexType>`;
+
+const REFERENCE_TYPES = [
+  complexType('Store', one('scheme', 'xsd:string'), one('address', 'xsd:string')),
+  complexType('Reference', one('store', 'tns:Store'), optional('uuid', 'xsd:string'), optional('path', 'xsd:string')),
+  complexType(
+    'ParentReference',
+    one('store', 'tns:Store'),
+    optional('uuid', 'xsd:string'),
+    optional('path', 'xsd:string'),
+    optional('associationType', 'xsd:string'),
+    optional('childName', 'xsd:string')
+  ),
+  complexType('Predicate', many('nodes', 'tns:Reference'), optional('store', 'tns:Store')),
+  complexType('NamedValue', one('name', 'xsd:string'), one('isMultiValue', 'xsd:boolean'), optional('value', 'xsd:string'), many('values', 'xsd:string')),
+].join('');
+
+const QUERY_TYPES = [
+  complexType('Query', one('language', 'xsd:string'), one('statement', 'xsd:string')),
+  complexType('Association', optional('associationType', 'xsd:string'), one('direction', 'xsd:string')),
+  complexType('ResultSetRowNode', one('id', 'xsd:string'), one('type', 'xsd:string'), many('aspects', 'xsd:string')),
+  complexType('ResultSetRow', one('rowIndex', 'xsd:long'), many('columns', 'tns:NamedValue'), optional('score', 'xsd:float'), optional('node', 'tns:ResultSetRowNode')),
+  complexType('ValueDefinition', one('name', 'xsd:string'), one('dataType', 'xsd:string')),
+  complexType('ResultSetMetaData', many('valueDefs', 'tns:ValueDefinition')),
+  complexType('ResultSet', optional('metaData', 'tns:ResultSetMetaData'), many('rows', 'tns:ResultSetRow'), one('totalRowCount', 'xsd:long')),
+  complexType('QueryResult', optional('querySession', 'xsd:string'), one('resultSet', 'tns:ResultSet')),
+  complexType('Node', one('reference', 'tns:Reference'), one('type', 'xsd:string'), many('aspects', 'xsd:string'), many('properties', 'tns:NamedValue')),
+].join('');
+
+// Each statement targets nodes by Predicate or by the id of a node created earlier in the same block
+const where = [optional('where', 'tns:Predicate'), optional('where_id', 'xsd:string')];
+const parent = (field: string) => [
+  optional(field, 'tns:ParentReference'),
+  optional(`${field}_id`, 'xsd:string'),
+  optional('associationType', 'xsd:string'),
+  optional('childName', 'xsd:string'),
+];
+
+const ends = [
+  optional('from', 'tns:Predicate'),
+  optional('from_id', 'xsd:string'),
+  optional('to', 'tns:Predicate'),
+  optional('to_id', 'xsd:string'),
+];
+
+const CML_TYPES = [
+  complexType('CMLCreate', optional('id', 'xsd:string'), ...parent('parent'), one('type', 'xsd:string'), many('property', 'tns:NamedValue')),
+  complexType('CMLAddAspect', one('aspect', 'xsd:string'), many('property', 'tns:NamedValue'), ...where),
+  complexType('CMLRemoveAspect', one('aspect', 'xsd:string'), ...where),
+  complexType('CMLUpdate', many('property', 'tns:NamedValue'), ...where),
+  complexType('CMLDelete', one('where', 'tns:Predicate')),
+  complexType('CMLMove', ...parent('to'), ...where),
+  complexType('CMLCopy', ...parent('to'), ...where, optional('children', 'xsd:boolean')),
+  complexType('CMLAddChild', ...parent('to'), ...where),
+  complexType('CMLRemoveChild', optional('from', 'tns:Reference'), optional('from_id', 'xsd:string'), ...where),
+  complexType('CMLCreateAssociation', ...ends, one('association', 'xsd:string')),
+  complexType('CMLRemoveAssociation', ...ends, one('association', 'xsd:string')),
+  complexType(
+    'CML',
+    many('create', 'tns:CMLCreate'),
+    many('addAspect', 'tns:CMLAddAspect'),
+    many('removeAspect', 'tns:CMLRemoveAspect'),
+    many('update', 'tns:CMLUpdate'),
+    many('delete', 'tns:CMLDelete'),
+    many('move', 'tns:CMLMove'),
+    many('copy', 'tns:CMLCopy'),
+    many('addChild', 'tns:CMLAddChild'),
+    many('removeChild', 'tns:CMLRemoveChild'),
+    many('createAssociation', 'tns:CMLCreateAssociation'),
+    many('removeAssociation', 'tns:CMLRemoveAssociation')
+  ),
+  complexType(
+    'UpdateResult',
+    one('statement', 'xsd:string'),
+    one('updateCount', 'xsd:int'),
+    optional('sourceId', 'xsd:string'),
+    optional('source', 'tns:Reference'),
+    optional('destination', 'tns:Reference')
+  ),
+].join('');
+
+const CONTENT_TYPES = [
+  complexType('ContentFormat', one('mimetype', 'xsd:string'), optional('encoding', 'xsd:string')),
+  complexType('Content', one('node', 'tns:Reference'), one('property', 'xsd:string'), one('length', 'xsd:long'), optional('format', 'tns:ContentFormat'), optional('url', 'xsd:string')),
+].join('');
+
+const DICTIONARY_TYPES = [
+  complexType(
+    'PropertyDefinition',
+    one('name', 'xsd:string'),
+    optional('title', 'xsd:string'),
+    optional('description', 'xsd:string'),
+    one('dataType', 'xsd:string'),
+    one('mandatory', 'xsd:boolean'),
+    one('readOnly', 'xsd:boolean'),
+    one('multiValued', 'xsd:boolean'),
+    optional('defaultValue', 'xsd:string')
+  ),
+  complexType(
+    'AssociationDefinition',
+    one('name', 'xsd:string'),
+    optional('title', 'xsd:string'),
+    optional('description', 'xsd:string'),
+    one('isChild', 'xsd:boolean'),
+    one('sourceClass', 'xsd:string'),
+    one('targetClass', 'xsd:string')
+  ),
+  complexType(
+    'ClassDefinition',
+    one('name', 'xsd:string'),
+    optional('title', 'xsd:string'),
+    optional('description', 'xsd:string'),
+    optional('superClass', 'xsd:string'),
+    one('isAspect', 'xsd:boolean'),
+    many('properties', 'tns:PropertyDefinition'),
+    many('associations', 'tns:AssociationDefinition')
+  ),
+  complexType('ClassPredicate', many('names', 'xsd:string'), one('followSubClass', 'xsd:boolean'), one('followSuperClass', 'xsd:boolean')),
+].join('');
+
+const AUTHORING_TYPES = [
+  complexType('CheckoutResult', many('originals', 'tns:Reference'), many('workingCopies', 'tns:Reference')),
+  complexType('CheckinResult', many('checkedIn', 'tns:Reference'), many('workingCopies', 'tns:Reference')),
+  complexType('CancelCheckoutResult', many('originals', 'tns:Reference'), many('workingCopies', 'tns:Reference')),
+  complexType('LockStatus', one('node', 'tns:Reference'), optional('lockType', 'xsd:string'), optional('lockOwner', 'xsd:string')),
+  complexType(
+    'Version',
+    one('id', 'tns:Reference'),
+    one('label', 'xsd:string'),
+    one('created', 'xsd:dateTime'),
+    one('creator', 'xsd:string'),
+    one('major', 'xsd:boolean'),
+    many('commentaries', 'tns:NamedValue')
+  ),
+  complexType('VersionHistory', many('versions', 'tns:Version')),
+  complexType('VersionResult', many('nodes', 'tns:Reference'), many('versions', 'tns:Version')),
+].join('');
+
+const ACCESS_CONTROL_TYPES = [
+  complexType('ACE', one('authority', 'xsd:string'), one('permission', 'xsd:string'), one('accessStatus', 'xsd:string')),
+  complexType('ACL', one('reference', 'tns:Reference'), one('inheritPermissions', 'xsd:boolean'), many('aces', 'tns:ACE')),
+  complexType('ACLFilter', optional('authorityType', 'xsd:string')),
+  complexType('GetPermissionsResult', one('reference', 'tns:Reference'), many('permissions', 'xsd:string')),
+  complexType('GetClassPermissionsResult', one('className', 'xsd:string'), many('permissions', 'xsd:string')),
+  complexType('HasPermissionsResult', one('reference', 'tns:Reference'), one('permission', 'xsd:string'), one('accessStatus', 'xsd:string')),
+  complexType('OwnerResult', one('reference', 'tns:Reference'), one('owner', 'xsd:string')),
+].join('');
+
+const ADMINISTRATION_TYPES = [
+  complexType('UserFilter', optional('userName', 'xsd:string')),
+  complexType('UserDetails', one('userName', 'xsd:string'), many('properties', 'tns:NamedValue')),
+  complexType('NewUserDetails', one('userName', 'xsd:string'), one('password', 'xsd:string'), many('properties', 'tns:NamedValue')),
+  complexType('UserQueryResults', optional('querySession', 'xsd:string'), many('userDetails', 'tns:UserDetails')),
+].join('');
+
+const ACTION_TYPES = [
+  complexType('ParameterDefinition', one('name', 'xsd:string'), one('type', 'xsd:string'), one('isMandatory', 'xsd:boolean'), optional('displayLabel', 'xsd:string')),
+  complexType(
+    'ActionItemDefinition',
+    one('name', 'xsd:string'),
+    optional('title', 'xsd:string'),
+    optional('description', 'xsd:string'),
+    one('adHocPropertiesAllowed', 'xsd:boolean'),
+    many('parameterDefinition', 'tns:ParameterDefinition')
+  ),
+  complexType('Condition', optional('id', 'xsd:string'), one('conditionName', 'xsd:string'), one('invertCondition', 'xsd:boolean'), many('parameters', 'tns:NamedValue')),
+  complexType(
+    'Action',
+    optional('id', 'xsd:string'),
+    one('actionName', 'xsd:string'),
+    optional('title', 'xsd:string'),
+    optional('description', 'xsd:string'),
+    one('executeAsynchronously', 'xsd:boolean'),
+    many('parameters', 'tns:NamedValue'),
+    many('conditions', 'tns:Condition'),
+    many('actions', 'tns:Action')
+  ),
+  complexType('ActionFilter', many('ids', 'xsd:string'), optional('actionName', 'xsd:string')),
+  complexType('ActionExecutionResult', one('reference', 'tns:Reference'), many('actions', 'tns:Action')),
+  complexType(
+    'Rule',
+    optional('ruleReference', 'tns:Reference'),
+    optional('owningReference', 'tns:Reference'),
+    many('ruleTypes', 'xsd:string'),
+    optional('title', 'xsd:string'),
+    optional('description', 'xsd:string'),
+    one('executeAsynchronously', 'xsd:boolean'),
+    one('action', 'tns:Action')
+  ),
+  complexType('RuleFilter', many('ids', 'xsd:string'), optional('ruleTypeName', 'xsd:string'), optional('includeInherited', 'xsd:boolean')),
+].join('');
+
+const CLASSIFICATION_TYPES = [
+  complexType('Category', one('id', 'tns:Reference'), one('title', 'xsd:string')),
+  complexType(
+    'Classification',
+    one('classification', 'xsd:string'),
+    optional('rootCategory', 'tns:Category'),
+    optional('title', 'xsd:string'),
+    optional('description', 'xsd:string')
+  ),
+  complexType('AppliedCategory', one('classification', 'xsd:string'), many('categories', 'tns:Reference')),
+  complexType('CategoriesResult', one('node', 'tns:Reference'), many('categories', 'tns:AppliedCategory')),
+].join('');
+
+const op = (name: string, input: string[], output: string[]): Operation => ({
+  name,
+  input: input.join(''),
+  output: output.join(''),
+});
+
+export const MOCK_SERVICES: ServiceDefinition[] = [
+  {
+    name: 'AuthenticationService',
+    namespace: 'http://www.alfresco.org/ws/service/authentication/1.0',
+    types: complexType('AuthenticationResult', one('username', 'xsd:string'), one('ticket', 'xsd:string'), optional('sessionid', 'xsd:string')),
+    operations: [
+      op('startSession', [one('username', 'xsd:string'), one('password', 'xsd:string')], [one('startSessionReturn', 'tns:AuthenticationResult')]),
+      op('endSession', [one('ticket', 'xsd:string')], []),
+    ],
+  },
+  {
+    name: 'RepositoryService',
+    namespace: 'http://www.alfresco.org/ws/service/repository/1.0',
+    types: REFERENCE_TYPES + QUERY_TYPES + CML_TYPES,
+    operations: [
+      op('getStores', [], [many('getStoresReturn', 'tns:Store')]),
+      op('query', [one('store', 'tns:Store'), one('query', 'tns:Query'), one('includeMetaData', 'xsd:boolean')], [one('queryReturn', 'tns:QueryResult')]),
+      op('queryChildren', [one('node', 'tns:Reference')], [one('queryReturn', 'tns:QueryResult')]),
+      op('queryParents', [one('node', 'tns:Reference')], [one('queryReturn', 'tns:QueryResult')]),
+      op('queryAssociated', [one('node', 'tns:Reference'), many('association', 'tns:Association')], [one('queryReturn', 'tns:QueryResult')]),
+      op('fetchMore', [one('querySession', 'xsd:string')], [one('queryReturn', 'tns:QueryResult')]),
+      op('get', [one('where', 'tns:Predicate')], [many('getReturn', 'tns:Node')]),
+      op('update', [one('statements', 'tns:CML')], [many('updateReturn', 'tns:UpdateResult')]),
+    ],
+  },
+  {
+    name: 'ContentService',
+    namespace: 'http://www.alfresco.org/ws/service/content/1.0',
+    types: REFERENCE_TYPES + CONTENT_TYPES,
+    operations: [
+      op('read', [one('items', 'tns:Predicate'), one('property', 'xsd:string')], [many('content', 'tns:Content')]),
+      op(
+        'write',
+        [one('node', 'tns:Reference'), one('property', 'xsd:string'), one('content', 'xsd:base64Binary'), optional('format', 'tns:ContentFormat')],
+        [one('writeReturn', 'tns:Content')]
+      ),
+      op('clear', [one('items', 'tns:Predicate'), one('property', 'xsd:string')], [many('content', 'tns:Content')]),
+    ],
+  },
+  {
+    name: 'AuthoringService',
+    namespace: 'http://www.alfresco.org/ws/service/authoring/1.0',
+    types: REFERENCE_TYPES + CONTENT_TYPES + AUTHORING_TYPES,
+    operations: [
+      op('checkout', [one('items', 'tns:Predicate'), optional('destination', 'tns:ParentReference')], [one('checkoutReturn', 'tns:CheckoutResult')]),
+      op(
+        'checkin',
+        [one('items', 'tns:Predicate'), many('comments', 'tns:NamedValue'), one('keepCheckedOut', 'xsd:boolean')],
+        [one('checkinReturn', 'tns:CheckinResult')]
+      ),
+      op(
+        'checkinExternal',
+        [
+          one('items', 'tns:Reference'),
+          many('comments', 'tns:NamedValue'),
+          one('keepCheckedOut', 'xsd:boolean'),
+          one('format', 'tns:ContentFormat'),
+          one('content', 'xsd:base64Binary'),
+        ],
+        [one('checkinExternalReturn', 'tns:Reference')]
+      ),
+      op('cancelCheckout', [one('items', 'tns:Predicate')], [one('cancelCheckoutReturn', 'tns:CancelCheckoutResult')]),
+      op('lock', [one('items', 'tns:Predicate'), one('deep', 'xsd:boolean'), one('lockType', 'xsd:string')], [many('lockReturn', 'tns:Reference')]),
+      op('unlock', [one('items', 'tns:Predicate'), one('deep', 'xsd:boolean')], [many('unlockReturn', 'tns:Reference')]),
+      op('getLockStatus', [one('items', 'tns:Predicate')], [many('getLockStatusReturn', 'tns:LockStatus')]),
+      op(
+        'createVersion',
+        [one('items', 'tns:Predicate'), many('comments', 'tns:NamedValue'), one('versionChildren', 'xsd:boolean')],
+        [one('createVersionReturn', 'tns:VersionResult')]
+      ),
+      op('getVersionHistory', [one('node', 'tns:Reference')], [one('getVersionHistoryReturn', 'tns:VersionHistory')]),
+      op('revertVersion', [one('node', 'tns:Reference'), one('versionLabel', 'xsd:string')], []),
+      op('deleteAllVersions', [one('node', 'tns:Reference')], [one('deleteAllVersionsReturn', 'tns:VersionHistory')]),
+    ],
+  },
+  {
+    name: 'AccessControlService',
+    namespace: 'http://www.alfresco.org/ws/service/accesscontrol/1.0',
+    types: REFERENCE_TYPES + ACCESS_CONTROL_TYPES,
+    operations: [
+      op('getACLs', [one('predicate', 'tns:Predicate'), optional('filter', 'tns:ACLFilter')], [many('getACLsReturn', 'tns:ACL')]),
+      op('addACEs', [one('predicate', 'tns:Predicate'), many('aces', 'tns:ACE')], [many('addACEsReturn', 'tns:ACL')]),
+      op('removeACEs', [one('predicate', 'tns:Predicate'), many('aces', 'tns:ACE')], [many('removeACEsReturn', 'tns:ACL')]),
+      op('getPermissions', [one('predicate', 'tns:Predicate')], [many('getPermissionsReturn', 'tns:GetPermissionsResult')]),
+      op('getClassPermissions', [many('classNames', 'xsd:string')], [many('getClassPermissionsReturn', 'tns:GetClassPermissionsResult')]),
+      op(
+        'hasPermissions',
+        [one('predicate', 'tns:Predicate'), many('permissions', 'xsd:string')],
+        [many('hasPermissionsReturn', 'tns:HasPermissionsResult')]
+      ),
+      op('setInheritPermission', [one('predicate', 'tns:Predicate'), one('inheritPermission', 'xsd:boolean')], [many('setInheritPermissionReturn', 'tns:ACL')]),
+      op('getOwners', [one('predicate', 'tns:Predicate')], [many('getOwnersReturn', 'tns:OwnerResult')]),
+      op('setOwners', [one('predicate', 'tns:Predicate'), one('owner', 'xsd:string')], [many('setOwnersReturn', 'tns:OwnerResult')]),
+    ],
+  },
+  {
+    name: 'AdministrationService',
+    namespace: 'http://www.alfresco.org/ws/service/administration/1.0',
+    types: REFERENCE_TYPES + ADMINISTRATION_TYPES,
+    operations: [
+      op('queryUsers', [optional('filter', 'tns:UserFilter')], [one('result', 'tns:UserQueryResults')]),
+      op('fetchMoreUsers', [one('querySession', 'xsd:string')], [one('result', 'tns:UserQueryResults')]),
+      op('getUser', [one('userName', 'xsd:string')], [optional('result', 'tns:UserDetails')]),
+      op('createUsers', [many('newUsers', 'tns:NewUserDetails')], [many('result', 'tns:UserDetails')]),
+      op('updateUsers', [many('users', 'tns:UserDetails')], [many('result', 'tns:UserDetails')]),
+      op('changePassword', [one('userName', 'xsd:string'), one('oldPassword', 'xsd:string'), one('newPassword', 'xsd:string')], []),
+      op('deleteUsers', [many('userNames', 'xsd:string')], []),
+    ],
+  },
+  {
+    name: 'ActionService',
+    namespace: 'http://www.alfresco.org/ws/service/action/1.0',
+    types: REFERENCE_TYPES + ACTION_TYPES,
+    operations: [
+      op('getConditionDefinitions', [], [many('getConditionDefinitionsReturn', 'tns:ActionItemDefinition')]),
+      op('getActionDefinitions', [], [many('getActionDefinitionsReturn', 'tns:ActionItemDefinition')]),
+      op('executeActions', [one('predicate', 'tns:Predicate'), many('actions', 'tns:Action')], [many('executeActionsReturn', 'tns:ActionExecutionResult')]),
+      op('saveActions', [one('reference', 'tns:Reference'), many('actions', 'tns:Action')], [many('saveActionsReturn', 'tns:Action')]),
+      op('getActions', [one('reference', 'tns:Reference'), optional('filter', 'tns:ActionFilter')], [many('getActionsReturn', 'tns:Action')]),
+      op('removeActions', [one('reference', 'tns:Reference'), many('actions', 'tns:Action')], []),
+      op('getRules', [one('reference', 'tns:Reference'), optional('ruleFilter', 'tns:RuleFilter')], [many('getRulesReturn', 'tns:Rule')]),
+      op('saveRules', [one('reference', 'tns:Reference'), many('rules', 'tns:Rule')], [many('saveRulesReturn', 'tns:Rule')]),
+      op('removeRules', [one('reference', 'tns:Reference'), many('rules', 'tns:Rule')], []),
+    ],
+  },
+  {
+    name: 'DictionaryService',
+    namespace: 'http://www.alfresco.org/ws/service/dictionary/1.0',
+    types: DICTIONARY_TYPES,
+    operations: [
+      op('getClasses', [optional('types', 'tns:ClassPredicate'), optional('aspects', 'tns:ClassPredicate')], [many('getClassesReturn', 'tns:ClassDefinition')]),
+      op('getProperties', [many('propertyNames', 'xsd:string')], [many('getPropertiesReturn', 'tns:PropertyDefinition')]),
+      op('getAssociations', [many('associationNames', 'xsd:string')], [many('getAssociationsReturn', 'tns:AssociationDefinition')]),
+      op('isSubClass', [one('className', 'xsd:string'), one('isSubClassOfName', 'xsd:string')], [one('isSubClassReturn', 'xsd:boolean')]),
+    ],
+  },
+  {
+    name: 'ClassificationService',
+    namespace: 'http://www.alfresco.org/ws/service/classification/1.0',
+    types: REFERENCE_TYPES + DICTIONARY_TYPES + CLASSIFICATION_TYPES,
+    operations: [
+      op('getClassifications', [one('store', 'tns:Store')], [many('getClassificationsReturn', 'tns:Classification')]),
+      op('getChildCategories', [one('parentCategory', 'tns:Reference')], [many('getChildCategoriesReturn', 'tns:Category')]),
+      op('getCategories', [one('items', 'tns:Predicate')], [many('getCategoriesReturn', 'tns:CategoriesResult')]),
+      op('setCategories', [one('items', 'tns:Predicate'), many('categories', 'tns:AppliedCategory')], [many('setCategoriesReturn', 'tns:CategoriesResult')]),
+      op('describeClassification', [one('classification', 'xsd:string')], [one('describeClassificationReturn', 'tns:ClassDefinition')]),
+    ],
+  },
+];
+
+/**
+ * Render the WSDL of one service, with its endpoint at `address`
+ */
+export function serviceWsdl(service: ServiceDefinition, address: string): string {
+  const { name, namespace, types, operations } = service;
+  const elements = operations
+    .map(o => [
+      `<xsd:element name="${o.name}"><xsd:complexType><xsd:sequence>${o.input}</xsd:sequence></xsd:complexType></xsd:element>`,
+      `<xsd:element name="${o.name}Response"><xsd:complexType><xsd:sequence>${o.output}</xsd:sequence></xsd:complexType></xsd:element>`,
+    ].join(''))
+    .join('');
+  const messages = operations
+    .map(o => [
+      `<wsdl:message name="${o.name}Request"><wsdl:part name="parameters" element="tns:${o.name}"/></wsdl:message>`,
+      `<wsdl:message name="${o.name}Response"><wsdl:part name="parameters" element="tns:${o.name}Response"/></wsdl:message>`,
+    ].join(''))
+    .join('');
+  const portOperations = operations
+    .map(o => `<wsdl:operation name="${o.name}"><wsdl:input message="tns:${o.name}Request"/><wsdl:output message="tns:${o.name}Response"/></wsdl:operation>`)
+    .join('');
+  const bindingOperations = operations
+    .map(o => [
+      `<wsdl:operation name="${o.name}">`,
+      `<soap:operation soapAction="${namespace}/${o.name}"/>`,
+      '<wsdl:input><soap:body use="literal"/></wsdl:input>',
+      '<wsdl:output><soap:body use="literal"/></wsdl:output>',
+      '</wsdl:operation>',
+    ].join(''))
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<wsdl:definitions name="${name}" targetNamespace="${namespace}"
+  xmlns:tns="${namespace}"
+  xmlns:wsdl="http://schemas.xmlsoap.org/wsdl/"
+  xmlns:soap="http://schemas.xmlsoap.org/wsdl/soap/"
+  xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+  <wsdl:types>
+    <xsd:schema targetNamespace="${namespace}" elementFormDefault="qualified">${types}${elements}</xsd:schema>
+  </wsdl:types>
+  ${messages}
+  <wsdl:portType name="${name}SoapPort">${portOperations}</wsdl:portType>
+  <wsdl:binding name="${name}SoapBinding" type="tns:${name}SoapPort">
+    <soap:binding style="document" transport="http://schemas.xmlsoap.org/soap/http"/>
+    ${bindingOperations}
+  </wsdl:binding>
+  <wsdl:service name="${name}">
+    <wsdl:port name="${name}" binding="tns:${name}SoapBinding"><soap:address location="${address}"/></wsdl:port>
+  </wsdl:service>
+</wsdl:definitions>`;
+}
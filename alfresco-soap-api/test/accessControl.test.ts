@@ -0,0 +1,65 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlfrescoClient } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { startMock } from './helpers';
+
+describe('access control', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let alice: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock({
+      users: { admin: 'admin', alice: 'secret' },
+      fixture: [{ name: 'Projects', children: [{ name: 'plan.txt', content: 'plan' }] }],
+    }));
+    alice = new AlfrescoClient({ url: server.url, username: 'alice', password: 'secret', retry: false });
+  });
+
+  afterEach(() => server.reset());
+
+  after(async () => {
+    await alice.close();
+    await close();
+  });
+
+  it('grants and revokes roles that the nodes below inherit', async () => {
+    const projects = server.nodeRef('/Projects');
+    const plan = server.nodeRef('/Projects/plan.txt');
+    assert.deepEqual(await alice.accessControl.hasPermissions(plan, 'Read'), [{ nodeRef: plan, permission: 'Read', accessStatus: 'declined' }]);
+
+    const acl = await client.grant(projects, 'alice', 'Collaborator');
+    assert.deepEqual(acl, { nodeRef: projects, inheritPermissions: true, aces: [{ authority: 'alice', permission: 'Collaborator', accessStatus: 'acepted' }] });
+    const checks = await alice.accessControl.hasPermissions(plan, ['Read', 'Write', 'Delete']);
+    assert.deepEqual(checks.map(check => check.accessStatus), ['acepted', 'acepted', 'declined']);
+
+    await client.accessControl.addACEs(plan, [{ authority: 'GROUP_EVERYONE', permission: 'Consumer', accessStatus: 'acepted' }]);
+    await client.accessControl.setInheritPermission(plan, false);
+    assert.equal((await alice.accessControl.hasPermissions(plan, 'Write'))[0].accessStatus, 'declined');
+    const [everyone] = await client.accessControl.getACLs(plan, 'EVERYONE');
+    assert.equal(everyone.inheritPermissions, false);
+    assert.deepEqual(everyone.aces.map(ace => ace.authority), ['GROUP_EVERYONE']);
+    assert.deepEqual((await client.accessControl.getACLs(plan, 'USER'))[0].aces, []);
+
+    assert.deepEqual((await client.revoke(projects, 'alice', 'Collaborator')).aces, []);
+    assert.deepEqual((await client.accessControl.removeACEs(plan))[0].aces, []);
+  });
+
+  it('reads and changes owners, who hold every permission', async () => {
+    const plan = server.nodeRef('/Projects/plan.txt');
+    assert.deepEqual(await client.accessControl.getOwners(plan), [{ nodeRef: plan, owner: 'admin' }]);
+    assert.deepEqual(await client.accessControl.setOwners(plan, 'alice'), [{ nodeRef: plan, owner: 'alice' }]);
+    assert.equal((await alice.accessControl.hasPermissions(plan, 'ChangePermissions'))[0].accessStatus, 'acepted');
+    assert.equal((await client.getProperties(plan))['cm:owner'], 'alice');
+  });
+
+  it('lists the permissions that can be set', async () => {
+    const [node] = await client.accessControl.getPermissions(server.nodeRef('/Projects'));
+    assert.ok(node.permissions.includes('Coordinator'));
+    const [type] = await client.accessControl.getClassPermissions('cm:content');
+    assert.equal(type.className, 'cm:content');
+    assert.deepEqual(type.permissions, node.permissions);
+  });
+});
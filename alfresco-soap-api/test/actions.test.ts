@@ -0,0 +1,90 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActionBuilder, AlfrescoClient, ServiceFaultError, toQName } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { startMock } from './helpers';
+
+describe('actions and rules', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock({
+      fixture: [
+        { name: 'Inbox', children: [{ name: 'a.pdf', content: 'a' }, { name: 'b.tmp', content: 'b' }, { name: 'Sub' }] },
+        { name: 'Archive' },
+      ],
+    }));
+  });
+
+  afterEach(() => server.reset());
+
+  after(() => close());
+
+  it('lists the action and condition definitions', async () => {
+    const actions = await client.actions.getActionDefinitions();
+    const addFeatures = actions.find(action => action.name === 'add-features');
+    assert.deepEqual(addFeatures?.parameterDefinitions, [{ name: 'aspect-name', type: toQName('d:qname'), isMandatory: true, displayLabel: undefined }]);
+    const conditions = await client.actions.getConditionDefinitions();
+    assert.ok(conditions.some(condition => condition.name === 'compare-property-value'));
+  });
+
+  it('executes actions on the nodes their conditions match', async () => {
+    const nodes = ['/Inbox/a.pdf', '/Inbox/b.tmp', '/Inbox/Sub'].map(path => server.nodeRef(path));
+    const results = await client.actions.executeActions(nodes, [
+      ActionBuilder.addAspect('cm:versionable').when('is-subtype', { type: 'cm:content' }),
+      ActionBuilder.move(server.nodeRef('/Archive')).when('compare-property-value', { operation: 'ENDS', value: '.tmp' }),
+    ]);
+    assert.deepEqual(results.map(result => result.nodeRef), nodes);
+    assert.equal(results[0].actions[0].actionName, 'add-features');
+    assert.ok(results[0].actions[0].id);
+    assert.deepEqual(results[0].actions[1].conditions?.[0].parameters, { operation: 'ENDS', value: '.tmp' });
+
+    const aspects = await Promise.all(nodes.map(async nodeRef => (await client.getNode(nodeRef)).aspects.includes(toQName('cm:versionable'))));
+    assert.deepEqual(aspects, [true, true, false]);
+    assert.deepEqual((await client.getChildren(server.nodeRef('/Archive'))).map(node => node.name), ['b.tmp']);
+
+    await assert.rejects(client.actions.executeActions(nodes[0], [new ActionBuilder('script')]), ServiceFaultError);
+  });
+
+  it('saves, finds and removes actions on a node', async () => {
+    const inbox = server.nodeRef('/Inbox');
+    const [saved] = await client.actions.saveActions(inbox, [ActionBuilder.addAspect('cm:titled').title('Title everything')]);
+    assert.equal(saved.title, 'Title everything');
+    await client.actions.saveActions(inbox, [ActionBuilder.copy(server.nodeRef('/Archive'), true)]);
+
+    assert.equal((await client.actions.getActions(inbox)).length, 2);
+    assert.deepEqual((await client.actions.getActions(inbox, { actionName: 'copy' })).map(action => action.parameters), [
+      { 'destination-folder': server.nodeRef('/Archive'), 'deep-copy': 'true' },
+    ]);
+    await client.actions.removeActions(inbox, [saved]);
+    assert.deepEqual((await client.actions.getActions(inbox)).map(action => action.actionName), ['copy']);
+    await client.actions.removeActions(inbox);
+    assert.deepEqual(await client.actions.getActions(inbox), []);
+  });
+
+  it('runs inbound rules on new nodes and lists inherited rules', async () => {
+    const inbox = server.nodeRef('/Inbox');
+    const [rule] = await client.actions.saveRules(inbox, [{
+      ruleTypes: ['inbound'],
+      title: 'Title PDFs',
+      action: ActionBuilder.addAspect('cm:titled').when('compare-property-value', { operation: 'ENDS', value: '.pdf' }).build(),
+    }]);
+    assert.ok(rule.ruleReference);
+    assert.equal(rule.owningReference, inbox);
+
+    const pdf = await client.createDocument(inbox, 'c.pdf', 'c', 'application/pdf');
+    const text = await client.createDocument(inbox, 'c.txt', 'c', 'text/plain');
+    assert.ok((await client.getNode(pdf)).aspects.includes(toQName('cm:titled')));
+    assert.ok(!(await client.getNode(text)).aspects.includes(toQName('cm:titled')));
+
+    const sub = server.nodeRef('/Inbox/Sub');
+    assert.deepEqual(await client.actions.getRules(sub), []);
+    assert.deepEqual((await client.actions.getRules(sub, { includeInherited: true })).map(r => r.ruleReference), [rule.ruleReference]);
+    assert.deepEqual(await client.actions.getRules(inbox, { ruleTypeName: 'update' }), []);
+
+    await client.actions.removeRules(inbox, [rule]);
+    assert.deepEqual(await client.actions.getRules(inbox), []);
+  });
+});
@@ -0,0 +1,73 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccessDeniedError, AlfrescoClient, AlfrescoError, AuthenticationError } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { startMock } from './helpers';
+
+describe('administration', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock({ users: { admin: 'admin', alice: 'secret', bob: 'secret' }, batchSize: 2 }));
+  });
+
+  afterEach(() => server.reset());
+
+  after(() => close());
+
+  it('creates, updates, reads and deletes users', async () => {
+    const [carol] = await client.admin.createUsers([{ userName: 'carol', password: 'pw', firstName: 'Carol', email: 'carol@example.com' }]);
+    assert.deepEqual(carol, {
+      userName: 'carol',
+      firstName: 'Carol',
+      lastName: undefined,
+      email: 'carol@example.com',
+      properties: { 'cm:firstName': 'Carol', 'cm:email': 'carol@example.com', 'cm:userName': 'carol' },
+    });
+
+    await client.admin.updateUsers([{ userName: 'carol', lastName: 'Jones', properties: { 'cm:organizationId': 'acme' } }]);
+    const updated = await client.admin.getUser('carol');
+    assert.equal(updated.lastName, 'Jones');
+    assert.equal(updated.firstName, 'Carol');
+    assert.equal(updated.properties['cm:organizationId'], 'acme');
+
+    const session = new AlfrescoClient({ url: server.url, username: 'carol', password: 'pw', retry: false });
+    await session.getCompanyHome();
+    await session.close();
+
+    await client.admin.deleteUsers('carol');
+    await assert.rejects(client.admin.getUser('carol'), AlfrescoError);
+    await assert.rejects(client.admin.createUsers([{ userName: 'alice', password: 'x' }]), /already exists/);
+  });
+
+  it('pages through users and filters them by name', async () => {
+    const first = await client.admin.queryUsers();
+    assert.equal(first.users.length, 2);
+    assert.ok(first.querySession);
+
+    const userNames: string[] = [];
+    for await (const user of client.listUsers()) userNames.push(user.userName);
+    assert.deepEqual(userNames.sort(), ['admin', 'alice', 'bob']);
+    assert.deepEqual((await client.admin.queryUsers('a.*')).users.map(user => user.userName), ['admin', 'alice']);
+  });
+
+  it('lets users change their own password and only administrators manage others', async () => {
+    const alice = new AlfrescoClient({ url: server.url, username: 'alice', password: 'secret', retry: false });
+    try {
+      await assert.rejects(alice.admin.createUsers([{ userName: 'mallory', password: 'x' }]), AccessDeniedError);
+      await assert.rejects(alice.admin.changePassword('bob', 'secret', 'taken'), AccessDeniedError);
+      await assert.rejects(alice.admin.changePassword('alice', 'wrong', 'better'), AuthenticationError);
+      await alice.admin.changePassword('alice', 'secret', 'better');
+    } finally {
+      await alice.close();
+    }
+
+    await assert.rejects(new AlfrescoClient({ url: server.url, username: 'alice', password: 'secret', retry: false }).authenticate(), AuthenticationError);
+    await client.admin.changePassword('alice', '', 'reset');
+    const reset = new AlfrescoClient({ url: server.url, username: 'alice', password: 'reset', retry: false });
+    await reset.authenticate();
+    await reset.close();
+  });
+});
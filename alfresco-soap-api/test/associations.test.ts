@@ -0,0 +1,81 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlfrescoClient, AssociationDirection, CmlBuilder, IntegrityError, ValidationError } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { startMock } from './helpers';
+
+describe('associations', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock({
+      fixture: [
+        {
+          name: 'Contracts',
+          children: [
+            { name: 'master.pdf', content: 'master' },
+            { name: 'annex-a.pdf', content: 'a' },
+            { name: 'annex-b.pdf', content: 'b' },
+          ],
+        },
+      ],
+    }));
+  });
+
+  afterEach(() => server.reset());
+
+  after(() => close());
+
+  it('creates peer associations and queries them in both directions', async () => {
+    const master = server.nodeRef('/Contracts/master.pdf');
+    const annexA = server.nodeRef('/Contracts/annex-a.pdf');
+    const annexB = server.nodeRef('/Contracts/annex-b.pdf');
+    await client.createAssociation(master, annexA, 'cm:attachments');
+    await client.updateNodes(new CmlBuilder().createAssociation(master, annexB, 'cm:references'));
+
+    const targets = await client.getAssociations(master);
+    assert.deepEqual(targets.map(a => [a.type, a.node.name]), [['cm:attachments', 'annex-a.pdf'], ['cm:references', 'annex-b.pdf']]);
+    assert.equal(targets[0].isChild, false);
+    assert.equal(targets[0].sourceRef, master);
+    assert.equal(targets[0].targetRef, annexA);
+    assert.ok(targets[0].node.properties['{http://www.alfresco.org/model/content/1.0}modified'] instanceof Date);
+
+    const references = await client.getAssociations(master, { associationType: 'cm:references' });
+    assert.deepEqual(references.map(a => a.targetRef), [annexB]);
+
+    const [source] = await client.getAssociations(annexA, { direction: 'source' });
+    assert.equal(source.sourceRef, master);
+    assert.equal(source.targetRef, annexA);
+    assert.equal(source.node.name, 'master.pdf');
+
+    await assert.rejects(client.createAssociation(master, annexA, 'cm:attachments'), IntegrityError);
+    await assert.rejects(client.getAssociations(master, { direction: 'up' as unknown as AssociationDirection }), ValidationError);
+  });
+
+  it('removes peer associations', async () => {
+    const master = server.nodeRef('/Contracts/master.pdf');
+    const annexA = server.nodeRef('/Contracts/annex-a.pdf');
+    await client.createAssociation(master, annexA, 'cm:references');
+    await client.removeAssociation(master, annexA, 'cm:references');
+    assert.deepEqual(await client.getAssociations(master), []);
+  });
+
+  it('describes child and parent associations with their child names', async () => {
+    const contracts = server.nodeRef('/Contracts');
+    const children = await client.getChildAssociations(contracts);
+    assert.deepEqual(children.map(a => a.childName), ['cm:master.pdf', 'cm:annex-a.pdf', 'cm:annex-b.pdf']);
+    assert.equal(children[0].type, 'cm:contains');
+    assert.equal(children[0].isChild, true);
+    assert.equal(children[0].sourceRef, contracts);
+    assert.equal(children[0].targetRef, children[0].node.nodeRef);
+    assert.equal(children[0].node.properties.associationType, undefined);
+
+    const [parent] = await client.getParentAssociations(server.nodeRef('/Shared'));
+    assert.equal(parent.childName, 'app:shared');
+    assert.equal(parent.isPrimary, true);
+    assert.equal(parent.node.name, 'Company Home');
+    assert.equal(parent.targetRef, server.nodeRef('/Shared'));
+  });
+});
@@ -0,0 +1,94 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlfrescoClient, ServiceFaultError } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { readAll, startMock } from './helpers';
+
+describe('authoring', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock({
+      users: { admin: 'admin', alice: 'secret' },
+      fixture: [{ name: 'Reports', children: [{ name: 'q1.txt', content: 'draft' }] }],
+    }));
+  });
+
+  afterEach(() => server.reset());
+
+  after(() => close());
+
+  it('checks out a working copy and checks it in as a new version', async () => {
+    const original = server.nodeRef('/Reports/q1.txt');
+    const checkout = await client.authoring.checkout(original);
+    assert.deepEqual(checkout.originals, [original]);
+    const [workingCopy] = checkout.workingCopies;
+    assert.equal(workingCopy, server.nodeRef('/Reports/q1 (Working Copy).txt'));
+    assert.deepEqual(await client.authoring.getLockStatus(original), [{ nodeRef: original, lockType: 'read', lockOwner: 'admin' }]);
+    await assert.rejects(client.authoring.checkout(original), /already checked out/);
+
+    await client.writeContent(workingCopy, 'final', undefined, { mimetype: 'text/plain', encoding: 'UTF-8' });
+    const checkin = await client.authoring.checkin(workingCopy, { comment: 'Reviewed', major: true });
+    assert.deepEqual(checkin, { checkedIn: [original], workingCopies: [] });
+
+    assert.equal(await readAll(await client.downloadContent(original)), 'final');
+    assert.deepEqual((await client.getChildren(server.nodeRef('/Reports'))).map(node => node.name), ['q1.txt']);
+    assert.deepEqual(await client.authoring.getLockStatus(original), [{ nodeRef: original, lockType: undefined, lockOwner: undefined }]);
+    const [version] = await client.authoring.getVersionHistory(original);
+    assert.equal(version.label, '1.0');
+    assert.equal(version.major, true);
+    assert.equal(version.creator, 'admin');
+    assert.ok(version.created instanceof Date);
+    assert.deepEqual(version.comments, { versionType: 'MAJOR', description: 'Reviewed' });
+    assert.ok(version.nodeRef.startsWith('workspace://version2Store/'));
+  });
+
+  it('cancels a checkout without versioning the original', async () => {
+    const original = server.nodeRef('/Reports/q1.txt');
+    const { workingCopies } = await client.authoring.checkout(original);
+    assert.deepEqual(await client.authoring.cancelCheckout(workingCopies), { originals: [original], workingCopies: [] });
+    assert.deepEqual((await client.getChildren(server.nodeRef('/Reports'))).map(node => node.name), ['q1.txt']);
+    assert.equal((await client.trash.list()).length, 0);
+    assert.deepEqual(await client.authoring.getVersionHistory(original), []);
+    assert.equal((await client.authoring.getLockStatus(original))[0].lockOwner, undefined);
+  });
+
+  it('locks nodes for their owner only', async () => {
+    const reports = server.nodeRef('/Reports');
+    const q1 = server.nodeRef('/Reports/q1.txt');
+    assert.deepEqual(await client.authoring.lock(reports, 'write', true), [reports]);
+    assert.deepEqual(await client.authoring.getLockStatus(q1), [{ nodeRef: q1, lockType: 'write', lockOwner: 'admin' }]);
+
+    const alice = new AlfrescoClient({ url: server.url, username: 'alice', password: 'secret', retry: false });
+    try {
+      await assert.rejects(alice.authoring.lock(q1), ServiceFaultError);
+      await client.authoring.unlock(reports, true);
+      await alice.authoring.lock(q1);
+      assert.equal((await client.authoring.getLockStatus(q1))[0].lockOwner, 'alice');
+    } finally {
+      await alice.close();
+    }
+  });
+
+  it('numbers versions, reverts to one and deletes the history', async () => {
+    const nodeRef = server.nodeRef('/Reports/q1.txt');
+    const { nodes, versions } = await client.authoring.createVersion(nodeRef, { comment: 'First draft' });
+    assert.deepEqual(nodes, [nodeRef]);
+    assert.equal(versions[0].label, '0.1');
+    await client.writeContent(nodeRef, 'second', undefined, { mimetype: 'text/plain', encoding: 'UTF-8' });
+    await client.authoring.createVersion(nodeRef);
+    await client.authoring.createVersion(nodeRef, { major: true });
+    assert.deepEqual((await client.authoring.getVersionHistory(nodeRef)).map(version => version.label), ['1.0', '0.2', '0.1']);
+    assert.equal((await client.getProperties(nodeRef))['cm:versionLabel'], '1.0');
+
+    await client.authoring.revertVersion(nodeRef, '0.1');
+    assert.equal(await readAll(await client.downloadContent(nodeRef)), 'draft');
+    await assert.rejects(client.authoring.revertVersion(nodeRef, '9.9'), /Version 9.9/);
+
+    assert.deepEqual(await client.authoring.deleteAllVersions(nodeRef), []);
+    assert.deepEqual(await client.authoring.getVersionHistory(nodeRef), []);
+    assert.equal((await client.getProperties(nodeRef))['cm:versionLabel'], undefined);
+  });
+});
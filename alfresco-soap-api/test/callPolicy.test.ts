@@ -0,0 +1,78 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccessDeniedError, AlfrescoClient, CircuitBreaker, CircuitOpenError, TransportError } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+
+describe('timeouts, retries and the circuit breaker', () => {
+  let server: MockAlfrescoServer;
+  let url: string;
+  const clients: AlfrescoClient[] = [];
+
+  const newClient = (config: Partial<ConstructorParameters<typeof AlfrescoClient>[0]> = {}) => {
+    const client = new AlfrescoClient({ url, username: 'admin', password: 'admin', retry: { baseDelay: 1 }, ...config });
+    clients.push(client);
+    return client;
+  };
+
+  before(async () => {
+    server = new MockAlfrescoServer();
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close().catch(() => undefined)));
+    server.reset();
+  });
+
+  after(() => server.stop());
+
+  it('retries idempotent reads after transport failures', async () => {
+    const client = newClient();
+    await client.authenticate();
+    server.injectFault({ operation: 'getStores', status: 503, times: 2 });
+    assert.equal((await client.getStores()).length, server.repository.stores.length);
+    assert.equal(server.calls.filter(call => call === 'getStores').length, 3);
+  });
+
+  it('gives up after the configured attempts with a TransportError', async () => {
+    const client = newClient({ retry: { attempts: 2, baseDelay: 1 } });
+    await client.authenticate();
+    server.injectFault({ operation: 'getStores', status: 502, times: 5 });
+    const error = await client.getStores().catch(e => e);
+    assert.ok(error instanceof TransportError);
+    assert.equal(error.statusCode, 502);
+    assert.equal(server.calls.filter(call => call === 'getStores').length, 2);
+  });
+
+  it('does not retry updates or SOAP faults', async () => {
+    const client = newClient();
+    const companyHome = await client.getCompanyHome();
+    server.injectFault({ operation: 'update', status: 503 });
+    await assert.rejects(client.createFolder(companyHome.nodeRef, 'x'), TransportError);
+    assert.equal(server.calls.filter(call => call === 'update').length, 1);
+
+    server.injectFault({ operation: 'getStores', fault: 'accessDenied' });
+    await assert.rejects(client.getStores(), AccessDeniedError);
+    assert.equal(server.calls.filter(call => call === 'getStores').length, 1);
+  });
+
+  it('times out slow calls', async () => {
+    const client = newClient({ timeout: 100, retry: false });
+    await client.authenticate();
+    server.injectFault({ operation: 'getStores', delay: 500 });
+    await assert.rejects(client.getStores(), TransportError);
+  });
+
+  it('fails fast once the circuit is open', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 60000 });
+    const client = newClient({ retry: false, circuitBreaker: breaker });
+    await client.authenticate();
+    server.injectFault({ operation: 'getStores', status: 503, times: 2 });
+    await assert.rejects(client.getStores(), TransportError);
+    await assert.rejects(client.getStores(), TransportError);
+
+    await assert.rejects(client.getStores(), CircuitOpenError);
+    assert.equal(breaker.state, 'open');
+    assert.equal(server.calls.filter(call => call === 'getStores').length, 2);
+  });
+});
@@ -0,0 +1,68 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlfrescoClient, NodeNotFoundError, ServiceFaultError, toQName } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { startMock } from './helpers';
+
+const GENERAL = toQName('cm:generalclassifiable');
+
+describe('classification', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock({
+      fixture: [{ name: 'Reports', children: [{ name: 'q1.txt', content: 'q1' }, { name: 'q2.txt', content: 'q2' }] }],
+      categories: ['Regions/Europe/France', 'Regions/Asia', 'Languages'],
+    }));
+  });
+
+  afterEach(() => server.reset());
+
+  after(() => close());
+
+  it('lists the classifications and walks their category tree', async () => {
+    const [general, ...others] = await client.classification.getClassifications();
+    assert.deepEqual(others, []);
+    assert.equal(general.classification, GENERAL);
+    assert.equal(general.rootCategory?.title, 'generalclassifiable');
+
+    const top = await client.classification.getChildCategories(general.rootCategory!.nodeRef);
+    assert.deepEqual(top.map(category => category.title), ['Regions', 'Languages']);
+    const regions = await client.classification.getChildCategories(top[0].nodeRef);
+    assert.deepEqual(regions.map(category => category.title), ['Europe', 'Asia']);
+    assert.deepEqual(await client.classification.getClassifications('archive://SpacesStore'), []);
+  });
+
+  it('files nodes under categories and finds them by category path', async () => {
+    const q1 = server.nodeRef('/Reports/q1.txt');
+    const q2 = server.nodeRef('/Reports/q2.txt');
+    const applied = await client.categorize(q1, ['/Regions/Europe/France', '/Languages']);
+    assert.equal(applied.nodeRef, q1);
+    assert.equal(applied.categories[0].classification, GENERAL);
+    assert.equal(applied.categories[0].categories.length, 2);
+    await client.categorize(q2, ['/Regions/Asia']);
+    await assert.rejects(client.categorize(q2, ['/Regions/Africa']), NodeNotFoundError);
+
+    assert.deepEqual(await client.classification.getCategories([q1, q2]), [
+      applied,
+      { nodeRef: q2, categories: [{ classification: GENERAL, categories: [(await client.search('PATH:"/cm:generalclassifiable/cm:Regions/cm:Asia"')).nodes[0].nodeRef] }] },
+    ]);
+    assert.deepEqual((await client.findByCategory('/Regions/Europe/France')).map(node => node.name), ['q1.txt']);
+    assert.deepEqual(await client.findByCategory('/Regions'), []);
+    assert.deepEqual((await client.findByCategory('/Regions', true)).map(node => node.name).sort(), ['q1.txt', 'q2.txt']);
+
+    await client.categorize(q1, []);
+    assert.deepEqual((await client.classification.getCategories(q1))[0].categories, [{ classification: GENERAL, categories: [] }]);
+    assert.deepEqual(await client.findByCategory('/Languages'), []);
+  });
+
+  it('describes a classification by its aspect', async () => {
+    const definition = await client.classification.describeClassification('cm:generalclassifiable');
+    assert.equal(definition.name, GENERAL);
+    assert.equal(definition.isAspect, true);
+    assert.deepEqual(definition.properties.map(p => p.name), [toQName('cm:categories')]);
+    await assert.rejects(client.classification.describeClassification('cm:titled'), ServiceFaultError);
+  });
+});
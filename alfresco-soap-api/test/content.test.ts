@@ -0,0 +1,87 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import { AccessDeniedError, AlfrescoClient, NodeNotFoundError } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { readAll, startMock } from './helpers';
+
+describe('content', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock({
+      fixture: [{ name: 'Docs', children: [{ name: 'hello.txt', content: 'hello world' }, { name: 'empty' }] }],
+    }));
+  });
+
+  afterEach(() => server.reset());
+
+  after(() => close());
+
+  it('writes and reads content through the SOAP ContentService', async () => {
+    const nodeRef = await client.createDocument(server.nodeRef('/Docs'), 'notes.md', Buffer.from('# Notes'), 'text/markdown');
+    const content = await client.readContent(nodeRef);
+    assert.equal(content.length, 7);
+    assert.equal(content.format?.mimetype, 'text/markdown');
+    assert.ok(content.url);
+
+    await client.clearContent(nodeRef);
+    assert.equal((await client.readContent(nodeRef)).length, 0);
+  });
+
+  it('removes a created document whose content could not be written', async () => {
+    server.injectFault({ operation: 'write', fault: 'accessDenied' });
+    await assert.rejects(client.createDocument(server.nodeRef('/Docs'), 'notes.md', '# Notes', 'text/markdown'), AccessDeniedError);
+    assert.throws(() => server.nodeRef('/Docs/notes.md'));
+    assert.equal((await client.trash.list()).length, 0);
+
+    const nodeRef = await client.createDocument(server.nodeRef('/Docs'), 'notes.md', '# Notes', 'text/markdown');
+    assert.equal(await readAll(await client.downloadContent(nodeRef)), '# Notes');
+  });
+
+  it('writes string content as UTF-8', async () => {
+    const nodeRef = await client.createDocument(server.nodeRef('/Docs'), 'a.txt', 'Hello world, plain text!', 'text/plain');
+    assert.equal(await readAll(await client.downloadContent(nodeRef)), 'Hello world, plain text!');
+
+    await client.writeContent(nodeRef, 'Grüße', undefined, { mimetype: 'text/plain', encoding: 'UTF-8' });
+    assert.equal((await client.readContent(nodeRef)).length, 7);
+    assert.equal(await readAll(await client.downloadContent(nodeRef)), 'Grüße');
+  });
+
+  it('streams downloads, including byte ranges', async () => {
+    const nodeRef = server.nodeRef('/Docs/hello.txt');
+    const progress: number[] = [];
+    const stream = await client.downloadContent(nodeRef, { onProgress: ({ loaded }) => progress.push(loaded) });
+    assert.equal(await readAll(stream), 'hello world');
+    assert.equal(stream.mimetype, 'text/plain');
+    assert.equal(stream.length, 11);
+    assert.equal(progress[progress.length - 1], 11);
+
+    assert.match((await client.readContent(nodeRef)).url!, /[?&]ticket=/);
+    assert.equal(server.servletUrls.length, 1);
+    assert.ok(server.servletUrls.every(url => !/ticket=/.test(url)));
+
+    const range = await client.downloadContent(nodeRef, { range: { start: 6, end: 10 } });
+    assert.equal(await readAll(range), 'world');
+    assert.equal(range.partial, true);
+    assert.equal(range.totalLength, 11);
+  });
+
+  it('streams uploads into a node', async () => {
+    const nodeRef = server.nodeRef('/Docs/hello.txt');
+    const result = await client.uploadContent(nodeRef, Readable.from([Buffer.from('new '), Buffer.from('text')]), 'text/csv', { length: 8 });
+    assert.equal(result.length, 8);
+    assert.equal(result.format?.mimetype, 'text/csv');
+    assert.equal(await readAll(await client.downloadContent(nodeRef)), 'new text');
+  });
+
+  it('maps servlet failures to typed errors', async () => {
+    await assert.rejects(client.downloadContent(server.nodeRef('/Docs/empty')), /No content URL/);
+    server.injectFault({ operation: 'download', fault: 'accessDenied' });
+    await assert.rejects(client.downloadContent(server.nodeRef('/Docs/hello.txt')), AccessDeniedError);
+    server.injectFault({ operation: 'download', fault: 'nodeNotFound' });
+    await assert.rejects(client.downloadContent(server.nodeRef('/Docs/hello.txt')), NodeNotFoundError);
+  });
+});
@@ -0,0 +1,57 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlfrescoClient, ServiceFaultError, toQName } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { startMock } from './helpers';
+
+describe('dictionary', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock());
+  });
+
+  afterEach(() => {
+    client.dictionary.clearCache();
+    server.reset();
+  });
+
+  after(() => close());
+
+  it('describes types with their inherited properties and aspects, and caches them', async () => {
+    const content = await client.dictionary.getClass('cm:content');
+    assert.equal(content?.name, toQName('cm:content'));
+    assert.equal(content?.isAspect, false);
+    assert.equal(content?.superClass, toQName('cm:cmobject'));
+    assert.deepEqual(content?.properties.map(p => p.name), [toQName('cm:content'), toQName('cm:name')]);
+    assert.deepEqual(content?.properties[1], {
+      name: toQName('cm:name'), title: undefined, description: undefined, dataType: toQName('d:text'),
+      mandatory: true, readOnly: false, multiValued: false, defaultValue: undefined,
+    });
+
+    const titled = await client.dictionary.getClass('cm:titled');
+    assert.equal(titled?.isAspect, true);
+    assert.deepEqual(titled?.properties.map(p => p.name), [toQName('cm:title'), toQName('cm:description')]);
+
+    await client.dictionary.getClass('cm:content');
+    assert.equal(server.calls.filter(call => call === 'getClasses').length, 2);
+    assert.equal(await client.dictionary.getClass('cm:nonexistent'), undefined);
+  });
+
+  it('follows the type hierarchy down and up', async () => {
+    const below = await client.dictionary.getClasses({ names: ['cm:folder'], followSubClass: true });
+    assert.deepEqual(below.map(c => c.name).sort(), ['cm:folder', 'cm:systemfolder', 'st:site', 'st:sites'].map(toQName).sort());
+    const above = await client.dictionary.getClasses({ names: ['cm:folder'], followSuperClass: true }, { names: ['cm:versionable'] });
+    assert.deepEqual(above.map(c => c.name), ['cm:folder', 'cm:cmobject', 'sys:base', 'cm:versionable'].map(toQName));
+  });
+
+  it('describes associations', async () => {
+    const [contains, references] = await client.dictionary.getAssociations(['cm:contains', 'cm:references']);
+    assert.deepEqual(contains, { name: toQName('cm:contains'), title: undefined, description: undefined, isChild: true, sourceClass: toQName('cm:folder'), targetClass: toQName('sys:base') });
+    assert.equal(references.isChild, false);
+    assert.deepEqual((await client.dictionary.getClass('cm:folder'))?.associations.map(a => a.name), [toQName('cm:contains')]);
+    await assert.rejects(client.dictionary.getAssociations(['cm:nonexistent']), ServiceFaultError);
+  });
+});
@@ -0,0 +1,63 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlfrescoClientFactory } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+
+describe('AlfrescoClientFactory', () => {
+  let server: MockAlfrescoServer;
+  let url: string;
+  let factory: AlfrescoClientFactory;
+
+  before(async () => {
+    server = new MockAlfrescoServer({ users: { alice: 'secret', bob: 'secret', carol: 'secret' } });
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await factory.closeAll();
+    server.reset();
+  });
+
+  after(() => server.stop());
+
+  it('caches one client per user and closes the least recently used idle one', async () => {
+    factory = new AlfrescoClientFactory({ maxClients: 2, retry: false });
+    const alice = factory.getClient(url, 'alice', 'secret');
+    const again = factory.getClient(url, 'alice', 'secret');
+    assert.equal(again.client, alice.client);
+    again.release();
+    await alice.client.getStores();
+
+    const bob = factory.getClient(url, 'bob', 'secret');
+    const carol = factory.getClient(url, 'carol', 'secret');
+    await Promise.all([bob.client.getStores(), carol.client.getStores()]);
+    assert.equal(factory.size, 3);
+
+    alice.release();
+    alice.release();
+    assert.equal(factory.size, 2);
+    assert.notEqual(factory.getClient(url, 'alice', 'secret').client, alice.client);
+  });
+
+  it('keeps an evicted client usable until its lease is released, then ends its session', async () => {
+    factory = new AlfrescoClientFactory({ maxClients: 1, retry: false });
+    const alice = factory.getClient(url, 'alice', 'secret');
+    await alice.client.getStores();
+
+    const bob = factory.getClient(url, 'bob', 'secret');
+    await bob.client.getStores();
+    bob.release();
+    assert.equal(factory.size, 1);
+
+    // Replacing alice's session evicts the leased client without closing it
+    const replaced = factory.getClient(url, 'alice', 'other');
+    replaced.release();
+    await alice.client.getCompanyHome();
+    assert.equal(server.calls.filter(call => call === 'startSession').length, 2);
+
+    alice.release();
+    await factory.closeAll();
+    assert.ok(server.calls.includes('endSession'));
+    assert.equal(server.sessionCount, 0);
+  });
+});
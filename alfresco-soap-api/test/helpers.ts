@@ -0,0 +1,28 @@
+import { AlfrescoClient, AlfrescoClientConfig } from '../src';
+import { MockAlfrescoServer, MockAlfrescoServerOptions } from '../src/testing';
+
+/**
+ * Start a mock server and a client logged in as admin; call close() in after/afterEach
+ */
+export async function startMock(
+  options: MockAlfrescoServerOptions = {},
+  config: Partial<AlfrescoClientConfig> = {}
+): Promise<{ server: MockAlfrescoServer; client: AlfrescoClient; close: () => Promise<void> }> {
+  const server = new MockAlfrescoServer(options);
+  const url = await server.start();
+  const client = new AlfrescoClient({ url, username: 'admin', password: 'admin', retry: false, ...config });
+  return {
+    server,
+    client,
+    close: async () => {
+      await client.close().catch(() => undefined);
+      await server.stop();
+    },
+  };
+}
+
+export async function readAll(stream: AsyncIterable<Buffer | string>): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk.toString();
+  return text;
+}
@@ -0,0 +1,123 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlfrescoClient, ValidationError, toQName } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { startMock } from './helpers';
+
+const ACME = 'http://example.com/model/acme/1.0';
+const INVOICE_NUMBER = `{${ACME}}invoiceNumber`;
+
+describe('node properties', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock({
+      fixture: [
+        {
+          name: 'Reports',
+          children: [{ name: 'q1.txt', content: 'q1', aspects: ['cm:titled'], properties: { 'cm:title': 'Q1 report' } }],
+        },
+      ],
+      properties: { [INVOICE_NUMBER]: { dataType: 'd:text' }, [`{${ACME}}amount`]: { dataType: 'd:double' } },
+    }));
+  });
+
+  afterEach(() => server.reset());
+
+  after(() => close());
+
+  it('reads properties keyed by prefixed QName with typed values', async () => {
+    const properties = await client.getProperties(server.nodeRef('/Reports/q1.txt'));
+    assert.equal(properties['cm:name'], 'q1.txt');
+    assert.equal(properties['cm:title'], 'Q1 report');
+    assert.ok(properties['cm:created'] instanceof Date);
+    assert.equal(properties['{http://www.alfresco.org/model/content/1.0}name'], undefined);
+  });
+
+  it('writes dates, numbers, booleans, multi-valued and residual properties', async () => {
+    const nodeRef = server.nodeRef('/Reports/q1.txt');
+    const from = new Date('2024-04-01T08:30:00.000Z');
+    await client.setProperties(nodeRef, {
+      'cm:title': 'Quarterly report',
+      'cm:counter': 3,
+      'cm:latitude': 52.52,
+      'cm:from': from,
+      'cm:autoVersion': false,
+      'cm:taggable': server.nodeRef('/Reports'),
+      [INVOICE_NUMBER]: 'INV-1001',
+    });
+
+    const node = await client.getNode(nodeRef);
+    assert.deepEqual(node.properties.find(p => p.name === toQName('cm:from')), {
+      name: toQName('cm:from'), isMultiValue: false, value: '2024-04-01T08:30:00.000Z',
+    });
+    const properties = await client.getProperties(nodeRef);
+    assert.equal(properties['cm:title'], 'Quarterly report');
+    assert.equal(properties['cm:counter'], 3);
+    assert.equal(properties['cm:latitude'], 52.52);
+    assert.deepEqual(properties['cm:from'], from);
+    assert.equal(properties['cm:autoVersion'], false);
+    assert.deepEqual(properties['cm:taggable'], [server.nodeRef('/Reports')]);
+    assert.equal(properties[INVOICE_NUMBER], 'INV-1001');
+
+    await client.setProperties(nodeRef, { 'cm:title': null });
+    assert.equal((await client.getProperties(nodeRef))['cm:title'], null);
+  });
+
+  it('rejects values that do not match the property definition', async () => {
+    const nodeRef = server.nodeRef('/Reports/q1.txt');
+    await assert.rejects(client.setProperties(nodeRef, { 'cm:counter': 1.5 }), ValidationError);
+    await assert.rejects(client.setProperties(nodeRef, { 'cm:from': 'next week' }), ValidationError);
+    await assert.rejects(client.setProperties(nodeRef, { 'cm:autoVersion': 'yes' }), ValidationError);
+    await assert.rejects(client.setProperties(nodeRef, { 'cm:title': ['a', 'b'] }), /not multi-valued/);
+    await assert.rejects(client.setProperties(nodeRef, { 'cm:created': new Date() }), /read-only/);
+    await assert.rejects(client.setProperties(nodeRef, { 'cm:from': new Date('invalid') }), ValidationError);
+    assert.equal((await client.getProperties(nodeRef))['cm:counter'], undefined);
+  });
+
+  it('reads and writes custom model properties under the prefixes of one client', async () => {
+    const nodeRef = server.nodeRef('/Reports/q1.txt');
+    const acme = new AlfrescoClient({ url: server.url, username: 'admin', password: 'admin', namespaces: { acme: ACME } });
+    try {
+      await acme.setProperties(nodeRef, { 'acme:invoiceNumber': 'INV-1001', 'acme:amount': 99.5 });
+      const properties = await acme.getProperties(nodeRef);
+      assert.equal(properties['acme:invoiceNumber'], 'INV-1001');
+      assert.equal(properties['acme:amount'], 99.5);
+      await assert.rejects(acme.setProperties(nodeRef, { 'acme:amount': 'lots' }), ValidationError);
+    } finally {
+      await acme.close();
+    }
+
+    assert.equal((await client.getProperties(nodeRef))[INVOICE_NUMBER], 'INV-1001');
+    await assert.rejects(client.setProperties(nodeRef, { 'acme:invoiceNumber': 'INV-1002' }), /Unknown namespace prefix: acme/);
+    assert.throws(() => new AlfrescoClient({ url: server.url, username: 'admin', password: 'admin', namespaces: { 'a b': ACME } }), ValidationError);
+  });
+
+  it('remembers properties the dictionary has no definition for', async () => {
+    const nodeRef = server.nodeRef('/Reports/q1.txt');
+    const dictionaryCalls = () => server.calls.filter(call => call === 'getProperties').length;
+    await assert.rejects(client.setProperties(nodeRef, { 'cm:counter': 1.5, 'cm:residualNote': 'note' }), ValidationError);
+    await client.setProperties(nodeRef, { 'cm:counter': 2, 'cm:residualNote': 'note' });
+    assert.equal((await client.getProperties(nodeRef))['cm:residualNote'], 'note');
+
+    const calls = dictionaryCalls();
+    await client.setProperties(nodeRef, { 'cm:residualNote': 'changed' });
+    assert.equal((await client.getProperties(nodeRef))['cm:residualNote'], 'changed');
+    assert.equal(dictionaryCalls(), calls);
+  });
+
+  it('adds an aspect with its properties and removes it again', async () => {
+    const nodeRef = server.nodeRef('/Reports/q1.txt');
+    await client.addAspect(nodeRef, 'cm:geographic', { 'cm:latitude': 48.85, 'cm:longitude': 2.35 });
+    assert.ok((await client.getNode(nodeRef)).aspects.includes(toQName('cm:geographic')));
+    assert.equal((await client.getProperties(nodeRef))['cm:longitude'], 2.35);
+
+    await client.removeAspect(nodeRef, 'cm:geographic');
+    const properties = await client.getProperties(nodeRef);
+    assert.ok(!(await client.getNode(nodeRef)).aspects.includes(toQName('cm:geographic')));
+    assert.equal(properties['cm:latitude'], undefined);
+    assert.equal(properties['cm:title'], 'Q1 report');
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Query, QueryBuilder, ValidationError } from '../src';
+
+describe('Query', () => {
+  it('renders lucene with escaped values', () => {
+    const query = Query.type('cm:content')
+      .inPath('/app:company_home//*')
+      .prop('cm:name').like('re:port (1)*')
+      .not().aspect('sys:hidden');
+    assert.equal(
+      query.toString(),
+      '+TYPE:"cm:content" +PATH:"/app:company_home//*" +@cm\\:name:re\\:port\\ \\(1\\)* -ASPECT:"sys:hidden"'
+    );
+  });
+
+  it('renders fts-alfresco with exact matches and ranges', () => {
+    const query = Query.language('fts-alfresco')
+      .prop('cm:title').equals('Say "hi"')
+      .modifiedAfter(new Date('2024-01-01T00:00:00Z'));
+    assert.deepEqual(query.build(), {
+      language: 'fts-alfresco',
+      statement: '=cm:title:"Say \\"hi\\"" AND cm:modified:["2024-01-01T00:00:00.000Z" TO MAX]',
+    });
+  });
+
+  it('treats startsWith input literally', () => {
+    assert.equal(Query.prop('cm:name').startsWith('a*b').toString(), '+@cm\\:name:a\\*b*');
+  });
+
+  it('rejects invalid input', () => {
+    assert.throws(() => Query.type('bad name'), ValidationError);
+    assert.throws(() => Query.type('cm:content').limit(0), ValidationError);
+    assert.throws(() => new QueryBuilder().build(), ValidationError);
+  });
+});
@@ -0,0 +1,180 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlfrescoClient, CmlBuilder, IntegrityError, NodeNotFoundError, Query, ValidationError } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { startMock } from './helpers';
+
+const CM = '{http://www.alfresco.org/model/content/1.0}';
+const SYS = '{http://www.alfresco.org/model/system/1.0}';
+
+describe('repository', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock({
+      fixture: [
+        {
+          name: 'Reports',
+          children: [
+            { name: 'q1 summary.txt', content: 'first quarter' },
+            { name: 'q2 summary.txt', content: 'second quarter', properties: { 'cm:title': 'Q2' } },
+            { name: 'Archive', children: [{ name: 'old.txt', content: 'old' }] },
+          ],
+        },
+      ],
+    }));
+  });
+
+  afterEach(() => server.reset());
+
+  after(() => close());
+
+  it('finds Company Home and lists its children', async () => {
+    const companyHome = await client.getCompanyHome();
+    assert.equal(companyHome.nodeRef, server.repository.companyHomeRef);
+
+    const children = await client.getChildren(companyHome.nodeRef);
+    assert.deepEqual(children.map(child => child.name), ['Data Dictionary', 'Guest Home', 'User Homes', 'Shared', 'Sites', 'Reports']);
+    assert.equal(children.find(child => child.name === 'Sites')!.type, 'st:sites');
+  });
+
+  it('lists stores and browses from any store root', async () => {
+    const stores = await client.getStores();
+    assert.deepEqual(stores.map(store => [store.storeRef, store.kind]), [
+      ['workspace://SpacesStore', 'workspace'],
+      ['archive://SpacesStore', 'archive'],
+      ['user://alfrescoUserStore', 'user'],
+      ['system://system', 'system'],
+    ]);
+
+    assert.equal(await client.getRootNode(), server.repository.rootRef);
+    const [companyHome] = await client.getRootChildren();
+    assert.equal(companyHome.nodeRef, server.repository.companyHomeRef);
+
+    const userStoreRoot = await client.getRootNode(stores[2]);
+    assert.match(userStoreRoot, /^user:\/\/alfrescoUserStore\//);
+    const [system] = await client.getRootChildren('user://alfrescoUserStore');
+    assert.equal(system.type, 'sys:container');
+    assert.match(system.nodeRef, /^user:\/\/alfrescoUserStore\//);
+    assert.deepEqual(await client.getRootChildren('archive://SpacesStore'), []);
+    await assert.rejects(client.getRootChildren('workspace://missing'), NodeNotFoundError);
+  });
+
+  it('returns the same typed node shape from queries, children and parents', async () => {
+    const reportsRef = server.nodeRef('/Reports');
+    const [fromQuery] = (await client.search(`PATH:"/app:company_home/cm:Reports"`)).nodes;
+    const [fromParents] = await client.getParents(server.nodeRef('/Reports/Archive'));
+    const fromChildren = (await client.getChildren(server.nodeRef('/'))).find(child => child.name === 'Reports')!;
+
+    for (const node of [fromQuery, fromParents, fromChildren]) {
+      assert.equal(node.nodeRef, reportsRef);
+      assert.equal(node.type, 'cm:folder');
+      assert.ok(node.properties[`${CM}modified`] instanceof Date);
+      assert.equal(typeof node.properties[`${SYS}node-dbid`], 'number');
+    }
+    assert.deepEqual(Object.keys(fromQuery.properties).sort(), Object.keys(fromChildren.properties).sort());
+  });
+
+  it('maps a missing node to NodeNotFoundError', async () => {
+    await assert.rejects(client.getNode('workspace://SpacesStore/does-not-exist'), NodeNotFoundError);
+    await assert.rejects(client.getChildren('workspace://SpacesStore/does-not-exist'), NodeNotFoundError);
+  });
+
+  it('creates, renames, moves, copies and deletes nodes', async () => {
+    const reportsRef = server.nodeRef('/Reports');
+    const folderRef = await client.createFolder(reportsRef, '2024');
+    assert.equal(server.nodeRef('/Reports/2024'), folderRef);
+    const minutesRef = await client.createFolder(reportsRef, 'Board minutes');
+    assert.deepEqual((await client.search('PATH:"/app:company_home/cm:Reports/cm:Board_x0020_minutes"')).nodes.map(node => node.nodeRef), [minutesRef]);
+
+    await client.updateNodes(new CmlBuilder().update(folderRef, { 'cm:name': 'FY2024' }));
+    const movedRef = await client.moveNode(folderRef, server.nodeRef('/Reports/Archive'));
+    assert.equal(await client.getPath(movedRef), '/Reports/Archive/FY2024');
+
+    const copyRef = await client.copyNode(server.nodeRef('/Reports/Archive'), server.nodeRef('/Shared'), true);
+    assert.equal(await client.getPath(copyRef), '/Shared/Archive');
+    assert.ok(server.nodeRef('/Shared/Archive/FY2024'));
+
+    assert.deepEqual(await client.deleteNode(copyRef), [copyRef]);
+    assert.throws(() => server.nodeRef('/Shared/Archive'));
+  });
+
+  it('rejects duplicate names with IntegrityError and rolls back the whole CML block', async () => {
+    const reportsRef = server.nodeRef('/Reports');
+    await assert.rejects(client.createFolder(reportsRef, 'Archive'), IntegrityError);
+
+    const cml = new CmlBuilder()
+      .create({ id: 'a', parent: reportsRef, type: 'cm:folder', properties: { 'cm:name': 'New' } })
+      .create({ parent: reportsRef, type: 'cm:folder', properties: { 'cm:name': 'Archive' } });
+    await assert.rejects(client.updateNodes(cml), IntegrityError);
+    assert.throws(() => server.nodeRef('/Reports/New'));
+  });
+
+  it('pages through large result sets with fetchMore', async () => {
+    server.load(Array.from({ length: 7 }, (_, i) => ({ name: `doc-${i}.txt`, content: String(i) })), '/Reports/Archive');
+    const paged = new AlfrescoClient({ url: server.url, username: 'admin', password: 'admin', queryBatchSize: 3 });
+
+    const first = await paged.search('PATH:"/app:company_home/cm:Reports/cm:Archive/*"');
+    assert.equal(first.nodes.length, 3);
+    assert.equal(first.totalRowCount, 8);
+    assert.ok(first.querySession);
+
+    const names: string[] = [];
+    for await (const node of paged.searchAll('PATH:"/app:company_home/cm:Reports/cm:Archive/*"')) names.push(node.name);
+    assert.equal(names.length, 8);
+    assert.equal(server.calls.filter(call => call === 'fetchMore').length, 2);
+    await paged.close();
+  });
+
+  it('runs QueryBuilder queries in both languages with sorting and limits', async () => {
+    const query = Query.type('cm:content').prop('cm:name').like('q*').orderBy('cm:name', 'desc');
+    const lucene = await client.query(query);
+    assert.deepEqual(lucene.nodes.map(node => node.name), ['q2 summary.txt', 'q1 summary.txt']);
+
+    const fts = await client.query(query.language('fts-alfresco').limit(1));
+    assert.deepEqual(fts.nodes.map(node => node.name), ['q2 summary.txt']);
+
+    const titled = await client.query(Query.type('cm:content').not().prop('cm:title').equals('Q2'));
+    assert.ok(!titled.nodes.some(node => node.name === 'q2 summary.txt'));
+  });
+
+  it('resolves, prints and creates display paths', async () => {
+    const node = await client.resolvePath('/Reports/Archive/old.txt');
+    assert.equal(node.name, 'old.txt');
+    assert.equal(await client.getPath(node.nodeRef), '/Reports/Archive/old.txt');
+    assert.equal((await client.resolvePath('/Sites')).nodeRef, server.nodeRef('/Sites'));
+    await assert.rejects(client.resolvePath('/Reports/missing'), NodeNotFoundError);
+
+    const created = await client.ensurePath('/Reports/2025/Q1');
+    assert.equal(created, server.nodeRef('/Reports/2025/Q1'));
+    assert.equal(await client.ensurePath('/Reports/2025/Q1'), created);
+  });
+
+  it('resolves paths by the current name after a rename', async () => {
+    const folderRef = await client.createFolder(server.nodeRef('/Reports'), 'Foo');
+    await client.updateNodes(new CmlBuilder().update(folderRef, { 'cm:name': 'Bar' }));
+
+    await assert.rejects(client.resolvePath('/Reports/Foo'), NodeNotFoundError);
+    assert.equal((await client.resolvePath('/Reports/Bar')).nodeRef, folderRef);
+    assert.equal(await client.getPath(folderRef), '/Reports/Bar');
+  });
+
+  it('resolves paths by the current name after renaming an intermediate folder', async () => {
+    const oldRef = await client.createFolder(server.nodeRef('/Reports'), 'Old');
+    await client.createDocument(oldRef, 'doc.txt', 'moved along', 'text/plain');
+    await client.updateNodes(new CmlBuilder().update(oldRef, { 'cm:name': 'New' }));
+    await client.createFolder(server.nodeRef('/Reports'), 'Old');
+
+    await assert.rejects(client.resolvePath('/Reports/Old/doc.txt'), NodeNotFoundError);
+    assert.equal((await client.resolvePath('/Reports/New/doc.txt')).nodeRef, server.nodeRef('/Reports/New/doc.txt'));
+  });
+
+  it('validates input before calling the server', async () => {
+    const calls = server.calls.length;
+    await assert.rejects(client.getNode('not a nodeRef'), ValidationError);
+    assert.throws(() => Query.type('not a qname'), ValidationError);
+    assert.equal(server.calls.length, calls);
+  });
+});
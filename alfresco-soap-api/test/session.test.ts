@@ -0,0 +1,101 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlfrescoClient, AuthenticationError, InvalidTicketError } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+
+describe('sessions', () => {
+  let server: MockAlfrescoServer;
+  let url: string;
+
+  before(async () => {
+    server = new MockAlfrescoServer({ users: { alice: 'secret' } });
+    url = await server.start();
+  });
+
+  afterEach(() => server.reset());
+
+  after(() => server.stop());
+
+  it('logs in once and reuses the ticket', async () => {
+    const client = new AlfrescoClient({ url, username: 'alice', password: 'secret' });
+    await client.getStores();
+    await client.getCompanyHome();
+    assert.equal(server.calls.filter(call => call === 'startSession').length, 1);
+    assert.match(client.ticket!, /^TICKET_/);
+    await client.close();
+  });
+
+  it('rejects a wrong password with AuthenticationError', async () => {
+    const client = new AlfrescoClient({ url, username: 'alice', password: 'wrong' });
+    await assert.rejects(client.getStores(), AuthenticationError);
+  });
+
+  it('starts a new session when the ticket has expired', async () => {
+    const client = new AlfrescoClient({ url, username: 'alice', password: 'secret' });
+    await client.getStores();
+    const firstTicket = client.ticket;
+    server.expireTickets();
+
+    const stores = await client.getStores();
+    assert.equal(stores.length, server.repository.stores.length);
+    assert.notEqual(client.ticket, firstTicket);
+    assert.equal(server.calls.filter(call => call === 'startSession').length, 2);
+    await client.close();
+  });
+
+  it('shares one new session between concurrent calls that hit an expired ticket', async () => {
+    const client = new AlfrescoClient({ url, username: 'alice', password: 'secret' });
+    await client.getStores();
+    server.expireTickets();
+
+    server.injectFault({ operation: 'getStores', delay: 100 });
+    await Promise.all([client.getStores(), client.getCompanyHome()]);
+    await client.getStores();
+    assert.equal(server.calls.filter(call => call === 'startSession').length, 2);
+    assert.equal(server.sessionCount, 1);
+    await client.close();
+    assert.equal(server.sessionCount, 0);
+  });
+
+  it('ends a ticket replaced by the TTL only after the calls using it have finished', async () => {
+    const client = new AlfrescoClient({ url, username: 'alice', password: 'secret', ticketTtl: 50 });
+    await client.getStores();
+    const firstTicket = client.ticket;
+
+    server.injectFault({ operation: 'getStores', delay: 200 });
+    const slow = client.getStores();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await client.getCompanyHome();
+    assert.notEqual(client.ticket, firstTicket);
+    assert.equal(server.sessionCount, 2);
+
+    await slow;
+    assert.equal(server.calls.filter(call => call === 'startSession').length, 2);
+    await client.close();
+    assert.equal(server.sessionCount, 0);
+  });
+
+  it('ends the session on close', async () => {
+    const client = new AlfrescoClient({ url, username: 'alice', password: 'secret' });
+    await client.getStores();
+    const sessions = server.sessionCount;
+    await client.close();
+    assert.equal(server.sessionCount, sessions - 1);
+    assert.equal(client.ticket, null);
+  });
+
+  it('acts with a borrowed ticket without logging in or out', async () => {
+    const owner = new AlfrescoClient({ url, username: 'alice', password: 'secret' });
+    const ticket = await owner.authenticate();
+    const borrower = new AlfrescoClient({ url, username: 'alice', ticket });
+
+    assert.deepEqual(await borrower.getStores(), await owner.getStores());
+    assert.equal(server.calls.filter(call => call === 'startSession').length, 1);
+
+    server.expireTickets();
+    await assert.rejects(borrower.getStores(), InvalidTicketError);
+    await borrower.close();
+    assert.ok(!server.calls.includes('endSession'));
+    await owner.close();
+  });
+});
@@ -0,0 +1,77 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlfrescoClient, IntegrityError, NodeNotFoundError, ValidationError } from '../src';
+import { MockAlfrescoServer } from '../src/testing';
+import { startMock } from './helpers';
+
+describe('trash', () => {
+  let server: MockAlfrescoServer;
+  let client: AlfrescoClient;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ server, client, close } = await startMock({
+      users: { admin: 'admin', alice: 'secret' },
+      fixture: [{ name: 'Projects', children: [{ name: 'plan.txt', content: 'plan' }, { name: 'Old', children: [{ name: 'notes.txt', content: 'notes' }] }] }],
+    }));
+  });
+
+  afterEach(() => server.reset());
+
+  after(() => close());
+
+  it('lists deleted nodes with who deleted them, when and from where', async () => {
+    const projectsRef = server.nodeRef('/Projects');
+    const [planRef] = await client.deleteNode(server.nodeRef('/Projects/plan.txt'));
+    const alice = new AlfrescoClient({ url: server.url, username: 'alice', password: 'secret' });
+    await alice.deleteNode(server.nodeRef('/Projects/Old'));
+    await alice.close();
+
+    const items = await client.trash.list();
+    assert.deepEqual(items.map(item => item.name).sort(), ['Old', 'plan.txt']);
+    assert.ok(items[0].deletedAt!.getTime() >= items[1].deletedAt!.getTime());
+    const plan = items.find(item => item.name === 'plan.txt')!;
+    assert.equal(plan.nodeRef, planRef.replace('workspace://', 'archive://'));
+    assert.equal(plan.deletedBy, 'admin');
+    assert.ok(plan.deletedAt instanceof Date);
+    assert.equal(plan.originalParentRef, projectsRef);
+
+    assert.deepEqual((await client.trash.list({ deletedBy: 'alice' })).map(item => item.name), ['Old']);
+    assert.equal((await client.trash.list({ deletedAfter: new Date(Date.now() + 60000) })).length, 0);
+    assert.equal((await client.trash.list({ deletedBefore: new Date(Date.now() + 60000) })).length, 2);
+  });
+
+  it('restores a node with its children to its original parent', async () => {
+    await client.deleteNode(server.nodeRef('/Projects/Old'));
+    const [item] = await client.trash.list();
+
+    const restoredRef = await client.trash.restore(item.nodeRef);
+    assert.equal(restoredRef, server.nodeRef('/Projects/Old'));
+    assert.ok(server.nodeRef('/Projects/Old/notes.txt').startsWith('workspace://'));
+    assert.deepEqual(await client.trash.list(), []);
+    const restored = await client.resolvePath('/Projects/Old');
+    assert.equal(restored.properties['{http://www.alfresco.org/model/system/1.0}archivedBy'], undefined);
+  });
+
+  it('restores to another parent and reports name clashes', async () => {
+    await client.deleteNode(server.nodeRef('/Projects/plan.txt'));
+    await client.createDocument(server.nodeRef('/Projects'), 'plan.txt', 'new plan', 'text/plain');
+    const [item] = await client.trash.list();
+
+    await assert.rejects(client.trash.restore(item.nodeRef), IntegrityError);
+    assert.equal((await client.trash.list()).length, 1);
+
+    await client.trash.restore(item.nodeRef, server.nodeRef('/Shared'));
+    assert.equal(await client.getPath(server.nodeRef('/Shared/plan.txt')), '/Shared/plan.txt');
+  });
+
+  it('purges nodes for good', async () => {
+    const [deletedRef] = await client.deleteNode(server.nodeRef('/Projects/plan.txt'));
+    const [item] = await client.trash.list();
+
+    assert.deepEqual(await client.trash.purge([item.nodeRef]), [item.nodeRef]);
+    assert.deepEqual(await client.trash.list(), []);
+    await assert.rejects(client.trash.restore(item.nodeRef), NodeNotFoundError);
+    await assert.rejects(client.trash.purge(deletedRef), ValidationError);
+  });
+});
@@ -1,14 +1,41 @@
+import { Readable } from 'stream';
 import { NextRequest, NextResponse } from 'next/server';
-import { AlfrescoClient } from 'alfresco-soap-api';
+import {
+  AlfrescoClient,
+  AccessDeniedError,
+  AuthenticationError,
+  IntegrityError,
+  NodeNotFoundError,
+  TransportError,
+  ValidationError,
+} from 'alfresco-soap-api';
 
-// Create a single client instance that can be reused
-const createClient = () => new AlfrescoClient({
-  url: process.env.ALFRESCO_URL!,
-  username: process.env.ALFRESCO_USERNAME!,
-  password: process.env.ALFRESCO_PASSWORD!,
-  scheme: process.env.ALFRESCO_SCHEME || 'workspace',
-  address: process.env.ALFRESCO_ADDRESS || 'SpacesStore',
-});
+// Create a single client instance that is reused across requests, so its session ticket is shared
+let client: AlfrescoClient | null = null;
+const createClient = () => {
+  if (!client) {
+    client = new AlfrescoClient({
+      url: process.env.ALFRESCO_URL!,
+      username: process.env.ALFRESCO_USERNAME!,
+      password: process.env.ALFRESCO_PASSWORD!,
+      scheme: process.env.ALFRESCO_SCHEME || 'workspace',
+      address: process.env.ALFRESCO_ADDRESS || 'SpacesStore',
+      wsdlDir: process.env.ALFRESCO_WSDL_DIR,
+    });
+  }
+  return client;
+};
+
+// Map the library's error classes to HTTP statuses
+const statusFor = (error: unknown): number => {
+  if (error instanceof NodeNotFoundError) return 404;
+  if (error instanceof AccessDeniedError) return 403;
+  if (error instanceof AuthenticationError) return 401;
+  if (error instanceof ValidationError) return 400;
+  if (error instanceof IntegrityError) return 409;
+  if (error instanceof TransportError) return 502;
+  return 500;
+};
 
 export async function GET(req: NextRequest) {
   const action = req.nextUrl.searchParams.get('action');
@@ -39,7 +66,7 @@ export async function GET(req: NextRequest) {
     console.error('Alfresco API error:', error);
     return NextResponse.json(
       { error: 'API request failed: ' + (error as Error).message },
-      { status: 500 }
+      { status: statusFor(error) }
     );
   }
 }
@@ -53,7 +80,7 @@ async function handleCompanyHome(req: NextRequest, client: AlfrescoClient) {
     console.error('Failed to get Company Home:', error);
     return NextResponse.json(
       { error: 'Company Home not found: ' + (error as Error).message },
-      { status: 500 }
+      { status: statusFor(error) }
     );
   }
 }
@@ -68,17 +95,22 @@ async function handleChildren(req: NextRequest, client: AlfrescoClient) {
 
   try {
     const children = await client.getChildren(nodeRef);
-    return NextResponse.json(children);
+    // Ask the content model whether each child is a folder instead of guessing from its name
+    const withKind = await Promise.all(children.map(async (child) => ({
+      ...child,
+      isFolder: child.type !== 'unknown' ? await client.isFolderType(child.type) : undefined,
+    })));
+    return NextResponse.json(withKind);
   } catch (error) {
     console.error('Failed to get children:', error);
     return NextResponse.json(
       { error: 'Failed to load children: ' + (error as Error).message },
-      { status: 500 }
+      { status: statusFor(error) }
     );
   }
 }
 
-// Handler for getting content/download URLs
+// Handler for streaming content through this server, so the Alfresco ticket never reaches the browser
 async function handleContent(req: NextRequest, client: AlfrescoClient) {
   const nodeRef = req.nextUrl.searchParams.get('nodeRef');
   const download = req.nextUrl.searchParams.get('download') === 'true';
@@ -88,43 +120,36 @@ async function handleContent(req: NextRequest, client: AlfrescoClient) {
   }
 
   try {
-    console.log(`Getting ${download ? 'download' : 'display'} URL for nodeRef: ${nodeRef}`);
-    
-    let alfrescoUrl = await client.getDownloadUrl(nodeRef);
-    
-    // Convert to download URL if needed
-    if (download) {
-      if (alfrescoUrl.includes('/d/d/')) {
-        // Convert display URL to attachment URL: /d/d/ -> /d/a/
-        alfrescoUrl = alfrescoUrl.replace('/d/d/', '/d/a/');
-        console.log(`Converted /d/d/ to /d/a/ for download: ${alfrescoUrl}`);
-      } else if (alfrescoUrl.includes('/download/direct/')) {
-        // Convert direct download to attachment: /download/direct/ -> /d/a/
-        alfrescoUrl = alfrescoUrl.replace('/download/direct/', '/d/a/');
-        console.log(`Converted /download/direct/ to /d/a/ for download: ${alfrescoUrl}`);
-      }
-    }
+    // Pass simple single ranges through so media players can seek
+    const range = /^bytes=(\d+)-(\d*)$/.exec(req.headers.get('range') || '');
+    const content = await client.downloadContent(nodeRef, {
+      range: range ? { start: Number(range[1]), end: range[2] ? Number(range[2]) : undefined } : undefined,
+    });
 
-    // Add ticket auth
-    let authenticatedUrl;
-    if (alfrescoUrl.includes('?')) {
-      authenticatedUrl = `${alfrescoUrl}&alf_ticket=${encodeURIComponent(client.ticket!)}`;
-    } else {
-      authenticatedUrl = `${alfrescoUrl}?alf_ticket=${encodeURIComponent(client.ticket!)}`;
+    const headers = new Headers({
+      'Content-Type': content.mimetype || 'application/octet-stream',
+      'Content-Disposition': download ? 'attachment' : 'inline',
+      'Accept-Ranges': 'bytes',
+    });
+    if (content.length !== undefined) headers.set('Content-Length', String(content.length));
+    if (content.partial && range && content.length !== undefined && content.totalLength !== undefined) {
+      const start = Number(range[1]);
+      headers.set('Content-Range', `bytes ${start}-${start + content.length - 1}/${content.totalLength}`);
     }
-
-    console.log(`Redirecting to ${download ? 'download' : 'display'} URL`);
-    return NextResponse.redirect(authenticatedUrl);
+    return new NextResponse(Readable.toWeb(content) as ReadableStream, {
+      status: content.partial ? 206 : 200,
+      headers,
+    });
 
   } catch (error) {
-    console.error('Content URL retrieval error:', error);
+    console.error('Content retrieval error:', error);
     return NextResponse.json(
       {
-        error: 'Failed to get content URL',
+        error: 'Failed to get content',
         message: (error as Error).message,
         nodeRef
       },
-      { status: 500 }
+      { status: statusFor(error) }
     );
   }
 }
@@ -138,7 +163,7 @@ async function handleStores(req: NextRequest, client: AlfrescoClient) {
     console.error('Failed to get stores:', error);
     return NextResponse.json(
       { error: 'Failed to load stores: ' + (error as Error).message },
-      { status: 500 }
+      { status: statusFor(error) }
     );
   }
 } 
\ No newline at end of file
@@ -32,7 +32,10 @@ interface SidebarProps {
 
 // Helper function to determine if a node is a file based on its type
 const isFile = (node: any): boolean => {
-  if (!node || !node.type) return false;
+  if (!node) return false;
+  // Prefer the content-model answer supplied by the API route
+  if (typeof node.isFolder === 'boolean') return !node.isFolder;
+  if (!node.type) return false;
   const type = node.type.toLowerCase();
   // Check if it's explicitly a folder type
   if (type.includes('folder') || type.includes('container') || type.includes('space')) {